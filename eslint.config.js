@@ -105,8 +105,8 @@ export default [
     },
   },
   {
-    // Scheduler is entry point - console.log for startup is reasonable
-    files: ['src/scheduler.ts'],
+    // Entry points - console.log for startup and CLI output is reasonable
+    files: ['src/scheduler.ts', 'src/migrate-state.ts'],
     rules: {
       'no-console': 'off',
       '@typescript-eslint/explicit-function-return-type': 'off',
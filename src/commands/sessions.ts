@@ -1,8 +1,15 @@
 import type { Request, Response } from 'express'
 import { verifySlackSignature } from '../interactions/verify.js'
-import { loadState, type SessionState } from '../state.js'
+import type { SessionState } from '../state.js'
 import type { AlertType, UserResponse } from '../evaluator.js'
-import fs from 'fs'
+import type { StateStore } from '../stores/interface'
+import {
+  buildRegistrationUrl,
+  DEFAULT_VENUE,
+  describeLocation,
+  findVenue,
+  type Venue,
+} from '../venue.js'
 
 interface SlackBlock {
   type: string
@@ -24,7 +31,8 @@ interface SlackCommandResponse {
 
 export interface CommandHandlerDeps {
   signingSecret: string
-  statePath: string
+  store: StateStore
+  venues?: Venue[] // monitored venues, for registration links and venue names (default Extreme Ice)
 }
 
 /**
@@ -62,9 +70,9 @@ export function createCommandHandler(
       return
     }
 
-    const state = loadState(deps.statePath)
-    const lastPoll = getLastPollTimestamp(deps.statePath)
-    const response = buildSessionsResponse(state, lastPoll)
+    const state = deps.store.load()
+    const lastPoll = deps.store.lastModified()
+    const response = buildSessionsResponse(state, lastPoll, deps.venues)
 
     res.status(200).json(response)
   }
@@ -76,7 +84,8 @@ export function createCommandHandler(
  */
 export function buildSessionsResponse(
   state: SessionState[],
-  lastPoll: string | null
+  lastPoll: string | null,
+  venues: Venue[] = [DEFAULT_VENUE]
 ): SlackCommandResponse {
   if (state.length === 0) {
     return {
@@ -116,7 +125,7 @@ export function buildSessionsResponse(
       type: 'section',
       text: {
         type: 'mrkdwn',
-        text: formatSessionBlock(entry),
+        text: formatSessionBlock(entry, venues),
       },
     })
     blocks.push({ type: 'divider' })
@@ -144,15 +153,20 @@ export function buildSessionsResponse(
   }
 }
 
-function formatSessionBlock(entry: SessionState): string {
+function formatSessionBlock(entry: SessionState, venues: Venue[]): string {
   const { session } = entry
   const spotsRemaining = session.playersMax - session.playersRegistered
   const status = session.isFull
     ? ':no_entry: *FULL*'
     : `:white_check_mark: *Open* (${spotsRemaining} spot${spotsRemaining === 1 ? '' : 's'} left)`
-  const regUrl = `https://apps.daysmartrecreation.com/dash/x/#/online/extremeice/event-registration?date=${session.date}&facility_ids=1`
+  const venue = findVenue(venues, session)
+  const regUrl = buildRegistrationUrl(session.date, venue)
 
   let text = `*${session.dayOfWeek}, ${formatDate(session.date)}* at *${formatTime(session.time)}*\n`
+  const location = describeLocation(venues, session)
+  if (location) {
+    text += `_${location}_\n`
+  }
   text += `Players: *${session.playersRegistered}/${session.playersMax}* | Goalies: *${session.goaliesRegistered}/${session.goaliesMax}*\n`
   text += `Status: ${status}\n`
 
@@ -173,6 +187,7 @@ function formatAlertType(type: AlertType): string {
   const labels: Record<AlertType, string> = {
     OPPORTUNITY: 'Opportunity',
     FILLING_FAST: 'FILLING FAST',
+    SELLOUT_PREDICTED: 'Sellout Predicted',
     SOLD_OUT: 'SOLD OUT',
     NEWLY_AVAILABLE: 'Newly Available',
   }
@@ -209,13 +224,3 @@ function formatTimestamp(date: Date): string {
     timeZoneName: 'short',
   })
 }
-
-function getLastPollTimestamp(statePath: string): string | null {
-  try {
-    if (!fs.existsSync(statePath)) return null
-    const stats = fs.statSync(statePath)
-    return stats.mtime.toISOString()
-  } catch {
-    return null
-  }
-}
@@ -0,0 +1,197 @@
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitStatus {
+  state: CircuitState
+  consecutiveFailures: number
+  lastError: string | null
+  lastSuccessAt: string | null // ISO timestamp
+  retryAt: string | null // ISO timestamp when an open circuit lets a trial request through
+}
+
+export interface CircuitBreakerOptions {
+  threshold?: number // consecutive failed requests before opening (default 5)
+  cooldownMs?: number // how long the circuit stays open (default 5 minutes)
+  now?: () => number
+}
+
+/**
+ * Stops calling a failing service: after `threshold` consecutive failures the
+ * circuit opens and requests fail fast for `cooldownMs`, then one trial request
+ * is allowed (half-open) - success closes the circuit, failure re-opens it.
+ */
+export class CircuitBreaker {
+  private threshold: number
+  private cooldownMs: number
+  private now: () => number
+
+  private consecutiveFailures = 0
+  private openedAt: number | null = null
+  private lastError: string | null = null
+  private lastSuccessAt: number | null = null
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.threshold = options.threshold ?? 5
+    this.cooldownMs = options.cooldownMs ?? 5 * 60 * 1000
+    this.now = options.now ?? Date.now
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed'
+    return this.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open'
+  }
+
+  canRequest(): boolean {
+    return this.state !== 'open'
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0
+    this.openedAt = null
+    this.lastSuccessAt = this.now()
+  }
+
+  recordFailure(error: string): void {
+    this.consecutiveFailures++
+    this.lastError = error
+
+    // A failed trial request re-opens immediately
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.threshold) {
+      this.openedAt = this.now()
+    }
+  }
+
+  status(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      lastSuccessAt:
+        this.lastSuccessAt === null ? null : new Date(this.lastSuccessAt).toISOString(),
+      retryAt:
+        this.openedAt === null ? null : new Date(this.openedAt + this.cooldownMs).toISOString(),
+    }
+  }
+}
+
+export interface DashClientOptions {
+  timeoutMs?: number // per request (default 15s)
+  maxAttempts?: number // per request, including the first (default 3)
+  baseDelayMs?: number // first backoff ceiling, doubled per retry (default 1s)
+  maxDelayMs?: number // longest wait between attempts, Retry-After included (default 30s)
+  breaker?: CircuitBreaker
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+}
+
+/**
+ * HTTP client for the DASH API: per-request timeouts, retries with full
+ * jitter on network errors, 429 and 5xx (honoring Retry-After), and a circuit
+ * breaker shared by every request so a DASH outage isn't hammered every poll.
+ * Other 4xx responses mean DASH is up and are not retried.
+ */
+export class DashClient {
+  readonly breaker: CircuitBreaker
+
+  private timeoutMs: number
+  private maxAttempts: number
+  private baseDelayMs: number
+  private maxDelayMs: number
+  private sleep: (ms: number) => Promise<void>
+  private random: () => number
+
+  constructor(options: DashClientOptions = {}) {
+    this.timeoutMs = options.timeoutMs ?? 15000
+    this.maxAttempts = options.maxAttempts ?? 3
+    this.baseDelayMs = options.baseDelayMs ?? 1000
+    this.maxDelayMs = options.maxDelayMs ?? 30000
+    this.breaker = options.breaker ?? new CircuitBreaker()
+    this.sleep =
+      options.sleep ??
+      (async (ms) => {
+        await new Promise((resolve) => setTimeout(resolve, ms))
+      })
+    this.random = options.random ?? Math.random
+  }
+
+  /**
+   * GET a DASH URL and parse the JSON body. `label` names the resource in
+   * errors, e.g. "Failed to fetch events: 404 Not Found".
+   */
+  async getJson<T>(url: string, label: string): Promise<T> {
+    if (!this.breaker.canRequest()) {
+      const { retryAt, lastError } = this.breaker.status()
+      throw new Error(
+        `DASH circuit open until ${retryAt} after repeated failures (last: ${lastError})`
+      )
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response
+      try {
+        response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) })
+      } catch (error) {
+        const reason =
+          error instanceof Error && error.name === 'TimeoutError'
+            ? `timed out after ${this.timeoutMs}ms`
+            : (error as Error).message
+        await this.retryOrThrow(attempt, `Failed to fetch ${label}: ${reason}`, null)
+        continue
+      }
+
+      if (response.ok) {
+        this.breaker.recordSuccess()
+        return (await response.json()) as T
+      }
+
+      const failure = `Failed to fetch ${label}: ${response.status} ${response.statusText}`
+      if (response.status !== 429 && response.status < 500) {
+        throw new Error(failure)
+      }
+      await this.retryOrThrow(
+        attempt,
+        failure,
+        parseRetryAfter(response.headers.get('retry-after'), Date.now())
+      )
+    }
+  }
+
+  /**
+   * Wait before the next attempt, or give up (and tell the breaker) when the
+   * attempts are used up or the server asks for a longer wait than maxDelayMs
+   */
+  private async retryOrThrow(
+    attempt: number,
+    failure: string,
+    retryAfterMs: number | null
+  ): Promise<void> {
+    const delayMs = retryAfterMs ?? this.backoff(attempt)
+    if (attempt >= this.maxAttempts || delayMs > this.maxDelayMs) {
+      this.breaker.recordFailure(failure)
+      throw new Error(failure)
+    }
+
+    console.warn(`${failure} - retrying in ${Math.round(delayMs)}ms (attempt ${attempt})`)
+    await this.sleep(delayMs)
+  }
+
+  /**
+   * Full jitter: a random wait up to base * 2^(attempt - 1), capped
+   */
+  private backoff(attempt: number): number {
+    return this.random() * Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (attempt - 1))
+  }
+}
+
+/**
+ * Retry-After as milliseconds from now - either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now: number): number | null {
+  if (!value) return null
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000
+  }
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
@@ -1,7 +1,20 @@
 import type { Session } from './parser'
+import { isSameSession } from './parser.js'
 import type { Config } from './config'
-
-export type AlertType = 'OPPORTUNITY' | 'FILLING_FAST' | 'SOLD_OUT' | 'NEWLY_AVAILABLE'
+import type { SessionSnapshot } from './history'
+import { forecastSellout, formatProjectedSellout, type SelloutForecast } from './forecast.js'
+import type { AlertRule } from './rules/interface'
+import { builtInRules, DEFAULT_PRIORITIES } from './rules/builtin.js'
+import { selectRule, renderMessage } from './rules/engine.js'
+import { buildRegistrationUrl, describeLocation, findVenue, type Venue } from './venue.js'
+import { sessionStartTime } from './poll-schedule.js'
+
+export type AlertType =
+  | 'OPPORTUNITY'
+  | 'FILLING_FAST'
+  | 'SELLOUT_PREDICTED'
+  | 'SOLD_OUT'
+  | 'NEWLY_AVAILABLE'
 
 export type UserResponse = 'registered' | 'not_interested' | 'remind_later'
 
@@ -10,187 +23,135 @@ export interface SessionState {
   lastAlertType: AlertType | null
   lastAlertAt: string | null // ISO timestamp
   lastPlayerCount: number | null
+  lastProjectedSellout?: string | null // ISO forecast carried by the last alert, if it had one
   isRegistered: boolean
   userResponse: UserResponse | null
   userRespondedAt: string | null // ISO timestamp
   remindAfter: string | null // ISO timestamp (only set for remind_later)
+  subscribers?: Record<string, SubscriberState> // per-Slack-user tracking, keyed by user id
+  slackMessages?: SlackMessageRef[] // alerts posted with the bot token, oldest first
+}
+
+/**
+ * One subscriber's alert and response tracking for a session
+ */
+export type SubscriberState = Omit<SessionState, 'session' | 'subscribers' | 'slackMessages'>
+
+/**
+ * A Slack message posted via chat.postMessage - enough to update it later
+ */
+export interface SlackMessageRef {
+  channel: string // channel id (a D... id for direct messages)
+  ts: string // message timestamp returned by Slack
+  recipient?: string // channel or user id posted to; missing on cards from older builds, which are left alone
+  alertType: AlertType
+  postedAt: string // ISO timestamp
+  template?: string // rule message template, so refreshes render the card the same way
+  subscribers?: string[] // mentioned in the message (channel posts in multi-user mode)
 }
 
 export interface Alert {
   type: AlertType
   session: Session
   message: string
+  template?: string // rule message template the message was rendered from
   registrationUrl: string
+  priority?: number // priority of the rule that produced the alert
+  forecast?: SelloutForecast // projected sell-out time, when the session is filling
+  subscribers?: string[] // Slack user ids this alert is for (multi-user mode)
+  location?: string // venue and/or rink, when there is more than one place it could be
+  id?: string // assigned when first queued for delivery, kept across retries
+  detectedAt?: string // ISO timestamp, assigned with id
 }
 
+/**
+ * Evaluate each upcoming session against the alert rules (built-in rules by
+ * default) and return at most one alert per session, earliest session first.
+ */
 export function evaluate(
   sessions: Session[],
   previousState: SessionState[],
-  config: Config
+  config: Config,
+  history: SessionSnapshot[] = [],
+  rules: AlertRule[] = builtInRules(config)
 ): Alert[] {
   const alerts: Alert[] = []
   const now = new Date()
 
   for (const session of sessions) {
     // Skip sessions in the past
-    const sessionDateTime = new Date(`${session.date}T${session.time}:00`)
-    if (sessionDateTime < now) {
+    if (sessionStartTime(session) < now) {
       continue
     }
 
     const prevState = findPreviousState(session, previousState)
+    const forecast = forecastSellout(session, history, now)
 
-    // Alert priority hierarchy - only ONE alert per session
-    // Priority: SOLD_OUT > NEWLY_AVAILABLE > FILLING_FAST > OPPORTUNITY
-
-    // Priority 1: SOLD_OUT - transitioned from available to full
-    if (prevState && session.isFull && !prevState.session.isFull) {
-      alerts.push(createAlert('SOLD_OUT', session))
-      continue
-    }
-
-    // Priority 2: NEWLY_AVAILABLE - transitioned from full to available
-    if (prevState && !session.isFull && prevState.session.isFull) {
-      alerts.push(createAlert('NEWLY_AVAILABLE', session))
-      continue
-    }
-
-    // Skip remaining alert types for registered or dismissed sessions
-    if (prevState?.isRegistered || prevState?.userResponse === 'not_interested') {
-      continue
-    }
-
-    // Skip remaining alert types during remind_later snooze period
-    if (
-      prevState?.userResponse === 'remind_later' &&
-      prevState.remindAfter &&
-      new Date(prevState.remindAfter) > now
-    ) {
-      continue
-    }
-
-    // Skip remaining alert types if session is full
-    if (session.isFull) {
-      continue
-    }
-
-    // Calculate player spots remaining
-    const spotsRemaining = session.playersMax - session.playersRegistered
-
-    // Priority 3: FILLING_FAST - urgency alert when spots are running out
-    if (spotsRemaining <= config.playerSpotsUrgent) {
-      if (shouldAlertFillingFast(session, prevState)) {
-        alerts.push(createAlert('FILLING_FAST', session))
-        continue
-      }
-    }
-
-    // Priority 4: OPPORTUNITY - general interest alert
-    if (
-      session.goaliesRegistered >= config.minGoalies &&
-      session.playersRegistered >= config.minPlayersRegistered
-    ) {
-      if (shouldAlertOpportunity(session, prevState)) {
-        alerts.push(createAlert('OPPORTUNITY', session))
-        continue
-      }
+    const rule = selectRule(rules, { session, prevState, forecast, now })
+    if (rule) {
+      alerts.push(createAlert(rule, session, forecast, config.venues))
     }
   }
 
   // Sort alerts chronologically (earliest first)
-  return alerts.sort((a, b) => {
-    const dateCompare = a.session.date.localeCompare(b.session.date)
-    if (dateCompare !== 0) return dateCompare
-    return a.session.time.localeCompare(b.session.time)
-  })
+  return alerts.sort(compareAlerts)
 }
 
-function findPreviousState(
-  session: Session,
-  previousState: SessionState[]
-): SessionState | undefined {
-  return previousState.find(
-    (state) => state.session.date === session.date && state.session.time === session.time
-  )
+/**
+ * Alert order used everywhere alerts are listed: earliest session first, then
+ * the higher-priority alert type for the same session
+ */
+export function compareAlerts(a: Alert, b: Alert): number {
+  const dateCompare = a.session.date.localeCompare(b.session.date)
+  if (dateCompare !== 0) return dateCompare
+  const timeCompare = a.session.time.localeCompare(b.session.time)
+  if (timeCompare !== 0) return timeCompare
+  return DEFAULT_PRIORITIES[b.type] - DEFAULT_PRIORITIES[a.type]
 }
 
-function shouldAlertOpportunity(session: Session, prevState: SessionState | undefined): boolean {
-  // CRITICAL: Don't downgrade from higher-priority alerts
-  // If previous alert was FILLING_FAST, NEWLY_AVAILABLE, or SOLD_OUT,
-  // suppress OPPORTUNITY (maintains alert hierarchy)
-  if (
-    prevState?.lastAlertType === 'FILLING_FAST' ||
-    prevState?.lastAlertType === 'NEWLY_AVAILABLE' ||
-    prevState?.lastAlertType === 'SOLD_OUT'
-  ) {
-    return false
+/**
+ * Plain-text alert message: the rule's template plus where the session is and
+ * when it is projected to sell out. Live card refreshes render it the same way.
+ */
+export function renderAlertMessage(
+  template: string,
+  session: Session,
+  location: string | undefined,
+  forecast: SelloutForecast | null
+): string {
+  const lines = [renderMessage(template, session)]
+  if (location) {
+    lines.push(`At ${location}`)
   }
-
-  // No previous alert OR previous was also OPPORTUNITY - check if we should fire
-  if (!prevState || prevState.lastAlertType !== 'OPPORTUNITY') {
-    return true
+  if (forecast) {
+    lines.push(`Projected to sell out ~${formatProjectedSellout(forecast, session.timezone)}`)
   }
-
-  // Suppression rule: only re-alert if spots decreased by >= 2
-  const prevSpotsRemaining = session.playersMax - (prevState.lastPlayerCount ?? 0)
-  const currentSpotsRemaining = session.playersMax - session.playersRegistered
-  const decrease = prevSpotsRemaining - currentSpotsRemaining
-
-  return decrease >= 2
+  return lines.join('\n')
 }
 
-function shouldAlertFillingFast(session: Session, prevState: SessionState | undefined): boolean {
-  // CRITICAL: Don't downgrade from higher-priority alerts
-  // If previous alert was NEWLY_AVAILABLE or SOLD_OUT, suppress FILLING_FAST
-  // unless session state has changed (more registrations)
-  if (prevState?.lastAlertType === 'NEWLY_AVAILABLE' || prevState?.lastAlertType === 'SOLD_OUT') {
-    // Only allow FILLING_FAST if spots decreased since the higher-priority alert
-    const prevPlayerCount = prevState.lastPlayerCount ?? 0
-    return session.playersRegistered > prevPlayerCount
-  }
-
-  // No previous alert OR previous was also FILLING_FAST - check if we should fire
-  if (!prevState || prevState.lastAlertType !== 'FILLING_FAST') {
-    return true
-  }
-
-  // Suppression rule: only re-alert if spots decreased
-  const prevPlayerCount = prevState.lastPlayerCount ?? 0
-  return session.playersRegistered > prevPlayerCount
+function findPreviousState(
+  session: Session,
+  previousState: SessionState[]
+): SessionState | undefined {
+  return previousState.find((state) => isSameSession(state.session, session))
 }
 
-function createAlert(type: AlertType, session: Session): Alert {
-  const spotsRemaining = session.playersMax - session.playersRegistered
-
-  const messages: Record<AlertType, string> = {
-    OPPORTUNITY: `🏒 OPPORTUNITY: ${session.dayOfWeek} ${formatDate(session.date)}, ${formatTime(session.time)}\nPlayers: ${session.playersRegistered}/${session.playersMax} (${spotsRemaining} spots left)\nGoalies: ${session.goaliesRegistered}/${session.goaliesMax}\nStatus: Worth signing up!`,
-    FILLING_FAST: `⚡ FILLING FAST: ${session.dayOfWeek} ${formatDate(session.date)}, ${formatTime(session.time)}\nPlayers: ${session.playersRegistered}/${session.playersMax} (${spotsRemaining} spots left)\nGoalies: ${session.goaliesRegistered}/${session.goaliesMax}\nStatus: Act now!`,
-    SOLD_OUT: `🚫 SOLD OUT: ${session.dayOfWeek} ${formatDate(session.date)}, ${formatTime(session.time)}\nSession is now full.`,
-    NEWLY_AVAILABLE: `✅ NEWLY AVAILABLE: ${session.dayOfWeek} ${formatDate(session.date)}, ${formatTime(session.time)}\nSpots opened up! ${spotsRemaining} spot${spotsRemaining === 1 ? '' : 's'} available.`,
-  }
+function createAlert(
+  rule: AlertRule,
+  session: Session,
+  forecast: SelloutForecast | null,
+  venues: Venue[]
+): Alert {
+  const location = describeLocation(venues, session)
 
   return {
-    type,
+    type: rule.alertType,
     session,
-    message: messages[type],
-    registrationUrl: buildRegistrationUrl(session.date),
+    message: renderAlertMessage(rule.message, session, location, forecast),
+    template: rule.message,
+    registrationUrl: buildRegistrationUrl(session.date, findVenue(venues, session)),
+    priority: rule.priority,
+    forecast: forecast ?? undefined,
+    ...(location && { location }),
   }
 }
-
-function formatDate(date: string): string {
-  // Convert YYYY-MM-DD to "Feb 20"
-  const d = new Date(date + 'T00:00:00')
-  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
-}
-
-function formatTime(time: string): string {
-  // Convert HH:MM to "6:00am"
-  const [hours, minutes] = time.split(':').map(Number)
-  const period = hours >= 12 ? 'pm' : 'am'
-  const displayHours = hours % 12 || 12
-  return `${displayHours}:${minutes.toString().padStart(2, '0')}${period}`
-}
-
-function buildRegistrationUrl(date: string): string {
-  return `https://apps.daysmartrecreation.com/dash/x/#/online/extremeice/event-registration?date=${date}&facility_ids=1`
-}
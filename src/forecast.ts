@@ -0,0 +1,165 @@
+import type { Session } from './parser'
+import type { SessionSnapshot } from './history'
+import { getFillCurve, getSlotFillHistory } from './history.js'
+import { sessionStartTime } from './poll-schedule.js'
+
+export interface SelloutForecast {
+  projectedAt: string // ISO timestamp
+  playersPerHour: number | null // recent fill velocity (null if projection is purely historical)
+  basis: 'velocity' | 'historical' | 'blended'
+}
+
+export interface ForecastOptions {
+  lookbackHours: number // window of recent polls used for velocity
+}
+
+const DEFAULT_OPTIONS: ForecastOptions = {
+  lookbackHours: 24,
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Estimate when a session will reach playersMax.
+ *
+ * Combines the session's own recent fill velocity with how far ahead of start
+ * the same weekday/time slot sold out in previous weeks. Returns null when the
+ * session is already full, isn't filling, or won't fill before it starts.
+ */
+export function forecastSellout(
+  session: Session,
+  history: SessionSnapshot[],
+  now: Date = new Date(),
+  options: ForecastOptions = DEFAULT_OPTIONS
+): SelloutForecast | null {
+  if (session.isFull || session.playersMax <= 0) {
+    return null
+  }
+
+  const sessionStart = sessionStartTime(session)
+  if (sessionStart <= now) {
+    return null
+  }
+
+  const spotsRemaining = session.playersMax - session.playersRegistered
+  const velocity = estimateVelocity(
+    getFillCurve(history, session.date, session.time, session),
+    now,
+    options.lookbackHours
+  )
+  const velocityProjection =
+    velocity !== null ? now.getTime() + (spotsRemaining / velocity) * HOUR_MS : null
+
+  const leadHours = estimateHistoricalLeadHours(history, session)
+  let historicalProjection =
+    leadHours !== null ? sessionStart.getTime() - leadHours * HOUR_MS : null
+  // History says it should already be full but it isn't - not a useful signal
+  if (historicalProjection !== null && historicalProjection <= now.getTime()) {
+    historicalProjection = null
+  }
+
+  let projected: number
+  let basis: SelloutForecast['basis']
+  if (velocityProjection !== null && historicalProjection !== null) {
+    projected = (velocityProjection + historicalProjection) / 2
+    basis = 'blended'
+  } else if (velocityProjection !== null) {
+    projected = velocityProjection
+    basis = 'velocity'
+  } else if (historicalProjection !== null) {
+    projected = historicalProjection
+    basis = 'historical'
+  } else {
+    return null
+  }
+
+  if (projected >= sessionStart.getTime()) {
+    return null
+  }
+
+  return {
+    projectedAt: new Date(projected).toISOString(),
+    playersPerHour: velocity,
+    basis,
+  }
+}
+
+/**
+ * Registrations per hour across the snapshots recorded in the lookback window.
+ * Returns null with fewer than two snapshots or when the session isn't filling.
+ */
+export function estimateVelocity(
+  curve: SessionSnapshot[],
+  now: Date,
+  lookbackHours: number
+): number | null {
+  const windowStart = now.getTime() - lookbackHours * HOUR_MS
+  const recent = curve.filter((s) => {
+    const at = new Date(s.recordedAt).getTime()
+    return at >= windowStart && at <= now.getTime()
+  })
+
+  if (recent.length < 2) {
+    return null
+  }
+
+  const first = recent[0]
+  const last = recent[recent.length - 1]
+  const elapsedHours =
+    (new Date(last.recordedAt).getTime() - new Date(first.recordedAt).getTime()) / HOUR_MS
+  if (elapsedHours <= 0) {
+    return null
+  }
+
+  const velocity = (last.playersRegistered - first.playersRegistered) / elapsedHours
+  return velocity > 0 ? velocity : null
+}
+
+/**
+ * Average number of hours before start that previous occurrences of the same
+ * weekday/time slot sold out. Returns null if none of them sold out.
+ */
+export function estimateHistoricalLeadHours(
+  history: SessionSnapshot[],
+  session: Session
+): number | null {
+  const leads = getSlotFillHistory(history, session.dayOfWeek, session.time, session)
+    .filter((occurrence) => occurrence.date < session.date && occurrence.soldOutAt !== null)
+    .map((occurrence) => {
+      const start = sessionStartTime({ ...session, date: occurrence.date })
+      return (start.getTime() - new Date(occurrence.soldOutAt!).getTime()) / HOUR_MS
+    })
+    .filter((lead) => lead > 0)
+
+  if (leads.length === 0) {
+    return null
+  }
+
+  return leads.reduce((sum, lead) => sum + lead, 0) / leads.length
+}
+
+/**
+ * Format a projected sell-out time in the session's zone, rounded to the hour
+ * and labelled with the zone. Example: "Thu 8pm EST"
+ */
+export function formatProjectedSellout(
+  forecast: SelloutForecast,
+  timeZone = 'America/New_York'
+): string {
+  const rounded = new Date(Math.round(new Date(forecast.projectedAt).getTime() / HOUR_MS) * HOUR_MS)
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    hour12: true,
+    timeZoneName: 'short',
+  }).formatToParts(rounded)
+
+  const weekday = parts.find((p) => p.type === 'weekday')!.value
+  const hour = parts.find((p) => p.type === 'hour')!.value
+  const period = parts.find((p) => p.type === 'dayPeriod')!.value.toLowerCase()
+  const zone = parts.find((p) => p.type === 'timeZoneName')!.value
+
+  return `${weekday} ${hour}${period} ${zone}`
+}
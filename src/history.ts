@@ -0,0 +1,211 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import type { Session, SessionIdentityFields } from './parser'
+import { isSamePlace, isSameSession } from './parser.js'
+
+/**
+ * Point-in-time registration counts for one session, captured on every poll.
+ */
+export interface SessionSnapshot {
+  date: string // YYYY-MM-DD
+  time: string // HH:MM (24h)
+  dayOfWeek: string
+  recordedAt: string // ISO timestamp
+  playersRegistered: number
+  playersMax: number
+  goaliesRegistered: number
+  goaliesMax: number
+  venue?: string // Session.venue (absent in snapshots recorded before multi-rink)
+  rink?: string // Session.rink
+  playersEventId?: string // Session.playersEventId (absent in snapshots recorded before event ids)
+  goaliesEventId?: string // Session.goaliesEventId
+}
+
+/**
+ * Fill curve for a past occurrence of a recurring weekday/time slot.
+ */
+export interface SlotFillHistory {
+  date: string
+  curve: SessionSnapshot[]
+  soldOutAt: string | null // ISO timestamp of first full snapshot
+}
+
+/**
+ * Load snapshot history from disk.
+ * Returns empty array if file doesn't exist or is invalid. An invalid file is
+ * moved aside to `<file>.corrupt-<timestamp>` (as corrupted state is) so the
+ * next save doesn't destroy it.
+ */
+export function loadHistory(filePath: string): SessionSnapshot[] {
+  let contents: string
+  try {
+    if (!fs.existsSync(filePath)) {
+      return []
+    }
+    contents = fs.readFileSync(filePath, 'utf-8').trim()
+  } catch (error) {
+    console.error(`Cannot read history ${filePath}, continuing without it:`, error)
+    return []
+  }
+
+  if (!contents) {
+    return []
+  }
+
+  try {
+    const history: unknown = JSON.parse(contents)
+    if (!Array.isArray(history)) {
+      throw new Error('expected an array of snapshots')
+    }
+    return history as SessionSnapshot[]
+  } catch (error) {
+    // History is best-effort; a corrupted file just restarts the record
+    quarantineHistory(filePath, error as Error)
+    return []
+  }
+}
+
+/**
+ * Save snapshot history to disk using atomic write (temp file + rename).
+ * Creates parent directory if it doesn't exist.
+ */
+export function saveHistory(filePath: string, history: SessionSnapshot[]): void {
+  const dir = path.dirname(filePath)
+  const tempPath = path.join(dir, `.${path.basename(filePath)}.tmp`)
+
+  try {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+
+    fs.writeFileSync(tempPath, JSON.stringify(history), 'utf-8')
+    fs.renameSync(tempPath, filePath)
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      try {
+        fs.unlinkSync(tempPath)
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Append one snapshot per scraped session.
+ * Returns new history array (immutable update).
+ */
+export function appendSnapshots(
+  history: SessionSnapshot[],
+  sessions: Session[],
+  recordedAt: Date = new Date()
+): SessionSnapshot[] {
+  const timestamp = recordedAt.toISOString()
+
+  const snapshots: SessionSnapshot[] = sessions.map((session) => ({
+    date: session.date,
+    time: session.time,
+    dayOfWeek: session.dayOfWeek,
+    recordedAt: timestamp,
+    playersRegistered: session.playersRegistered,
+    playersMax: session.playersMax,
+    goaliesRegistered: session.goaliesRegistered,
+    goaliesMax: session.goaliesMax,
+    ...(session.venue && { venue: session.venue }),
+    ...(session.rink && { rink: session.rink }),
+    ...(session.playersEventId && { playersEventId: session.playersEventId }),
+    ...(session.goaliesEventId && { goaliesEventId: session.goaliesEventId }),
+  }))
+
+  return [...history, ...snapshots]
+}
+
+/**
+ * Remove snapshots for sessions dated more than retentionDays before compareDate.
+ * Past sessions are kept for a while so weekday/time fill curves can be compared.
+ */
+export function pruneHistory(
+  history: SessionSnapshot[],
+  retentionDays: number,
+  compareDate: Date = new Date()
+): SessionSnapshot[] {
+  const cutoff = new Date(compareDate.getTime() - retentionDays * 24 * 60 * 60 * 1000)
+  const cutoffStr = cutoff.toISOString().split('T')[0]
+
+  return history.filter((s) => s.date >= cutoffStr)
+}
+
+/**
+ * Get the fill curve for one session, ordered oldest snapshot first.
+ * With a place, only snapshots from that venue and rink count. With event ids
+ * too, snapshots are matched by id (so a rescheduled session keeps its curve)
+ * wherever they have ids, as isSameSession does.
+ */
+export function getFillCurve(
+  history: SessionSnapshot[],
+  date: string,
+  time: string,
+  place: Omit<SessionIdentityFields, 'date' | 'time'> = {}
+): SessionSnapshot[] {
+  return history
+    .filter((s) => isSameSession(s, { ...place, date, time }))
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt))
+}
+
+/**
+ * Get fill curves for every recorded occurrence of a weekday/time slot,
+ * most recent occurrence first (e.g. "Friday 06:00" for the last few weeks).
+ * With a place, only that venue and rink's occurrences count.
+ */
+export function getSlotFillHistory(
+  history: SessionSnapshot[],
+  dayOfWeek: string,
+  time: string,
+  place: Pick<Session, 'venue' | 'rink'> = {}
+): SlotFillHistory[] {
+  // One snapshot per occurrence; its event ids pick out that occurrence's curve
+  const occurrences = new Map<string, SessionSnapshot>()
+  for (const s of history) {
+    if (s.dayOfWeek === dayOfWeek && s.time === time && isSamePlace(s, place)) {
+      occurrences.set(s.date, s)
+    }
+  }
+
+  return [...occurrences]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([date, occurrence]) => {
+      const curve = getFillCurve(history, date, time, {
+        venue: occurrence.venue ?? place.venue,
+        rink: occurrence.rink ?? place.rink,
+        playersEventId: occurrence.playersEventId,
+        goaliesEventId: occurrence.goaliesEventId,
+      })
+      return { date, curve, soldOutAt: findSoldOutAt(curve) }
+    })
+}
+
+/**
+ * Find when a session first reached player capacity.
+ * Returns null if the curve never shows the session full.
+ */
+export function findSoldOutAt(curve: SessionSnapshot[]): string | null {
+  const full = curve.find((s) => s.playersMax > 0 && s.playersRegistered >= s.playersMax)
+  return full ? full.recordedAt : null
+}
+
+function quarantineHistory(filePath: string, error: Error): void {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const quarantinedPath = `${filePath}.corrupt-${timestamp}`
+  try {
+    fs.renameSync(filePath, quarantinedPath)
+    console.error(
+      `⚠️  History ${filePath} is unreadable (${error.message}); moved to ${quarantinedPath}, starting a new record`
+    )
+  } catch (renameError) {
+    console.error(
+      `⚠️  History ${filePath} is unreadable and could not be moved aside:`,
+      renameError
+    )
+  }
+}
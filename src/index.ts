@@ -1,98 +1,418 @@
 import type { Config } from './config'
 import type { Notifier } from './notifiers/interface'
+import type { Session } from './parser'
+import { isSameSession, sessionKey } from './parser.js'
 import { scrapeEvents } from './scraper.js'
-import { evaluate } from './evaluator.js'
+import type { DashClient } from './dash-client'
+import type { Venue } from './venue'
+import { evaluate, type Alert, type SessionState, type SlackMessageRef } from './evaluator.js'
+import { cardsToRefresh } from './live-cards.js'
+import { loadRulesFile, resolveRules } from './rules/loader.js'
+import { evaluateForSubscribers, loadSubscribers } from './subscribers.js'
+import { isRoutedAway, loadRoutes, routeAlert } from './routing.js'
+import type { StateStore } from './stores/interface'
 import {
-  loadState,
-  saveState,
+  isSupersededAlert,
   pruneOldSessions,
+  recordSlackMessage,
   updateSessionState,
-  mergeUserResponses,
+  updateSubscriberAlert,
+  type StateRecovery,
 } from './state.js'
+import {
+  loadHistory,
+  saveHistory,
+  appendSnapshots,
+  pruneHistory,
+  type SessionSnapshot,
+} from './history.js'
+import { deliverOutbox, enqueueAlert, loadOutbox, reachedAlerts, saveOutbox } from './outbox.js'
 import { ConsoleNotifier } from './notifiers/console.js'
 import { SlackNotifier } from './notifiers/slack.js'
+import { SlackBotNotifier } from './notifiers/slack-bot.js'
+import { EmailNotifier, ResendTransport, SmtpTransport } from './notifiers/email.js'
+import { SmsNotifier } from './notifiers/sms.js'
+import { NtfyProvider, PushNotifier, PushoverProvider } from './notifiers/push.js'
+import { WebhookNotifier } from './notifiers/webhook.js'
+import { DiscordNotifier } from './notifiers/discord.js'
+
+const DEFAULT_HISTORY_PATH = './data/history.json'
+export const DEFAULT_OUTBOX_PATH = './data/outbox.json'
+
+// Last version of each rules, routes or subscribers file that loaded, by path
+const lastGoodConfigFiles = new Map<string, { value: unknown; error: string | null }>()
 
-const DEFAULT_STATE_PATH = './data/state.json'
+export interface NotifierHooks {
+  onSlackPosted?: (alert: Alert, message: SlackMessageRef) => void // bot-token posts only
+  findSession?: (session: Session) => SessionState | undefined // live Slack cards
+}
 
 /**
  * Create configured notifiers based on config
  */
-export function createNotifiers(config: Config): Notifier[] {
+export function createNotifiers(config: Config, hooks: NotifierHooks = {}): Notifier[] {
   const notifiers: Notifier[] = []
 
   // Console notifier always active
   notifiers.push(new ConsoleNotifier())
 
-  // Slack notifier if configured
-  if (config.slackWebhookUrl) {
+  // Slack: bot token (chat.postMessage) when configured, otherwise the webhook
+  const slackBot = config.slackBotToken
+    ? new SlackBotNotifier(config.slackBotToken, config.slackChannel, {
+        apiUrl: config.slackApiUrl,
+        directMessages: config.slackDirectMessages,
+        onPosted: hooks.onSlackPosted,
+        findSession: hooks.findSession,
+      })
+    : null
+
+  if (slackBot?.isConfigured()) {
+    notifiers.push(slackBot)
+  } else if (config.slackWebhookUrl) {
     const slack = new SlackNotifier(config.slackWebhookUrl)
     if (slack.isConfigured()) {
       notifiers.push(slack)
     }
   }
 
+  // Email if recipients are configured: Resend API, else SMTP
+  if (config.emailTo.length > 0 && config.emailFrom) {
+    const transport = config.resendApiKey
+      ? new ResendTransport(config.resendApiKey, config.resendApiUrl)
+      : config.smtpUrl
+        ? new SmtpTransport(config.smtpUrl)
+        : null
+    if (transport) {
+      notifiers.push(new EmailNotifier(config.emailFrom, config.emailTo, transport))
+    }
+  }
+
+  // SMS if Twilio is configured (validateConfig requires all TWILIO_* settings together)
+  if (config.twilioAccountSid && config.twilioAuthToken && config.twilioFromNumber) {
+    const sms = new SmsNotifier(
+      config.twilioAccountSid,
+      config.twilioAuthToken,
+      config.twilioFromNumber,
+      config.twilioToNumbers,
+      {
+        apiUrl: config.twilioApiUrl,
+        alertTypes: config.smsAlertTypes,
+        publicUrl: config.publicUrl,
+      }
+    )
+    if (sms.isConfigured()) {
+      notifiers.push(sms)
+    }
+  }
+
+  // Push via Pushover and/or ntfy
+  const pushProviders = [
+    config.pushoverAppToken && config.pushoverUserKey
+      ? new PushoverProvider(config.pushoverAppToken, config.pushoverUserKey, config.pushoverApiUrl)
+      : null,
+    config.ntfyTopic ? new NtfyProvider(config.ntfyUrl, config.ntfyTopic, config.ntfyToken) : null,
+  ]
+  for (const provider of pushProviders) {
+    if (provider?.isConfigured()) {
+      notifiers.push(new PushNotifier(provider))
+    }
+  }
+
+  // Discord via channel webhook
+  if (config.discordWebhookUrl) {
+    notifiers.push(new DiscordNotifier(config.discordWebhookUrl))
+  }
+
+  // Generic signed JSON webhooks
+  if (config.webhookUrls.length > 0 && config.webhookSecret) {
+    notifiers.push(new WebhookNotifier(config.webhookUrls, config.webhookSecret))
+  }
+
   return notifiers
 }
 
+/**
+ * Send an operational warning through every notifier that supports them.
+ * Failures are logged per notifier and never thrown.
+ */
+export async function sendWarning(notifiers: Notifier[], message: string): Promise<void> {
+  for (const notifier of notifiers) {
+    if (!notifier.sendWarning) continue
+    try {
+      await notifier.sendWarning(message)
+    } catch (error) {
+      console.error(`Failed to send warning via ${notifier.name}:`, error)
+    }
+  }
+}
+
+/**
+ * Describe a corrupted-state recovery for a warning notification
+ */
+export function describeStateRecovery(recovery: StateRecovery): string {
+  const lines = [
+    `State file was unreadable (${recovery.error}) and has been moved to ${recovery.quarantinedPath}.`,
+  ]
+
+  if (recovery.restoredFrom) {
+    lines.push(
+      `Restored ${recovery.sessionCount} sessions from backup ${recovery.restoredFrom}. Responses since that backup may be missing.`
+    )
+  } else {
+    lines.push(
+      'No usable backup was found - starting from empty state. Alerts may repeat for sessions already handled.'
+    )
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Re-read a rules, routes or subscribers file, so edits apply without a
+ * restart. If it no longer loads, keep the last version that did and add a
+ * warning to `warnings` (once per distinct error). Throws when there is no
+ * earlier version to fall back on.
+ */
+export function reloadConfigFile<T>(filePath: string, load: () => T, warnings: string[]): T {
+  const lastGood = lastGoodConfigFiles.get(filePath)
+  try {
+    const value = load()
+    lastGoodConfigFiles.set(filePath, { value, error: null })
+    return value
+  } catch (error) {
+    if (!lastGood) {
+      throw error
+    }
+
+    const message = `Failed to reload ${filePath}: ${(error as Error).message}`
+    console.error(`⚠️  ${message} - keeping the last version that loaded`)
+    if (lastGood.error !== message) {
+      warnings.push(`${message}\nStill using the last version that loaded until it is fixed.`)
+      lastGoodConfigFiles.set(filePath, { ...lastGood, error: message })
+    }
+    return lastGood.value as T
+  }
+}
+
+/**
+ * Scrape every venue in turn. A venue that fails is logged and skipped so the
+ * others are still checked; the poll fails only when every venue does.
+ */
+export async function scrapeVenues(
+  venues: Venue[],
+  forwardDays: number,
+  client?: DashClient // default: the shared client for each venue's host
+): Promise<Session[]> {
+  const sessions: Session[] = []
+  const failures: unknown[] = []
+
+  for (const venue of venues) {
+    try {
+      sessions.push(...(await scrapeEvents(new Date(), forwardDays, venue, client)))
+    } catch (error) {
+      failures.push(error)
+      if (venues.length > 1) {
+        console.error(
+          `Failed to scrape ${venue.name}:`,
+          error instanceof Error ? error.message : error
+        )
+      }
+    }
+  }
+
+  if (failures.length === venues.length && failures.length > 0) {
+    throw failures[0]
+  }
+
+  return sessions
+}
+
 /**
  * Execute one poll cycle:
- * 1. Scrape events from DASH
+ * 1. Scrape events from DASH (every venue) and record snapshot history
  * 2. Load previous state
  * 3. Prune old sessions
  * 4. Evaluate alerts
- * 5. Send notifications
- * 6. Update and save state
+ * 5. Route alerts into the outbox, deliver due entries, refresh live Slack cards
+ * 6. Update and save state for the alerts that were delivered
  */
-export async function poll(config: Config, statePath: string = DEFAULT_STATE_PATH): Promise<void> {
+export async function poll(
+  config: Config,
+  store: StateStore,
+  historyPath: string = DEFAULT_HISTORY_PATH,
+  outboxPath: string = DEFAULT_OUTBOX_PATH
+): Promise<void> {
   try {
-    // Step 1: Scrape current events
-    const sessions = await scrapeEvents(new Date(), config.forwardWindowDays)
+    // Step 1: Scrape current events at every venue
+    const sessions = await scrapeVenues(config.venues, config.forwardWindowDays)
+
+    // Record a timestamped snapshot per session for fill-curve queries
+    const history = recordHistory(historyPath, sessions, config.historyRetentionDays)
 
     // Step 2: Load and prune state
-    let state = loadState(statePath)
-    state = pruneOldSessions(state, new Date())
+    const state = pruneOldSessions(store.load(), new Date())
 
-    // Step 3: Evaluate alerts
-    const alerts = evaluate(sessions, state, config)
+    // Step 3: Evaluate alerts (history feeds sell-out forecasts), per subscriber
+    // when a subscribers file is configured. An invalid rules, subscribers or
+    // routes file falls back to its last valid version rather than failing the poll.
+    const { rulesPath, subscribersPath, routesPath } = config
+    const warnings: string[] = []
+    const ruleFile = rulesPath
+      ? reloadConfigFile(rulesPath, () => loadRulesFile(rulesPath), warnings)
+      : null
+    const subscribers = subscribersPath
+      ? reloadConfigFile(subscribersPath, () => loadSubscribers(subscribersPath), warnings)
+      : []
+    const alerts =
+      subscribers.length > 0
+        ? evaluateForSubscribers(sessions, state, config, history, subscribers, ruleFile)
+        : evaluate(sessions, state, config, history, resolveRules(config, ruleFile))
+
+    // Step 4: Queue each alert for the notifiers it is routed to, then deliver
+    // everything due (earlier failures, digests), keeping the channel/ts of
+    // bot-token posts
+    const posted: Array<{ alert: Alert; message: SlackMessageRef }> = []
+    const notifiers = createNotifiers(config, {
+      onSlackPosted: (alert, message) => posted.push({ alert, message }),
+      findSession: (session) => state.find((s) => isSameSession(s.session, session)),
+    })
+    const routes = routesPath
+      ? reloadConfigFile(routesPath, () => loadRoutes(routesPath), warnings)
+      : []
+    for (const warning of warnings) {
+      await sendWarning(notifiers, warning)
+    }
 
-    // Step 4: Send notifications
-    const notifiers = createNotifiers(config)
+    const now = new Date()
+    let outbox = loadOutbox(outboxPath)
     for (const alert of alerts) {
+      const routed = routeAlert(alert, notifiers, routes, now)
+      const digest = config.digestMode && !config.digestExemptTypes.includes(alert.type)
+      outbox = enqueueAlert(
+        outbox,
+        alert,
+        routed.map((n) => n.name),
+        now,
+        digest ? { digestWindowMinutes: config.digestWindowMinutes } : {}
+      )
+    }
+
+    const delivery = await deliverOutbox(
+      outbox,
+      notifiers,
+      { maxAttempts: config.outboxMaxAttempts, retryMinutes: config.outboxRetryMinutes },
+      now
+    )
+    try {
+      saveOutbox(outboxPath, delivery.outbox)
+    } catch (error) {
+      console.error('Failed to save notification outbox:', error)
+    }
+
+    // Only alerts that reached someone advance suppression state; this poll's
+    // alerts (in evaluation order) come before delivered retries
+    const rank = (alert: Alert): number => {
+      const index = alerts.findIndex(
+        (a) => a.type === alert.type && isSameSession(a.session, alert.session)
+      )
+      return index === -1 ? alerts.length : index
+    }
+    // Alerts no channel but the console will ever take count once logged, so
+    // they aren't re-evaluated every poll; quiet hours only hold alerts back
+    const routedAway = alerts.filter((alert) => isRoutedAway(alert, notifiers, routes))
+    const delivered = reachedAlerts(delivery.delivered, notifiers, (alert) =>
+      routedAway.some((a) => a.type === alert.type && isSameSession(a.session, alert.session))
+    ).sort((a, b) => rank(a) - rank(b))
+
+    // Keep already-posted Slack cards showing current counts
+    for (const card of cardsToRefresh(sessions, state, alerts, now, config.venues, history)) {
       for (const notifier of notifiers) {
+        if (!notifier.refresh) continue
         try {
-          await notifier.send(alert)
+          await notifier.refresh(card)
         } catch (error) {
-          console.error(`Failed to send via ${notifier.name}:`, error)
+          console.error(`Failed to refresh via ${notifier.name}:`, error)
         }
       }
     }
 
-    // Step 5: Update state for each session
-    // Track which sessions had alerts
-    const alertedSessions = new Map(
-      alerts.map((a) => [
-        `${a.session.date}:${a.session.time}`,
-        { type: a.type, at: new Date().toISOString() },
-      ])
-    )
+    // Step 5: Apply poll results on top of the freshest stored state in one
+    // read-modify-write, so user responses from Slack interactions that arrived
+    // during the async poll window are carried over by updateSessionState
+    const alertedAt = new Date().toISOString()
+    store.update((current) => {
+      let next = pruneOldSessions(current, new Date())
+      const stored = (session: Session): SessionState | undefined =>
+        next.find((s) => isSameSession(s.session, session))
+
+      // The first (highest-priority) delivered alert per session, skipping
+      // stale lower-ranked ones that went out after an escalation
+      const alertedSessions = new Map<string, Alert>()
+      for (const alert of delivered) {
+        const key = sessionKey(alert.session)
+        if (!alertedSessions.has(key) && !isSupersededAlert(stored(alert.session), alert)) {
+          alertedSessions.set(key, alert)
+        }
+      }
 
-    for (const session of sessions) {
-      const key = `${session.date}:${session.time}`
-      const alertInfo = alertedSessions.get(key)
+      for (const session of sessions) {
+        const alert = alertedSessions.get(sessionKey(session))
 
-      state = updateSessionState(state, session, alertInfo?.type || null, alertInfo?.at || null)
-    }
+        next = updateSessionState(
+          next,
+          session,
+          alert?.type ?? null,
+          alert ? alertedAt : null,
+          alert?.forecast?.projectedAt ?? null
+        )
+      }
+
+      for (const alert of delivered) {
+        for (const userId of alert.subscribers ?? []) {
+          if (isSupersededAlert(stored(alert.session)?.subscribers?.[userId], alert)) continue
+          next = updateSubscriberAlert(
+            next,
+            alert.session,
+            userId,
+            alert.type,
+            alertedAt,
+            alert.forecast?.projectedAt ?? null
+          )
+        }
+      }
 
-    // Step 6: Re-read fresh state to preserve user responses from Slack interactions
-    // that may have arrived during the async poll window
-    const freshState = loadState(statePath)
-    state = mergeUserResponses(state, freshState)
+      for (const { alert, message } of posted) {
+        next = recordSlackMessage(next, alert.session, message)
+      }
 
-    // Step 7: Save state
-    saveState(statePath, state)
-  } catch {
+      return next
+    })
+  } catch (error) {
     // TODO: Use structured logger when available
     // Gracefully handle errors - log but don't crash
     // The next poll cycle will retry
+    console.error('Poll failed:', error instanceof Error ? error.message : error)
+  }
+}
+
+/**
+ * Append this poll's snapshots to the history store and return the updated history.
+ * History is best-effort and must never block alerting.
+ */
+function recordHistory(
+  historyPath: string,
+  sessions: Session[],
+  retentionDays: number
+): SessionSnapshot[] {
+  const now = new Date()
+  let history = appendSnapshots(loadHistory(historyPath), sessions, now)
+  history = pruneHistory(history, retentionDays, now)
+
+  try {
+    saveHistory(historyPath, history)
+  } catch (error) {
+    console.error('Failed to record session history:', error)
   }
+
+  return history
 }
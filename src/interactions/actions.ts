@@ -1,15 +1,19 @@
 import type { UserResponse } from '../evaluator.js'
-import { loadState, saveState, updateUserResponse } from '../state.js'
+import type { SessionRef } from '../parser'
+import type { StateStore } from '../stores/interface'
+import { matchesSessionRef, REF_VENUE_PREFIX } from '../parser.js'
+import { updateUserResponse } from '../state.js'
 
 export interface ParsedAction {
   actionId: string
   value: string
   responseUrl: string
+  userId: string | null // Slack user who clicked
+  messageBlocks: Record<string, unknown>[] | null // blocks of the alert message that was clicked
+  blockId: string | null // actions block the button is in (one per session in digests)
 }
 
-export interface SessionIdentity {
-  date: string
-  time: string
+export interface SessionIdentity extends SessionRef {
   eventName: string
 }
 
@@ -20,8 +24,13 @@ export interface ActionResult {
   eventName: string
   found: boolean
   responseUrl: string
+  userId: string | null
+  messageBlocks: Record<string, unknown>[] | null
+  blockId: string | null
 }
 
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
 const VALID_ACTIONS: Record<string, UserResponse> = {
   session_registered: 'registered',
   session_not_interested: 'not_interested',
@@ -49,31 +58,55 @@ export function parseInteractionPayload(payload: unknown): ParsedAction | null {
   if (typeof actionId !== 'string' || typeof value !== 'string' || typeof responseUrl !== 'string')
     return null
 
-  return { actionId, value, responseUrl }
+  const user = p.user as Record<string, unknown> | undefined
+  const userId = typeof user?.id === 'string' ? user.id : null
+
+  const message = p.message as Record<string, unknown> | undefined
+  const messageBlocks = Array.isArray(message?.blocks)
+    ? (message.blocks as Record<string, unknown>[])
+    : null
+
+  const blockId = typeof action.block_id === 'string' ? action.block_id : null
+
+  return { actionId, value, responseUrl, userId, messageBlocks, blockId }
 }
 
 /**
  * Parse the pipe-delimited session identity from a button value.
- * Format: {date}|{time}|{eventName}
+ * Format: {sessionId}|{date}|{time}|{eventName}; venue={venue}|{date}|{time}|{eventName}
+ * for sessions without event ids; or {date}|{time}|{eventName} on buttons
+ * posted before sessions had ids
  */
 export function parseActionValue(value: string): SessionIdentity | null {
   const parts = value.split('|')
-  if (parts.length < 3) return null
+  const first = DATE_PATTERN.test(parts[0]) ? undefined : parts.shift()
+  const venue = first?.startsWith(REF_VENUE_PREFIX)
+    ? first.slice(REF_VENUE_PREFIX.length)
+    : undefined
+  const id = venue === undefined ? first : undefined
+  if (parts.length < 3 || id === '' || venue === '') return null
 
   const [date, time, ...rest] = parts
   const eventName = rest.join('|')
 
   if (!date || !time || !eventName) return null
 
-  return { date, time, eventName }
+  return {
+    ...(id !== undefined && { id }),
+    ...(venue !== undefined && { venue }),
+    date,
+    time,
+    eventName,
+  }
 }
 
 /**
  * Process a Slack interaction: parse payload, update state, return result.
+ * The response is recorded for the clicking user as well as channel-wide.
  * Returns null if the payload is invalid or the action is unrecognized.
  */
 export function processInteraction(
-  statePath: string,
+  store: StateStore,
   payload: unknown,
   remindIntervalHours: number
 ): ActionResult | null {
@@ -83,31 +116,26 @@ export function processInteraction(
   const userResponse = VALID_ACTIONS[parsed.actionId]
   if (!userResponse) return null
 
-  const sessionId = parseActionValue(parsed.value)
-  if (!sessionId) return null
-
-  const state = loadState(statePath)
-  const found = state.some(
-    (s) => s.session.date === sessionId.date && s.session.time === sessionId.time
-  )
-
-  if (found) {
-    const updatedState = updateUserResponse(
-      state,
-      sessionId.date,
-      sessionId.time,
-      userResponse,
-      remindIntervalHours
-    )
-    saveState(statePath, updatedState)
-  }
+  const identity = parseActionValue(parsed.value)
+  if (!identity) return null
+
+  let found = false
+  store.update((state) => {
+    found = state.some((s) => matchesSessionRef(s.session, identity))
+    if (!found) return state
+
+    return updateUserResponse(state, identity, userResponse, remindIntervalHours, parsed.userId)
+  })
 
   return {
     userResponse,
-    date: sessionId.date,
-    time: sessionId.time,
-    eventName: sessionId.eventName,
+    date: identity.date,
+    time: identity.time,
+    eventName: identity.eventName,
     found,
     responseUrl: parsed.responseUrl,
+    userId: parsed.userId,
+    messageBlocks: parsed.messageBlocks,
+    blockId: parsed.blockId,
   }
 }
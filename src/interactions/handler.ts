@@ -1,17 +1,21 @@
 import type { Request, Response } from 'express'
 import { verifySlackSignature } from './verify.js'
 import { processInteraction } from './actions.js'
+import type { StateStore } from '../stores/interface'
 import { buildConfirmationText, sendConfirmation } from './confirm.js'
+import { buildResolvedBlocks, buildStatusText, replaceOriginalMessage } from './original-message.js'
 
 export interface InteractionHandlerDeps {
   signingSecret: string
-  statePath: string
+  store: StateStore
   remindIntervalHours: number
+  multiUser?: boolean // alerts are shared by subscribers - keep buttons after a response
 }
 
 /**
  * Express route handler for POST /slack/interactions.
- * Verifies signature, processes action, updates state, returns 200.
+ * Verifies signature, processes action, updates state, returns 200,
+ * then confirms to the user and updates the original alert message.
  */
 export function createInteractionHandler(
   deps: InteractionHandlerDeps
@@ -53,7 +57,7 @@ export function createInteractionHandler(
     }
 
     // Process the interaction (parse action, update state)
-    const result = processInteraction(deps.statePath, payload, deps.remindIntervalHours)
+    const result = processInteraction(deps.store, payload, deps.remindIntervalHours)
 
     // Respond 200 immediately (Slack requires <3s response)
     res.status(200).send()
@@ -65,5 +69,19 @@ export function createInteractionHandler(
         console.error('Failed to send Slack confirmation:', error)
       })
     }
+
+    // Fire-and-forget: mark the original alert with who responded
+    if (result?.found && result.messageBlocks) {
+      const status = buildStatusText(result, deps.remindIntervalHours)
+      const blocks = buildResolvedBlocks(
+        result.messageBlocks,
+        status,
+        deps.multiUser,
+        result.blockId ?? undefined
+      )
+      void replaceOriginalMessage(result.responseUrl, blocks, status).catch((error) => {
+        console.error('Failed to update Slack alert message:', error)
+      })
+    }
   }
 }
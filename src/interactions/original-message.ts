@@ -0,0 +1,95 @@
+import type { ActionResult } from './actions.js'
+import { formatSlackDate } from '../notifiers/slack-blocks.js'
+
+type Block = Record<string, unknown>
+
+const ACTIONS_BLOCK_ID = 'actions_block'
+
+/**
+ * Status line recording who responded to an alert and when.
+ * The time uses Slack date formatting so each viewer sees their local time.
+ */
+export function buildStatusText(
+  result: ActionResult,
+  remindIntervalHours: number,
+  now: Date = new Date()
+): string {
+  const by = result.userId ? ` by <@${result.userId}>` : ''
+  const at = formatSlackDate(now)
+
+  switch (result.userResponse) {
+    case 'registered':
+      return `✅ Marked registered${by} at ${at}`
+    case 'not_interested':
+      return `❌ Dismissed${by} at ${at}`
+    case 'remind_later':
+      return `⏰ Snoozed${by} at ${at} for ${remindIntervalHours} hours`
+  }
+}
+
+/**
+ * Blocks for the clicked alert after a response: the original content plus a
+ * status line under the clicked session, after any earlier status lines. That
+ * session's action buttons (blockId - one block per session in digests) are
+ * removed unless keepActions is set (shared multi-user alerts, where other
+ * subscribers still need to respond). Other sessions' buttons are kept.
+ */
+export function buildResolvedBlocks(
+  blocks: Block[],
+  statusText: string,
+  keepActions: boolean = false,
+  blockId: string = ACTIONS_BLOCK_ID
+): Block[] {
+  const status: Block = {
+    type: 'context',
+    elements: [{ type: 'mrkdwn', text: statusText }],
+  }
+
+  const index = blocks.findIndex((b) => b.block_id === blockId)
+  if (index === -1) {
+    return [...blocks, status]
+  }
+
+  let end = index + 1
+  while (end < blocks.length && blocks[end].type === 'context') {
+    end++
+  }
+  const before = blocks.slice(0, end).filter((_b, i) => keepActions || i !== index)
+
+  return [...before, status, ...blocks.slice(end)]
+}
+
+/**
+ * Replace the clicked alert message via response_url.
+ * Best-effort delivery with a single retry after 2 seconds.
+ */
+export async function replaceOriginalMessage(
+  responseUrl: string,
+  blocks: Block[],
+  text: string
+): Promise<void> {
+  const body = JSON.stringify({
+    replace_original: true,
+    text, // notification fallback
+    blocks,
+  })
+
+  const attempt = async (): Promise<void> => {
+    const response = await fetch(responseUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    })
+
+    if (!response.ok) {
+      throw new Error(`Message update POST failed: ${response.status}`)
+    }
+  }
+
+  try {
+    await attempt()
+  } catch {
+    await new Promise((resolve) => setTimeout(resolve, 2000))
+    await attempt()
+  }
+}
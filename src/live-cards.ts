@@ -0,0 +1,69 @@
+import type { Alert, SessionState } from './evaluator'
+import { renderAlertMessage } from './evaluator.js'
+import type { SessionSnapshot } from './history'
+import { forecastSellout } from './forecast.js'
+import type { Session } from './parser'
+import { isSameSession, sessionKey } from './parser.js'
+import { DEFAULT_MESSAGES } from './rules/builtin.js'
+import { sessionStartTime } from './poll-schedule.js'
+import {
+  buildRegistrationUrl,
+  DEFAULT_VENUE,
+  describeLocation,
+  findVenue,
+  type Venue,
+} from './venue.js'
+
+/**
+ * Alerts to re-render on live Slack cards this poll: sessions that already
+ * have a posted card, got no new alert, and whose counts changed since the
+ * last poll. Cards someone responded to are left as the response made them.
+ * Each refresh renders the template the card was posted with, falling back
+ * to the built-in message for cards posted before templates were recorded,
+ * and carries a fresh sell-out forecast from history.
+ */
+export function cardsToRefresh(
+  sessions: Session[],
+  previousState: SessionState[],
+  alerts: Alert[],
+  now: Date = new Date(),
+  venues: Venue[] = [DEFAULT_VENUE],
+  history: SessionSnapshot[] = []
+): Alert[] {
+  const alerted = new Set(alerts.map((a) => sessionKey(a.session)))
+  const refreshes: Alert[] = []
+
+  for (const session of sessions) {
+    if (alerted.has(sessionKey(session))) continue
+    if (sessionStartTime(session) < now) continue
+
+    const prev = previousState.find((s) => isSameSession(s.session, session))
+    const latest = prev?.slackMessages?.filter((m) => m.recipient).at(-1)
+    if (!prev || !latest || !countsChanged(prev.session, session)) continue
+    if (prev.userRespondedAt && prev.userRespondedAt > latest.postedAt) continue
+
+    const template = latest.template ?? DEFAULT_MESSAGES[latest.alertType]
+    const location = describeLocation(venues, session)
+    const forecast = forecastSellout(session, history, now)
+
+    refreshes.push({
+      type: latest.alertType,
+      session,
+      message: renderAlertMessage(template, session, location, forecast),
+      template,
+      registrationUrl: buildRegistrationUrl(session.date, findVenue(venues, session)),
+      ...(forecast && { forecast }),
+      ...(location && { location }),
+    })
+  }
+
+  return refreshes
+}
+
+function countsChanged(before: Session, after: Session): boolean {
+  return (
+    before.playersRegistered !== after.playersRegistered ||
+    before.goaliesRegistered !== after.goaliesRegistered ||
+    before.isFull !== after.isFull
+  )
+}
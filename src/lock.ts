@@ -0,0 +1,191 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import * as crypto from 'crypto'
+
+export interface LockOptions {
+  timeoutMs: number // give up waiting for the lock after this long
+  staleMs: number // treat a lock older than this as abandoned
+  retryMs: number // delay between acquisition attempts
+}
+
+interface LockInfo {
+  pid: number
+  hostname: string
+  token: string
+  acquiredAt: string // ISO timestamp
+}
+
+const DEFAULT_LOCK_OPTIONS: LockOptions = {
+  timeoutMs: 10_000,
+  staleMs: 30_000,
+  retryMs: 25,
+}
+
+/**
+ * Run fn while holding an advisory lock on filePath (a sibling `.lock` file).
+ *
+ * Every process that does read-modify-write on the same file must go through
+ * this, so the poll loop, Slack handlers and CLI scripts can't clobber each other.
+ * Locks left behind by crashed processes are reclaimed once stale.
+ *
+ * Waiting is synchronous: while another process holds the lock, this blocks
+ * the event loop (HTTP requests included) for up to timeoutMs, 10s by default.
+ * Locks are only held for one read-modify-write of a small file, so in
+ * practice the wait is a few milliseconds.
+ */
+export function withFileLock<T>(
+  filePath: string,
+  fn: () => T,
+  options: Partial<LockOptions> = {}
+): T {
+  const opts = { ...DEFAULT_LOCK_OPTIONS, ...options }
+  const lockPath = `${filePath}.lock`
+  const token = acquireLock(lockPath, opts)
+
+  try {
+    return fn()
+  } finally {
+    releaseLock(lockPath, token)
+  }
+}
+
+function acquireLock(lockPath: string, options: LockOptions): string {
+  const token = crypto.randomUUID()
+  const info: LockInfo = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    token,
+    acquiredAt: new Date().toISOString(),
+  }
+  const deadline = Date.now() + options.timeoutMs
+
+  const dir = path.dirname(lockPath)
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true })
+  }
+
+  for (;;) {
+    try {
+      // 'wx' fails if the file exists - creation is the atomic test-and-set
+      fs.writeFileSync(lockPath, JSON.stringify(info), { flag: 'wx' })
+      return token
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error
+      }
+    }
+
+    const stale = staleLockStats(lockPath, options.staleMs)
+    if (stale) {
+      // Another waiter may reclaim it first - either way we retry immediately
+      reclaimStaleLock(lockPath, stale)
+      continue
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath} after ${options.timeoutMs}ms`)
+    }
+
+    sleepSync(options.retryMs)
+  }
+}
+
+function releaseLock(lockPath: string, token: string): void {
+  // Only remove the lock if it is still ours (it may have been reclaimed as stale)
+  const info = readLockInfo(lockPath)
+  if (info?.token === token) {
+    removeLockFile(lockPath)
+  }
+}
+
+/**
+ * The lock file's stats if it is stale: its owner process is gone (same host
+ * only) or it has been held longer than staleMs. Null if it is live or gone.
+ */
+function staleLockStats(lockPath: string, staleMs: number): fs.Stats | null {
+  let stats: fs.Stats
+  try {
+    stats = fs.statSync(lockPath)
+  } catch {
+    // Released between our attempt and this check
+    return null
+  }
+
+  const info = readLockInfo(lockPath)
+  if (info && info.hostname === os.hostname() && !isProcessAlive(info.pid)) {
+    return stats
+  }
+
+  return Date.now() - stats.mtimeMs > staleMs ? stats : null
+}
+
+/**
+ * Remove the stale lock described by `stale` without racing other waiters.
+ *
+ * Deleting by path could remove a lock that another waiter reclaimed and a
+ * live process took in the meantime. Instead the file is moved aside (rename
+ * is atomic, so exactly one waiter gets it) and checked: if it isn't the lock
+ * judged stale, it goes back unless yet another lock has appeared.
+ */
+export function reclaimStaleLock(lockPath: string, stale: fs.Stats): void {
+  const asidePath = `${lockPath}.${crypto.randomUUID()}.stale`
+  try {
+    fs.renameSync(lockPath, asidePath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return // Already reclaimed by another waiter
+    }
+    throw error
+  }
+
+  try {
+    const moved = fs.statSync(asidePath)
+    if (moved.ino !== stale.ino || moved.mtimeMs !== stale.mtimeMs) {
+      // linkSync fails rather than overwrite if a lock exists at lockPath again
+      fs.linkSync(asidePath, lockPath)
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error
+    }
+  } finally {
+    removeLockFile(asidePath)
+  }
+}
+
+function readLockInfo(lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf-8')) as LockInfo
+  } catch {
+    // Missing, or caught mid-write by its owner
+    return null
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+function removeLockFile(lockPath: string): void {
+  try {
+    fs.unlinkSync(lockPath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error
+    }
+  }
+}
+
+/**
+ * Blocks the whole thread, event loop included - see withFileLock
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms)
+}
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+import 'dotenv/config'
+import { readStateFile, updateStateFile } from './state.js'
+import { CURRENT_STATE_VERSION, migrationBackupPath } from './migrations.js'
+
+/**
+ * Upgrade a JSON state file to the current schema version.
+ *
+ * Usage: npm run migrate-state -- [--dry-run] [path]
+ * Path defaults to STATE_PATH or ./data/state.json. With --dry-run the
+ * pending migrations are listed and nothing is written. The SQLite store
+ * migrates itself when opened, so STATE_BACKEND=sqlite has nothing to do.
+ */
+function main(): void {
+  const args = process.argv.slice(2)
+  const dryRun = args.includes('--dry-run')
+  const pathArg = args.find((arg) => !arg.startsWith('--'))
+
+  if (!pathArg && process.env.STATE_BACKEND === 'sqlite') {
+    console.log('STATE_BACKEND=sqlite - the SQLite store migrates itself when opened')
+    return
+  }
+
+  const filePath = pathArg ?? process.env.STATE_PATH ?? './data/state.json'
+  if (filePath.endsWith('.db')) {
+    throw new Error(
+      `${filePath} looks like a SQLite store - this upgrades JSON state files, and SQLite migrates itself when opened`
+    )
+  }
+
+  const result = readStateFile(filePath)
+  if (!result) {
+    console.log(`No state at ${filePath} - nothing to migrate`)
+    return
+  }
+
+  console.log(`State file: ${filePath}`)
+  console.log(`Sessions: ${result.sessions.length}`)
+  console.log(`Schema version: ${result.fromVersion} (current: ${CURRENT_STATE_VERSION})`)
+
+  if (result.applied.length === 0) {
+    console.log('✓ Already up to date')
+    return
+  }
+
+  console.log('Pending migrations:')
+  for (const step of result.applied) {
+    console.log(`  - ${step}`)
+  }
+
+  if (dryRun) {
+    console.log('\nDry run - no changes written')
+    return
+  }
+
+  // Rewrite under the state lock; loadState takes the backup first
+  updateStateFile(filePath, (state) => [...state])
+  console.log(`\n✓ Migrated to v${result.toVersion}`)
+  console.log(`  Backup: ${migrationBackupPath(filePath, result.fromVersion)}`)
+}
+
+try {
+  main()
+} catch (error) {
+  console.error('❌ Migration failed:', error)
+  process.exit(1)
+}
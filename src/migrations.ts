@@ -0,0 +1,124 @@
+import type { SessionState } from './evaluator'
+
+/**
+ * Schema version written by this build. Bump it together with a new entry
+ * in STATE_MIGRATIONS whenever SessionState changes shape.
+ *
+ * Version history:
+ * - 0: bare SessionState[] array (no version field)
+ * - 1: { version, sessions } envelope; user-response fields always present
+ * - 2: sessions carry DASH event ids and are matched by them
+ */
+export const CURRENT_STATE_VERSION = 2
+
+export interface StateMigration {
+  from: number
+  to: number
+  description: string
+  migrate: (sessions: Record<string, unknown>[]) => Record<string, unknown>[]
+}
+
+export interface VersionedState {
+  version: number
+  sessions: Record<string, unknown>[]
+}
+
+export interface MigrationResult {
+  fromVersion: number
+  toVersion: number
+  applied: string[] // descriptions of the migrations that ran, in order
+  sessions: SessionState[]
+}
+
+/**
+ * Ordered registry of state migrations. Each step upgrades exactly one version.
+ */
+export const STATE_MIGRATIONS: StateMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Back-fill userResponse, userRespondedAt and remindAfter',
+    migrate: (sessions) =>
+      sessions.map((entry) => ({
+        ...entry,
+        userResponse: entry.userResponse ?? null,
+        userRespondedAt: entry.userRespondedAt ?? null,
+        remindAfter: entry.remindAfter ?? null,
+      })),
+  },
+  {
+    from: 1,
+    to: 2,
+    description: 'Sessions gain DASH event ids, stamped by the next poll',
+    // Event ids can't be recovered offline; entries without them keep matching
+    // by date and time until a poll replaces their session. The version bump
+    // stops older builds, which match by date and time only, from reading
+    // state where a rescheduled session kept its entry.
+    migrate: (sessions) => sessions,
+  },
+]
+
+/**
+ * Where the pre-migration copy of a state file is kept
+ */
+export function migrationBackupPath(filePath: string, fromVersion: number): string {
+  return `${filePath}.v${fromVersion}.bak`
+}
+
+/**
+ * Identify the schema version of a parsed state document.
+ * Throws if the document isn't a recognizable state file.
+ */
+export function readVersionedState(doc: unknown): VersionedState {
+  // Version 0 files are the bare array
+  if (Array.isArray(doc)) {
+    return { version: 0, sessions: doc as Record<string, unknown>[] }
+  }
+
+  if (typeof doc === 'object' && doc !== null) {
+    const { version, sessions } = doc as Record<string, unknown>
+    if (typeof version === 'number' && Number.isInteger(version) && Array.isArray(sessions)) {
+      return { version, sessions: sessions as Record<string, unknown>[] }
+    }
+  }
+
+  throw new Error('Unrecognized state format: expected an array or { version, sessions }')
+}
+
+/**
+ * Upgrade sessions from fromVersion to targetVersion one step at a time.
+ * Throws if the state is newer than this build or a step is missing.
+ */
+export function migrateState(
+  state: VersionedState,
+  migrations: StateMigration[] = STATE_MIGRATIONS,
+  targetVersion: number = CURRENT_STATE_VERSION
+): MigrationResult {
+  if (state.version > targetVersion) {
+    throw new Error(
+      `State schema version ${state.version} is newer than supported version ${targetVersion}`
+    )
+  }
+
+  let sessions = state.sessions
+  let version = state.version
+  const applied: string[] = []
+
+  while (version < targetVersion) {
+    const step = migrations.find((m) => m.from === version)
+    if (!step) {
+      throw new Error(`No state migration registered from version ${version}`)
+    }
+
+    sessions = step.migrate(sessions)
+    applied.push(`v${step.from} -> v${step.to}: ${step.description}`)
+    version = step.to
+  }
+
+  return {
+    fromVersion: state.version,
+    toVersion: version,
+    applied,
+    sessions: sessions as unknown as SessionState[],
+  }
+}
@@ -17,6 +17,9 @@ export class ConsoleNotifier implements Notifier {
       const separator = '='.repeat(60)
       console.log(separator)
       console.log(alert.message)
+      if (alert.subscribers && alert.subscribers.length > 0) {
+        console.log(`For: ${alert.subscribers.join(', ')}`)
+      }
       console.log(`\nRegister: ${alert.registrationUrl}`)
       console.log(separator)
     } catch {
@@ -24,4 +27,23 @@ export class ConsoleNotifier implements Notifier {
       // Don't throw - console notifier should never block
     }
   }
+
+  async sendDigest(alerts: Alert[]): Promise<void> {
+    try {
+      console.log(`${'='.repeat(60)}\nDigest: ${alerts.length} alerts`)
+      for (const alert of alerts) {
+        await this.send(alert)
+      }
+    } catch {
+      // Never block on console output
+    }
+  }
+
+  async sendWarning(message: string): Promise<void> {
+    try {
+      console.warn(`⚠️  ${message}`)
+    } catch {
+      // Never block on console output
+    }
+  }
 }
@@ -0,0 +1,192 @@
+import type { Notifier } from './interface'
+import type { Alert } from '../evaluator'
+import { formatProjectedSellout } from '../forecast.js'
+import { customRuleMessage, getAlertColor, getEmoji } from './slack-blocks.js'
+
+export interface DiscordEmbed {
+  title: string
+  description: string
+  url?: string
+  color: number
+  fields: Array<{ name: string; value: string; inline?: boolean }>
+}
+
+// Discord allows 10 embeds per message
+const DIGEST_MAX_ALERTS = 10
+
+export interface DiscordPayload {
+  content?: string
+  embeds?: DiscordEmbed[]
+  components?: Array<{
+    type: 1 // action row
+    components: Array<{ type: 2; style: 5; label: string; url: string }> // link buttons
+  }>
+  allowed_mentions: { parse: string[] }
+}
+
+/**
+ * Discord notifier - posts alerts to a channel via an incoming webhook, as an
+ * embed mirroring the Slack card with a Register link button.
+ * Requires DISCORD_WEBHOOK_URL environment variable.
+ */
+export class DiscordNotifier implements Notifier {
+  name = 'Discord'
+
+  constructor(private webhookUrl: string) {}
+
+  isConfigured(): boolean {
+    return !!this.webhookUrl
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await this.post(buildDiscordPayload(alert))
+  }
+
+  async sendDigest(alerts: Alert[]): Promise<void> {
+    for (let i = 0; i < alerts.length; i += DIGEST_MAX_ALERTS) {
+      await this.post(buildDiscordDigestPayload(alerts.slice(i, i + DIGEST_MAX_ALERTS)))
+    }
+  }
+
+  async sendWarning(message: string): Promise<void> {
+    await this.post({ content: `⚠️ ${message}`, allowed_mentions: { parse: [] } })
+  }
+
+  private async post(payload: DiscordPayload): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('Discord notifier not configured')
+    }
+
+    // Webhooks not owned by an application only send link buttons with with_components
+    const url = new URL(this.webhookUrl)
+    url.searchParams.set('with_components', 'true')
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Discord webhook failed: ${response.status} ${response.statusText}`)
+    }
+  }
+}
+
+/**
+ * Embed with the same content as the Slack card: title, date/time, player and
+ * goalie counts, status line and projected sell-out, plus a Register button
+ */
+export function buildDiscordPayload(alert: Alert): DiscordPayload {
+  const embed = buildEmbed(alert)
+
+  // Only link to registration where registration is possible
+  if (alert.type === 'SOLD_OUT') {
+    return { embeds: [embed], allowed_mentions: { parse: [] } }
+  }
+
+  return {
+    embeds: [embed],
+    components: [
+      {
+        type: 1,
+        components: [{ type: 2, style: 5, label: 'Register Now', url: alert.registrationUrl }],
+      },
+    ],
+    allowed_mentions: { parse: [] },
+  }
+}
+
+/**
+ * Several alerts in one message (digest mode): an embed per alert and a
+ * Register button per open session, five to an action row
+ */
+export function buildDiscordDigestPayload(alerts: Alert[]): DiscordPayload {
+  const buttons = alerts
+    .filter((alert) => alert.type !== 'SOLD_OUT')
+    .map((alert) => ({
+      type: 2 as const,
+      style: 5 as const,
+      label: `Register ${alert.session.dayOfWeek.slice(0, 3)} ${formatTime(alert.session.time)}`,
+      url: alert.registrationUrl,
+    }))
+
+  const components: NonNullable<DiscordPayload['components']> = []
+  for (let i = 0; i < buttons.length; i += 5) {
+    components.push({ type: 1, components: buttons.slice(i, i + 5) })
+  }
+
+  return {
+    embeds: alerts.map(buildEmbed),
+    ...(components.length > 0 && { components }),
+    allowed_mentions: { parse: [] },
+  }
+}
+
+function buildEmbed(alert: Alert): DiscordEmbed {
+  const { session } = alert
+  const spotsRemaining = session.playersMax - session.playersRegistered
+  const plural = spotsRemaining === 1 ? '' : 's'
+
+  let description = `**${session.dayOfWeek}, ${formatDate(session.date)}** at **${formatTime(session.time)}**\n`
+  if (alert.location) {
+    description += `_${alert.location}_\n`
+  }
+  description += '\n'
+  const fields: DiscordEmbed['fields'] = []
+
+  const custom = customRuleMessage(alert)
+  if (custom !== null) {
+    description += custom
+  } else if (alert.type === 'SOLD_OUT') {
+    description += 'Session is now full.'
+  } else if (alert.type === 'NEWLY_AVAILABLE') {
+    description += `Spots opened up! **${spotsRemaining}** spot${plural} available.`
+  } else {
+    fields.push(
+      {
+        name: 'Players',
+        value: `${session.playersRegistered}/${session.playersMax} (${spotsRemaining} spot${plural} left)`,
+        inline: true,
+      },
+      { name: 'Goalies', value: `${session.goaliesRegistered}/${session.goaliesMax}`, inline: true }
+    )
+
+    if (alert.type === 'OPPORTUNITY') {
+      description += '_Worth signing up!_'
+    } else if (alert.type === 'FILLING_FAST') {
+      description += '_Act now!_'
+    } else if (alert.type === 'SELLOUT_PREDICTED') {
+      description += '_Register before it fills!_'
+    }
+  }
+
+  if (alert.forecast) {
+    fields.push({
+      name: '📈 Projected to sell out',
+      value: `~${formatProjectedSellout(alert.forecast, alert.session.timezone)}`,
+    })
+  }
+
+  return {
+    title: `${getEmoji(alert.type)} ${alert.type.replace('_', ' ')}`,
+    description,
+    ...(alert.type !== 'SOLD_OUT' && { url: alert.registrationUrl }),
+    color: parseInt(getAlertColor(alert.type).slice(1), 16),
+    fields,
+  }
+}
+
+function formatDate(date: string): string {
+  const d = new Date(date + 'T00:00:00')
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  const period = hours >= 12 ? 'pm' : 'am'
+  const displayHours = hours % 12 || 12
+  return `${displayHours}:${minutes.toString().padStart(2, '0')}${period}`
+}
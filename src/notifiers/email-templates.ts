@@ -0,0 +1,144 @@
+import type { Alert, AlertType } from '../evaluator'
+import { formatProjectedSellout } from '../forecast.js'
+import { getAlertColor } from './slack-blocks.js'
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+const TITLES: Record<AlertType, string> = {
+  OPPORTUNITY: '🏒 Opportunity',
+  FILLING_FAST: '⚡ Filling fast',
+  SELLOUT_PREDICTED: '📈 Sellout predicted',
+  SOLD_OUT: '🚫 Sold out',
+  NEWLY_AVAILABLE: '✅ Newly available',
+}
+
+/**
+ * Render an alert as an email: a short subject, a plain-text body (the alert
+ * message) and a simple inline-styled HTML body, both with the registration link
+ */
+export function renderAlertEmail(alert: Alert): RenderedEmail {
+  const { session } = alert
+  const spotsRemaining = session.playersMax - session.playersRegistered
+  const when = formatWhen(alert)
+
+  const subject =
+    alert.type === 'SOLD_OUT'
+      ? `${TITLES[alert.type]}: ${when}`
+      : `${TITLES[alert.type]}: ${when} - ${spotsRemaining} spot${spotsRemaining === 1 ? '' : 's'} left`
+
+  return {
+    subject,
+    html: wrapHtml(renderAlertHtml(alert, 'h2')),
+    text: renderAlertText(alert),
+  }
+}
+
+/**
+ * Render several alerts as one email (digest mode), a section per alert in
+ * the order given
+ */
+export function renderDigestEmail(alerts: Alert[]): RenderedEmail {
+  return {
+    subject: `🏒 ${alerts.length} session alerts: ${alerts.map(formatWhen).join(', ')}`,
+    html: wrapHtml(
+      alerts
+        .map((alert) => renderAlertHtml(alert, 'h3'))
+        .join('\n<hr style="border: none; border-top: 1px solid #ddd;">\n')
+    ),
+    text: alerts.map(renderAlertText).join('\n\n---\n\n'),
+  }
+}
+
+/**
+ * Render an operational warning (e.g. state recovery) as an email
+ */
+export function renderWarningEmail(message: string): RenderedEmail {
+  return {
+    subject: '⚠️ Hockey agent warning',
+    html: `<p style="white-space: pre-line;">${escapeHtml(message)}</p>`,
+    text: message,
+  }
+}
+
+function renderAlertText(alert: Alert): string {
+  const textLines = [alert.message]
+  if (alert.type !== 'SOLD_OUT') {
+    textLines.push('', `Register: ${alert.registrationUrl}`)
+  }
+  return textLines.join('\n')
+}
+
+function renderAlertHtml(alert: Alert, heading: 'h2' | 'h3'): string {
+  const { session } = alert
+  const rows = [
+    ['Session', session.eventName],
+    ['When', `${formatWhen(alert)} (${session.timeLabel})`],
+    ...(alert.location ? [['Where', alert.location]] : []),
+    ['Players', `${session.playersRegistered}/${session.playersMax}`],
+    ['Goalies', `${session.goaliesRegistered}/${session.goaliesMax}`],
+    ['Price', `$${session.price}`],
+  ]
+  if (alert.forecast) {
+    rows.push([
+      'Projected sell-out',
+      `~${formatProjectedSellout(alert.forecast, alert.session.timezone)}`,
+    ])
+  }
+
+  return [
+    `<${heading} style="color: ${getAlertColor(alert.type)}; margin-bottom: 8px;">${escapeHtml(TITLES[alert.type])}</${heading}>`,
+    `<p style="white-space: pre-line;">${escapeHtml(alert.message)}</p>`,
+    '<table style="border-collapse: collapse; margin: 12px 0;">',
+    ...rows.map(
+      ([label, value]) =>
+        `<tr><td style="padding: 2px 12px 2px 0; color: #666;">${escapeHtml(label)}</td><td style="padding: 2px 0;">${escapeHtml(value)}</td></tr>`
+    ),
+    '</table>',
+    alert.type === 'SOLD_OUT'
+      ? ''
+      : `<p><a href="${escapeHtml(alert.registrationUrl)}" style="display: inline-block; padding: 10px 16px; background: ${getAlertColor(alert.type)}; color: #fff; text-decoration: none; border-radius: 4px;">Register now</a></p>`,
+  ]
+    .filter((line) => line !== '')
+    .join('\n')
+}
+
+function wrapHtml(body: string): string {
+  return [
+    '<!doctype html>',
+    '<html><body style="font-family: -apple-system, Helvetica, Arial, sans-serif; color: #222;">',
+    body,
+    '</body></html>',
+  ].join('\n')
+}
+
+function formatWhen(alert: Alert): string {
+  const { session } = alert
+  return `${session.dayOfWeek} ${formatDate(session.date)}, ${formatTime(session.time)}`
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate(date: string): string {
+  // Convert YYYY-MM-DD to "Feb 20"
+  const d = new Date(date + 'T00:00:00')
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function formatTime(time: string): string {
+  // Convert HH:MM to "6:00am"
+  const [hours, minutes] = time.split(':').map(Number)
+  const period = hours >= 12 ? 'pm' : 'am'
+  const displayHours = hours % 12 || 12
+  return `${displayHours}:${minutes.toString().padStart(2, '0')}${period}`
+}
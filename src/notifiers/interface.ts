@@ -6,5 +6,9 @@ import type { Alert } from '../evaluator'
 export interface Notifier {
   name: string
   send(alert: Alert): Promise<void>
+  sendDigest?(alerts: Alert[]): Promise<void> // several alerts in one message (digest mode)
+  sendWarning?(message: string): Promise<void> // operational problems (e.g. state recovery)
+  refresh?(alert: Alert): Promise<void> // edit an already-posted alert in place, without notifying
+  accepts?(alert: Alert): boolean // alerts it opted into (every alert when not implemented)
   isConfigured(): boolean
 }
@@ -0,0 +1,175 @@
+import type { Notifier } from './interface'
+import type { Alert, AlertType } from '../evaluator'
+
+export type PushPriority = 'silent' | 'normal' | 'high'
+
+/**
+ * How urgently each alert type interrupts: filling/reopened sessions need
+ * action now, a sold-out session is only worth a silent entry
+ */
+export const PUSH_PRIORITIES: Record<AlertType, PushPriority> = {
+  FILLING_FAST: 'high',
+  NEWLY_AVAILABLE: 'high',
+  SELLOUT_PREDICTED: 'normal',
+  OPPORTUNITY: 'normal',
+  SOLD_OUT: 'silent',
+}
+
+export interface PushMessage {
+  title: string
+  message: string
+  priority: PushPriority
+  url?: string // opened when the notification is tapped
+}
+
+/**
+ * A push service the notifier delivers through
+ */
+export interface PushProvider {
+  name: string
+  isConfigured(): boolean
+  send(message: PushMessage): Promise<void>
+}
+
+// Pushover priorities: -1 quiet (no sound), 0 normal, 1 high (sounds during quiet hours)
+const PUSHOVER_PRIORITIES: Record<PushPriority, number> = { silent: -1, normal: 0, high: 1 }
+
+/**
+ * Pushover Messages API (https://pushover.net/api)
+ */
+export class PushoverProvider implements PushProvider {
+  name = 'Pushover'
+
+  private apiUrl: string
+
+  constructor(
+    private appToken: string,
+    private userKey: string,
+    apiUrl: string = 'https://api.pushover.net'
+  ) {
+    this.apiUrl = apiUrl.replace(/\/$/, '')
+  }
+
+  isConfigured(): boolean {
+    return !!this.appToken && !!this.userKey
+  }
+
+  async send(message: PushMessage): Promise<void> {
+    const params = new URLSearchParams({
+      token: this.appToken,
+      user: this.userKey,
+      title: message.title,
+      message: message.message,
+      priority: String(PUSHOVER_PRIORITIES[message.priority]),
+    })
+    if (message.url) {
+      params.set('url', message.url)
+      params.set('url_title', 'Register')
+    }
+
+    const response = await fetch(`${this.apiUrl}/1/messages.json`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: params.toString(),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Pushover push failed: ${response.status} ${response.statusText}`)
+    }
+  }
+}
+
+// ntfy priorities: 2 low (no sound or vibration), 3 default, 4 high (long vibration, pop-over)
+const NTFY_PRIORITIES: Record<PushPriority, number> = { silent: 2, normal: 3, high: 4 }
+
+/**
+ * ntfy JSON publishing (https://docs.ntfy.sh/publish/#publish-as-json),
+ * for ntfy.sh or a self-hosted server
+ */
+export class NtfyProvider implements PushProvider {
+  name = 'ntfy'
+
+  private serverUrl: string
+
+  constructor(
+    serverUrl: string,
+    private topic: string,
+    private accessToken?: string
+  ) {
+    this.serverUrl = serverUrl.replace(/\/$/, '')
+  }
+
+  isConfigured(): boolean {
+    return !!this.serverUrl && !!this.topic
+  }
+
+  async send(message: PushMessage): Promise<void> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.accessToken) {
+      headers.Authorization = `Bearer ${this.accessToken}`
+    }
+
+    const response = await fetch(this.serverUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        topic: this.topic,
+        title: message.title,
+        message: message.message,
+        priority: NTFY_PRIORITIES[message.priority],
+        ...(message.url && { click: message.url }),
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`ntfy push failed: ${response.status} ${response.statusText}`)
+    }
+  }
+}
+
+/**
+ * Push notifier - sends alerts to a phone through a push provider, with the
+ * alert type mapped to notification priority and registration as the tap action.
+ * Requires PUSHOVER_APP_TOKEN + PUSHOVER_USER_KEY, or NTFY_TOPIC.
+ */
+export class PushNotifier implements Notifier {
+  name: string
+
+  constructor(private provider: PushProvider) {
+    this.name = provider.name
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured()
+  }
+
+  async send(alert: Alert): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('Push notifier not configured')
+    }
+
+    await this.provider.send(buildPushMessage(alert))
+  }
+
+  async sendWarning(message: string): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('Push notifier not configured')
+    }
+
+    await this.provider.send({ title: '⚠️ Hockey agent warning', message, priority: 'normal' })
+  }
+}
+
+/**
+ * The alert message's first line is the title, the rest the body
+ */
+export function buildPushMessage(alert: Alert): PushMessage {
+  const [title, ...rest] = alert.message.split('\n')
+
+  return {
+    title,
+    message: rest.length > 0 ? rest.join('\n') : title,
+    priority: PUSH_PRIORITIES[alert.type],
+    url: alert.registrationUrl,
+  }
+}
@@ -0,0 +1,290 @@
+import type { Alert, AlertType } from '../evaluator'
+import { formatProjectedSellout } from '../forecast.js'
+import { REF_VENUE_PREFIX, sessionId } from '../parser.js'
+import { DEFAULT_MESSAGES } from '../rules/builtin.js'
+import { renderMessage } from '../rules/engine.js'
+
+export interface SlackBlock {
+  type: string
+  block_id?: string
+  text?: {
+    type: string
+    text: string
+    emoji?: boolean
+  }
+  elements?: Array<{
+    type: string
+    text?:
+      | {
+          type: string
+          text: string
+        }
+      | string // context block mrkdwn elements
+    url?: string
+    style?: string
+    action_id?: string
+    value?: string
+  }>
+}
+
+export interface SlackPayload {
+  blocks: SlackBlock[]
+}
+
+// Header plus up to 3 blocks per alert stays within Slack's 50-block message limit
+export const DIGEST_MAX_ALERTS = 16
+
+export interface AlertPayloadOptions {
+  updatedAt?: Date // live card refresh - adds an "Updated" line
+}
+
+/**
+ * Block Kit message for an alert, shared by the webhook and bot-token notifiers
+ */
+export function buildAlertPayload(alert: Alert, options: AlertPayloadOptions = {}): SlackPayload {
+  const emoji = getEmoji(alert.type)
+
+  const blocks: SlackBlock[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `${emoji} ${alert.type.replace('_', ' ')}`,
+        emoji: true,
+      },
+    },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: formatMessage(alert),
+      },
+    },
+  ]
+
+  // Only include action buttons for alerts where registration is possible
+  if (alert.type !== 'SOLD_OUT') {
+    blocks.push(buildActionsBlock(alert, 'actions_block'))
+  }
+
+  if (options.updatedAt) {
+    blocks.push({
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `🔄 Updated ${formatSlackDate(options.updatedAt)}` }],
+    })
+  }
+
+  return { blocks }
+}
+
+/**
+ * One Block Kit message for several alerts (digest mode): a section per alert
+ * with its own buttons. Action blocks are keyed by session so a response to
+ * one session leaves the other sessions' buttons in place.
+ * Callers split longer digests into messages of DIGEST_MAX_ALERTS.
+ */
+export function buildDigestPayload(alerts: Alert[]): SlackPayload {
+  const blocks: SlackBlock[] = [
+    {
+      type: 'header',
+      text: {
+        type: 'plain_text',
+        text: `🏒 ${alerts.length} session alerts`,
+        emoji: true,
+      },
+    },
+  ]
+
+  for (const alert of alerts) {
+    blocks.push(
+      { type: 'divider' },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${getEmoji(alert.type)} *${alert.type.replace('_', ' ')}*\n${formatMessage(alert)}`,
+        },
+      }
+    )
+
+    if (alert.type !== 'SOLD_OUT') {
+      const { venue, rink, date, time } = alert.session
+      // Unique per message - sessions at different venues or rinks can share a date and time
+      const blockId = ['actions', venue, rink, date, time].filter(Boolean).join('_')
+      blocks.push(buildActionsBlock(alert, blockId))
+    }
+  }
+
+  return { blocks }
+}
+
+/**
+ * Slack date token - each viewer sees the time in their own timezone,
+ * with an ET fallback for clients that can't render it. Example: "3:14pm ET"
+ */
+export function formatSlackDate(date: Date): string {
+  const fallback = date.toLocaleTimeString('en-US', {
+    timeZone: 'America/New_York',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+  const seconds = Math.floor(date.getTime() / 1000)
+  return `<!date^${seconds}^{time}|${fallback.replace(/\s/g, '').toLowerCase()} ET>`
+}
+
+/**
+ * Accent color per alert type, shared by the Discord embeds and email templates
+ */
+export function getAlertColor(type: AlertType): string {
+  const colorMap: Record<AlertType, string> = {
+    OPPORTUNITY: '#36a64f', // green
+    FILLING_FAST: '#ff9900', // orange
+    SELLOUT_PREDICTED: '#e8590c', // dark orange
+    SOLD_OUT: '#ff0000', // red
+    NEWLY_AVAILABLE: '#2eb886', // teal
+  }
+  return colorMap[type]
+}
+
+/**
+ * The alert's rule message rendered against its session, when the rule has
+ * its own template. Cards show it in place of their built-in per-type text;
+ * built-in templates return null and keep the structured card.
+ */
+export function customRuleMessage(alert: Alert): string | null {
+  if (!alert.template || alert.template === DEFAULT_MESSAGES[alert.type]) {
+    return null
+  }
+  return renderMessage(alert.template, alert.session)
+}
+
+export function getEmoji(type: AlertType): string {
+  const emojiMap: Record<AlertType, string> = {
+    OPPORTUNITY: '🏒',
+    FILLING_FAST: '⚡',
+    SELLOUT_PREDICTED: '📈',
+    SOLD_OUT: '🚫',
+    NEWLY_AVAILABLE: '✅',
+  }
+  return emojiMap[type]
+}
+
+function buildActionsBlock(alert: Alert, blockId: string): SlackBlock {
+  const { session } = alert
+  // Format parsed by parseActionValue()
+  const id = sessionId(session)
+  const identity = id ?? (session.venue && `${REF_VENUE_PREFIX}${session.venue}`)
+  const sessionValue = [
+    ...(identity ? [identity] : []),
+    session.date,
+    session.time,
+    session.eventName,
+  ].join('|')
+
+  return {
+    type: 'actions',
+    block_id: blockId,
+    elements: [
+      {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: 'Register Now',
+        },
+        url: alert.registrationUrl,
+        style: getButtonStyle(alert.type),
+      },
+      {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: '✅ Registered',
+        },
+        action_id: 'session_registered',
+        value: sessionValue,
+      },
+      {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: '❌ Not Interested',
+        },
+        action_id: 'session_not_interested',
+        value: sessionValue,
+      },
+      {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: '⏰ Remind Later',
+        },
+        action_id: 'session_remind_later',
+        value: sessionValue,
+      },
+    ],
+  }
+}
+
+function getButtonStyle(type: AlertType): string | undefined {
+  if (type === 'FILLING_FAST' || type === 'SELLOUT_PREDICTED') {
+    return 'danger' // red button for urgency
+  }
+  if (type === 'OPPORTUNITY' || type === 'NEWLY_AVAILABLE') {
+    return 'primary' // green button
+  }
+  return undefined // omit style field for default styling
+}
+
+function formatMessage(alert: Alert): string {
+  const session = alert.session
+  const spotsRemaining = session.playersMax - session.playersRegistered
+
+  let message = `*${session.dayOfWeek}, ${formatDate(session.date)}* at *${formatTime(session.time)}*\n`
+  if (alert.location) {
+    message += `_${alert.location}_\n`
+  }
+  message += '\n'
+
+  const custom = customRuleMessage(alert)
+  if (custom !== null) {
+    message += custom
+  } else if (alert.type === 'SOLD_OUT') {
+    message += 'Session is now full.'
+  } else if (alert.type === 'NEWLY_AVAILABLE') {
+    message += `Spots opened up! *${spotsRemaining}* spot${spotsRemaining === 1 ? '' : 's'} available.`
+  } else {
+    message += `*Players:* ${session.playersRegistered}/${session.playersMax} (${spotsRemaining} spot${spotsRemaining === 1 ? '' : 's'} left)\n`
+    message += `*Goalies:* ${session.goaliesRegistered}/${session.goaliesMax}\n`
+
+    if (alert.type === 'OPPORTUNITY') {
+      message += '\n_Worth signing up!_'
+    } else if (alert.type === 'FILLING_FAST') {
+      message += '\n_Act now!_'
+    } else if (alert.type === 'SELLOUT_PREDICTED') {
+      message += '\n_Register before it fills!_'
+    }
+  }
+
+  if (alert.forecast) {
+    message += `\n:chart_with_upwards_trend: Projected to sell out *~${formatProjectedSellout(alert.forecast, alert.session.timezone)}*`
+  }
+
+  // Multi-user mode: mention the subscribers this alert is for
+  if (alert.subscribers && alert.subscribers.length > 0) {
+    message += `\n\n${alert.subscribers.map((id) => `<@${id}>`).join(' ')}`
+  }
+
+  return message
+}
+
+function formatDate(date: string): string {
+  const d = new Date(date + 'T00:00:00')
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  const period = hours >= 12 ? 'pm' : 'am'
+  const displayHours = hours % 12 || 12
+  return `${displayHours}:${minutes.toString().padStart(2, '0')}${period}`
+}
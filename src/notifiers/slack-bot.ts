@@ -0,0 +1,221 @@
+import type { Notifier } from './interface'
+import type { Alert, SessionState, SlackMessageRef } from '../evaluator'
+import type { Session } from '../parser'
+import { buildAlertPayload, buildDigestPayload, DIGEST_MAX_ALERTS } from './slack-blocks.js'
+
+export interface SlackBotOptions {
+  apiUrl?: string // default https://slack.com/api
+  directMessages?: boolean // DM each subscriber instead of posting to the channel
+  onPosted?: (alert: Alert, message: SlackMessageRef) => void
+  findSession?: (session: Session) => SessionState | undefined // messages already posted
+}
+
+interface SlackApiResponse {
+  ok: boolean
+  error?: string
+  channel?: string
+  ts?: string
+}
+
+/**
+ * Slack bot notifier - posts alerts with chat.postMessage using a bot token.
+ * Unlike the webhook, Slack returns the message's channel and ts, which are
+ * reported through onPosted so the message can be updated later.
+ *
+ * Each session keeps one live card per recipient: repeat alerts and refreshes
+ * edit it with chat.update, and a new message is posted only when the alert
+ * type changes or someone responded since the card was posted. Digests are
+ * posted as new messages and never become live cards.
+ * Requires SLACK_BOT_TOKEN (chat:write scope) and SLACK_CHANNEL.
+ */
+export class SlackBotNotifier implements Notifier {
+  name = 'Slack'
+
+  private apiUrl: string
+
+  constructor(
+    private token: string,
+    private channel: string | undefined,
+    private options: SlackBotOptions = {}
+  ) {
+    this.apiUrl = (options.apiUrl ?? 'https://slack.com/api').replace(/\/$/, '')
+  }
+
+  isConfigured(): boolean {
+    return !!this.token && (!!this.channel || !!this.options.directMessages)
+  }
+
+  async send(alert: Alert): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('Slack bot notifier not configured')
+    }
+
+    for (const recipient of this.recipients(alert)) {
+      await this.deliver(recipient, alert)
+    }
+  }
+
+  async sendDigest(alerts: Alert[]): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('Slack bot notifier not configured')
+    }
+
+    const byRecipient = new Map<string, Alert[]>()
+    for (const alert of alerts) {
+      for (const recipient of this.recipients(alert)) {
+        const mentions = recipient === this.channel ? alert.subscribers : undefined
+        byRecipient.set(recipient, [
+          ...(byRecipient.get(recipient) ?? []),
+          { ...alert, subscribers: mentions },
+        ])
+      }
+    }
+
+    for (const [recipient, recipientAlerts] of byRecipient) {
+      for (let i = 0; i < recipientAlerts.length; i += DIGEST_MAX_ALERTS) {
+        const chunk = recipientAlerts.slice(i, i + DIGEST_MAX_ALERTS)
+        await this.callApi('chat.postMessage', {
+          channel: recipient,
+          text: chunk.map((a) => a.message).join('\n\n'), // notification and accessibility fallback
+          ...buildDigestPayload(chunk),
+        })
+      }
+    }
+  }
+
+  /**
+   * Edit the live card for each recipient with the session's current counts.
+   * Sessions without a posted card, and cards a response has since replaced,
+   * are left alone - refreshes never notify.
+   */
+  async refresh(alert: Alert): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('Slack bot notifier not configured')
+    }
+
+    const existing = this.options.findSession?.(alert.session)
+    for (const card of latestCards(existing)) {
+      if (existing && respondedSince(existing, card)) continue
+      await this.updateCard(card, { ...alert, subscribers: alert.subscribers ?? card.subscribers })
+    }
+  }
+
+  async sendWarning(message: string): Promise<void> {
+    if (!this.isConfigured() || !this.channel) {
+      throw new Error('Slack bot notifier not configured')
+    }
+
+    await this.callApi('chat.postMessage', { channel: this.channel, text: `:warning: ${message}` })
+  }
+
+  /**
+   * Direct messages go to each subscriber; everything else to the channel
+   */
+  private recipients(alert: Alert): string[] {
+    if (this.options.directMessages && alert.subscribers && alert.subscribers.length > 0) {
+      return alert.subscribers
+    }
+
+    if (!this.channel) {
+      throw new Error('Slack bot notifier has no channel for alerts without subscribers')
+    }
+    return [this.channel]
+  }
+
+  private async deliver(recipient: string, alert: Alert): Promise<void> {
+    const existing = this.options.findSession?.(alert.session)
+    const card = latestCards(existing).find((m) => m.recipient === recipient)
+
+    if (card && existing && !needsNewMessage(alert, card, existing)) {
+      await this.updateCard(card, { ...alert, subscribers: alert.subscribers ?? card.subscribers })
+      return
+    }
+
+    const mentions = recipient === this.channel ? alert.subscribers : undefined
+    const result = await this.callApi('chat.postMessage', {
+      channel: recipient,
+      text: alert.message, // notification and accessibility fallback
+      ...buildAlertPayload({ ...alert, subscribers: mentions }),
+    })
+
+    if (result.channel && result.ts) {
+      this.options.onPosted?.(alert, {
+        channel: result.channel,
+        ts: result.ts,
+        recipient,
+        alertType: alert.type,
+        postedAt: new Date().toISOString(),
+        ...(alert.template && { template: alert.template }),
+        ...(mentions && { subscribers: mentions }),
+      })
+    }
+  }
+
+  /**
+   * Re-render a posted card with current session data, keeping the alert type
+   * it was posted as so the card never silently changes severity
+   */
+  private async updateCard(card: SlackMessageRef, alert: Alert): Promise<void> {
+    const rendered: Alert = {
+      ...alert,
+      type: card.alertType,
+      subscribers: card.recipient === this.channel ? alert.subscribers : undefined,
+    }
+
+    await this.callApi('chat.update', {
+      channel: card.channel,
+      ts: card.ts,
+      text: rendered.message,
+      ...buildAlertPayload(rendered, { updatedAt: new Date() }),
+    })
+  }
+
+  private async callApi(method: string, body: Record<string, unknown>): Promise<SlackApiResponse> {
+    const response = await fetch(`${this.apiUrl}/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        Authorization: `Bearer ${this.token}`,
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Slack ${method} failed: ${response.status} ${response.statusText}`)
+    }
+
+    // The Web API reports errors in the body with HTTP 200
+    const result = (await response.json()) as SlackApiResponse
+    if (!result.ok) {
+      throw new Error(`Slack ${method} failed: ${result.error ?? 'unknown error'}`)
+    }
+
+    return result
+  }
+}
+
+/**
+ * Most recent message per recipient - the live card for that recipient.
+ * Cards recorded before recipients were tracked can't be matched and are skipped.
+ */
+function latestCards(state: SessionState | undefined): SlackMessageRef[] {
+  const latest = new Map<string, SlackMessageRef>()
+  for (const message of state?.slackMessages ?? []) {
+    if (message.recipient) latest.set(message.recipient, message)
+  }
+  return [...latest.values()]
+}
+
+/**
+ * A new message (with a notification) is needed when the alert's type differs
+ * from the card's - an escalation, a full/available transition or a step down,
+ * so the live card always shows the type state records - or someone responded
+ * after the card was posted (the response replaced its buttons with a status line)
+ */
+function needsNewMessage(alert: Alert, card: SlackMessageRef, state: SessionState): boolean {
+  return alert.type !== card.alertType || respondedSince(state, card)
+}
+
+function respondedSince(state: SessionState, card: SlackMessageRef): boolean {
+  return !!state.userRespondedAt && state.userRespondedAt > card.postedAt
+}
@@ -0,0 +1,137 @@
+import type { Notifier } from './interface'
+import type { Alert, AlertType } from '../evaluator'
+
+export const SMS_MAX_LENGTH = 160
+
+export const DEFAULT_SMS_ALERT_TYPES: AlertType[] = ['FILLING_FAST', 'NEWLY_AVAILABLE']
+
+export interface SmsOptions {
+  apiUrl?: string // default https://api.twilio.com
+  alertTypes?: AlertType[] // only these alert types are texted
+  publicUrl?: string // short /r/<date> links via this server instead of the full DASH URL
+}
+
+/**
+ * SMS notifier - texts alerts through the Twilio Messages API (or any
+ * compatible REST API at apiUrl). Only opted-in alert types are routed to it,
+ * each sent as a single 160-character message with a registration link.
+ * Requires TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER and TWILIO_TO_NUMBER.
+ */
+export class SmsNotifier implements Notifier {
+  name = 'SMS'
+
+  private apiUrl: string
+  private alertTypes: AlertType[]
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string,
+    private to: string[],
+    private options: SmsOptions = {}
+  ) {
+    this.apiUrl = (options.apiUrl ?? 'https://api.twilio.com').replace(/\/$/, '')
+    this.alertTypes = options.alertTypes ?? DEFAULT_SMS_ALERT_TYPES
+  }
+
+  isConfigured(): boolean {
+    return !!this.accountSid && !!this.authToken && !!this.from && this.to.length > 0
+  }
+
+  accepts(alert: Alert): boolean {
+    return this.alertTypes.includes(alert.type)
+  }
+
+  async send(alert: Alert): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('SMS notifier not configured')
+    }
+
+    const body = buildSmsBody(alert, shortRegistrationLink(alert, this.options.publicUrl))
+    for (const number of this.to) {
+      await this.sendMessage(number, body)
+    }
+  }
+
+  async sendWarning(message: string): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('SMS notifier not configured')
+    }
+
+    const body = truncate(`Hockey agent warning: ${condense(message)}`, SMS_MAX_LENGTH)
+    for (const number of this.to) {
+      await this.sendMessage(number, body)
+    }
+  }
+
+  private async sendMessage(to: string, body: string): Promise<void> {
+    const credentials = Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')
+    const response = await fetch(
+      `${this.apiUrl}/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Authorization: `Basic ${credentials}`,
+        },
+        body: new URLSearchParams({ To: to, From: this.from, Body: body }).toString(),
+      }
+    )
+
+    if (!response.ok) {
+      throw new Error(`Twilio SMS failed: ${response.status} ${response.statusText}`)
+    }
+  }
+}
+
+/**
+ * Condense an alert into one SMS: the message on a single line, truncated
+ * so the registration link always fits within 160 characters.
+ * SOLD_OUT alerts have no link.
+ */
+export function buildSmsBody(alert: Alert, link: string): string {
+  const text = condense(alert.message)
+  if (alert.type === 'SOLD_OUT') {
+    return truncate(text, SMS_MAX_LENGTH)
+  }
+
+  return `${truncate(text, SMS_MAX_LENGTH - link.length - 1)} ${link}`
+}
+
+/**
+ * Registration link for a text message: PUBLIC_URL/r/<venue>/<date> (redirects
+ * to DASH) when the server is publicly reachable, otherwise the full
+ * registration URL. Sessions without a venue link to /r/<date>.
+ */
+export function shortRegistrationLink(alert: Alert, publicUrl?: string): string {
+  if (!publicUrl) {
+    return alert.registrationUrl
+  }
+
+  const { venue, date } = alert.session
+  const path = venue ? `${encodeURIComponent(venue)}/${date}` : date
+  return `${publicUrl.replace(/\/$/, '')}/r/${path}`
+}
+
+/**
+ * Join lines into sentences and drop emoji and other characters outside
+ * printable ASCII, which would force UCS-2 encoding and a 70-character limit
+ */
+function condense(message: string): string {
+  const lines = message
+    .split('\n')
+    .map((line) => line.replace(/[^\x20-\x7E]/g, '').trim())
+    .filter((line) => line !== '')
+
+  return lines
+    .map((line, i) => (i < lines.length - 1 && !/[.!?:]$/.test(line) ? `${line}.` : line))
+    .join(' ')
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text
+  }
+
+  return `${text.slice(0, Math.max(0, maxLength - 3)).trimEnd()}...`
+}
@@ -0,0 +1,174 @@
+import crypto from 'crypto'
+import type { Notifier } from './interface'
+import type { Alert, AlertType } from '../evaluator'
+import type { Session } from '../parser'
+import type { SelloutForecast } from '../forecast'
+
+/**
+ * Bumped only for breaking changes to the payload; new fields may be added
+ * within a version. Documented in docs/WEBHOOKS.md.
+ */
+export const WEBHOOK_SCHEMA_VERSION = 1
+
+export interface WebhookAlertPayload {
+  version: typeof WEBHOOK_SCHEMA_VERSION
+  event: 'alert'
+  id: string // unique per alert, identical across retries - use it to deduplicate
+  detectedAt: string // ISO timestamp
+  alert: {
+    type: AlertType
+    message: string
+    registrationUrl: string
+    session: Session
+    forecast: SelloutForecast | null
+    subscribers: string[]
+  }
+}
+
+export interface WebhookWarningPayload {
+  version: typeof WEBHOOK_SCHEMA_VERSION
+  event: 'warning'
+  id: string
+  detectedAt: string
+  message: string
+}
+
+export type WebhookPayload = WebhookAlertPayload | WebhookWarningPayload
+
+export interface WebhookOptions {
+  maxAttempts?: number // per URL, default 3
+  backoffMs?: number // delay before the first retry, doubled after each attempt (default 1000)
+}
+
+/**
+ * Generic webhook notifier - POSTs a versioned JSON payload for each alert to
+ * every configured URL, signed with HMAC-SHA256 so receivers can verify it.
+ * Network errors, 429 and 5xx responses are retried with exponential backoff.
+ * Requires WEBHOOK_URLS and WEBHOOK_SECRET.
+ */
+export class WebhookNotifier implements Notifier {
+  name = 'Webhook'
+
+  private maxAttempts: number
+  private backoffMs: number
+
+  constructor(
+    private urls: string[],
+    private secret: string,
+    options: WebhookOptions = {}
+  ) {
+    this.maxAttempts = options.maxAttempts ?? 3
+    this.backoffMs = options.backoffMs ?? 1000
+  }
+
+  isConfigured(): boolean {
+    return this.urls.length > 0 && !!this.secret
+  }
+
+  async send(alert: Alert): Promise<void> {
+    await this.deliver(buildAlertPayload(alert))
+  }
+
+  async sendWarning(message: string): Promise<void> {
+    await this.deliver({
+      version: WEBHOOK_SCHEMA_VERSION,
+      event: 'warning',
+      id: crypto.randomUUID(),
+      detectedAt: new Date().toISOString(),
+      message,
+    })
+  }
+
+  /**
+   * Deliver to every URL, even if some fail; throw afterwards if any did
+   */
+  private async deliver(payload: WebhookPayload): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error('Webhook notifier not configured')
+    }
+
+    const body = JSON.stringify(payload)
+    const failures: string[] = []
+
+    for (const url of this.urls) {
+      try {
+        await this.post(url, payload.event, body)
+      } catch (error) {
+        // Report the host only - webhook URLs often embed their own secret
+        failures.push(`${new URL(url).host} (${(error as Error).message})`)
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(
+        `Webhook delivery failed for ${failures.length} of ${this.urls.length} URLs: ${failures.join(', ')}`
+      )
+    }
+  }
+
+  private async post(url: string, event: WebhookPayload['event'], body: string): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | null = null
+      let failure: string
+      try {
+        // Sign each attempt with a fresh timestamp so retries pass receivers' replay checks
+        const timestamp = Math.floor(Date.now() / 1000).toString()
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Hockey-Event': event,
+            'X-Hockey-Timestamp': timestamp,
+            'X-Hockey-Signature': signWebhookBody(this.secret, timestamp, body),
+          },
+          body,
+        })
+        failure = `${response.status} ${response.statusText}`
+      } catch (error) {
+        failure = (error as Error).message
+      }
+
+      if (response?.ok) return
+
+      // Any other 4xx means the receiver rejected the payload - retrying won't help
+      if (response && response.status !== 429 && response.status < 500) {
+        throw new Error(failure)
+      }
+
+      if (attempt >= this.maxAttempts) {
+        throw new Error(`${failure} after ${attempt} attempts`)
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.backoffMs * 2 ** (attempt - 1)))
+    }
+  }
+}
+
+/**
+ * Stable JSON representation of an alert. Uses the id and detection time the
+ * outbox assigned, so retries carry the same values; alerts sent directly get
+ * fresh ones.
+ */
+export function buildAlertPayload(alert: Alert, now: Date = new Date()): WebhookAlertPayload {
+  return {
+    version: WEBHOOK_SCHEMA_VERSION,
+    event: 'alert',
+    id: alert.id ?? crypto.randomUUID(),
+    detectedAt: alert.detectedAt ?? now.toISOString(),
+    alert: {
+      type: alert.type,
+      message: alert.message,
+      registrationUrl: alert.registrationUrl,
+      session: alert.session,
+      forecast: alert.forecast ?? null,
+      subscribers: alert.subscribers ?? [],
+    },
+  }
+}
+
+/**
+ * Signature header value: "v1=" + hex HMAC-SHA256 of "v1:<timestamp>:<body>"
+ * (the same scheme Slack uses to sign requests to us)
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return 'v1=' + crypto.createHmac('sha256', secret).update(`v1:${timestamp}:${body}`).digest('hex')
+}
@@ -0,0 +1,295 @@
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import type { Notifier } from './notifiers/interface'
+import { compareAlerts, type Alert } from './evaluator.js'
+import { isSameSession } from './parser.js'
+import { DEFAULT_PRIORITIES } from './rules/builtin.js'
+import { sessionStartTime } from './poll-schedule.js'
+
+/**
+ * One alert waiting to be delivered through one notifier
+ */
+export interface OutboxEntry {
+  id: string
+  notifier: string // Notifier.name
+  alert: Alert
+  attempts: number // failed deliveries so far
+  enqueuedAt: string // ISO timestamp
+  nextAttemptAt: string // ISO timestamp
+  lastError: string | null
+  digest: boolean // batched with the notifier's other due digest entries
+}
+
+/**
+ * An entry that will not be retried any more
+ */
+export interface DeadLetter extends OutboxEntry {
+  failedAt: string // ISO timestamp
+}
+
+export interface Outbox {
+  pending: OutboxEntry[]
+  deadLetters: DeadLetter[] // most recent last
+}
+
+export interface OutboxOptions {
+  maxAttempts: number // dead-letter after this many failed deliveries
+  retryMinutes: number // delay before the first retry, doubled after each failure
+}
+
+export interface EnqueueOptions {
+  digestWindowMinutes?: number // hold for a digest this long (undefined sends on its own)
+}
+
+export interface DeliveryResult {
+  outbox: Outbox
+  delivered: OutboxEntry[] // entries delivered in this run
+}
+
+const MAX_DEAD_LETTERS = 100
+
+/**
+ * Load the outbox from disk.
+ * Returns an empty outbox if the file doesn't exist or is invalid.
+ */
+export function loadOutbox(filePath: string): Outbox {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return emptyOutbox()
+    }
+
+    const doc = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<Outbox>
+    return {
+      pending: Array.isArray(doc.pending) ? doc.pending : [],
+      deadLetters: Array.isArray(doc.deadLetters) ? doc.deadLetters : [],
+    }
+  } catch (error) {
+    console.error(`Outbox ${filePath} is unreadable, starting empty:`, error)
+    return emptyOutbox()
+  }
+}
+
+/**
+ * Save the outbox to disk using atomic write (temp file + rename).
+ * Creates parent directory if it doesn't exist.
+ */
+export function saveOutbox(filePath: string, outbox: Outbox): void {
+  const dir = path.dirname(filePath)
+  const tempPath = path.join(dir, `.${path.basename(filePath)}.tmp`)
+
+  try {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+
+    fs.writeFileSync(tempPath, JSON.stringify(outbox, null, 2), 'utf-8')
+    fs.renameSync(tempPath, filePath)
+  } catch (error) {
+    if (fs.existsSync(tempPath)) {
+      try {
+        fs.unlinkSync(tempPath)
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Queue an alert for each notifier it is routed to, giving it an id and
+ * detection time that every notifier and retry shares. An alert already
+ * pending for the same session, type and notifier is replaced with the newer
+ * one, keeping its id and retry schedule; pending lower-ranked alerts for the
+ * session are dropped, so a held digest or retry can't follow an escalation.
+ *
+ * Digest entries join the notifier's open digest (one not yet attempted) and
+ * go out with it; otherwise they open a new one due after the window.
+ * Returns new outbox (immutable update).
+ */
+export function enqueueAlert(
+  outbox: Outbox,
+  alert: Alert,
+  notifierNames: string[],
+  now: Date = new Date(),
+  options: EnqueueOptions = {}
+): Outbox {
+  let pending = outbox.pending
+  const digest = options.digestWindowMinutes !== undefined
+  const stamped: Alert = {
+    ...alert,
+    id: alert.id ?? crypto.randomUUID(),
+    detectedAt: alert.detectedAt ?? now.toISOString(),
+  }
+
+  for (const notifier of notifierNames) {
+    pending = pending.filter(
+      (e) =>
+        e.notifier !== notifier ||
+        !isSameSession(e.alert.session, alert.session) ||
+        DEFAULT_PRIORITIES[e.alert.type] >= DEFAULT_PRIORITIES[alert.type]
+    )
+    const existing = pending.find((e) => e.notifier === notifier && sameAlert(e.alert, alert))
+    if (existing) {
+      // Keep the identity receivers may already have seen from a failed attempt
+      const replacement: Alert = {
+        ...stamped,
+        id: existing.alert.id ?? stamped.id,
+        detectedAt: existing.alert.detectedAt ?? stamped.detectedAt,
+      }
+      pending = pending.map((e) => (e === existing ? { ...e, alert: replacement } : e))
+    } else {
+      const openDigest = digest
+        ? pending.find((e) => e.digest && e.notifier === notifier && e.attempts === 0)
+        : undefined
+      const dueAt = openDigest
+        ? new Date(openDigest.nextAttemptAt)
+        : new Date(now.getTime() + (options.digestWindowMinutes ?? 0) * 60 * 1000)
+
+      pending = [
+        ...pending,
+        {
+          id: crypto.randomUUID(),
+          notifier,
+          alert: stamped,
+          attempts: 0,
+          enqueuedAt: now.toISOString(),
+          nextAttemptAt: dueAt.toISOString(),
+          lastError: null,
+          digest,
+        },
+      ]
+    }
+  }
+
+  return { ...outbox, pending }
+}
+
+/**
+ * Attempt every due entry once. Due digest entries for a notifier that
+ * supports digests go out as one message, in evaluation order, and succeed or
+ * fail together. Failures are rescheduled with exponential backoff and
+ * dead-lettered after maxAttempts; entries for sessions that have started, or
+ * for notifiers no longer configured, are dead-lettered without another attempt.
+ */
+export async function deliverOutbox(
+  outbox: Outbox,
+  notifiers: Notifier[],
+  options: OutboxOptions,
+  now: Date = new Date()
+): Promise<DeliveryResult> {
+  const pending: OutboxEntry[] = []
+  const deadLetters = [...outbox.deadLetters]
+  const delivered: OutboxEntry[] = []
+
+  const giveUp = (entry: OutboxEntry, reason: string): void => {
+    console.error(
+      `Giving up on ${entry.alert.type} alert for ${entry.alert.session.date} ${entry.alert.session.time} via ${entry.notifier}: ${reason}`
+    )
+    deadLetters.push({ ...entry, lastError: reason, failedAt: now.toISOString() })
+  }
+
+  const batches: Array<{ notifier: Notifier; entries: OutboxEntry[] }> = []
+
+  for (const entry of outbox.pending) {
+    const notifier = notifiers.find((n) => n.name === entry.notifier)
+    if (!notifier) {
+      giveUp(entry, `${entry.notifier} is not configured`)
+      continue
+    }
+
+    if (sessionStartTime(entry.alert.session) <= now) {
+      giveUp(entry, entry.lastError ? `session started (${entry.lastError})` : 'session started')
+      continue
+    }
+
+    if (new Date(entry.nextAttemptAt) > now) {
+      pending.push(entry)
+      continue
+    }
+
+    const batch =
+      entry.digest && notifier.sendDigest
+        ? batches.find((b) => b.notifier === notifier && b.entries[0].digest)
+        : undefined
+    if (batch) {
+      batch.entries.push(entry)
+    } else {
+      batches.push({ notifier, entries: [entry] })
+    }
+  }
+
+  for (const { notifier, entries } of batches) {
+    try {
+      if (entries.length > 1 && notifier.sendDigest) {
+        entries.sort((a, b) => compareAlerts(a.alert, b.alert))
+        await notifier.sendDigest(entries.map((e) => e.alert))
+      } else {
+        await notifier.send(entries[0].alert)
+      }
+      delivered.push(...entries)
+    } catch (error) {
+      console.error(`Failed to send via ${notifier.name}:`, error)
+
+      for (const entry of entries) {
+        const attempts = entry.attempts + 1
+        const failed = { ...entry, attempts, lastError: (error as Error).message }
+
+        if (attempts >= options.maxAttempts) {
+          giveUp(failed, `${failed.lastError} (after ${attempts} attempts)`)
+        } else {
+          const delayMs = options.retryMinutes * 2 ** (attempts - 1) * 60 * 1000
+          pending.push({
+            ...failed,
+            nextAttemptAt: new Date(now.getTime() + delayMs).toISOString(),
+          })
+        }
+      }
+    }
+  }
+
+  return {
+    outbox: { pending, deadLetters: deadLetters.slice(-MAX_DEAD_LETTERS) },
+    delivered,
+  }
+}
+
+/**
+ * When the next pending entry is due (a retry or a digest), or null if none are
+ */
+export function nextAttemptTime(outbox: Outbox): Date | null {
+  const times = outbox.pending.map((e) => new Date(e.nextAttemptAt).getTime())
+  return times.length > 0 ? new Date(Math.min(...times)) : null
+}
+
+/**
+ * Alerts that reached someone: delivered through at least one notifier other
+ * than the console, which only counts when it is the only notifier or the
+ * alert is routed away from every other one for good (routedAway).
+ * One alert per session and type, in delivery order.
+ */
+export function reachedAlerts(
+  delivered: OutboxEntry[],
+  notifiers: Notifier[],
+  routedAway: (alert: Alert) => boolean = () => false
+): Alert[] {
+  const consoleOnly = notifiers.every((n) => n.name === 'Console')
+  const alerts: Alert[] = []
+
+  for (const entry of delivered) {
+    if (entry.notifier === 'Console' && !consoleOnly && !routedAway(entry.alert)) continue
+    if (alerts.some((a) => sameAlert(a, entry.alert))) continue
+    alerts.push(entry.alert)
+  }
+
+  return alerts
+}
+
+function sameAlert(a: Alert, b: Alert): boolean {
+  return a.type === b.type && isSameSession(a.session, b.session)
+}
+
+function emptyOutbox(): Outbox {
+  return { pending: [], deadLetters: [] }
+}
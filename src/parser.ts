@@ -10,6 +10,97 @@ export interface Session {
   goaliesMax: number
   isFull: boolean // Derived: playersRegistered >= playersMax
   price: number
+  timezone?: string // IANA zone of date and time - the venue's (America/New_York when absent)
+  venue?: string // Venue.id the session was scraped from (absent in state saved before multi-rink)
+  rink?: string // DASH resource name, e.g. "MAIN RINK" (absent when DASH doesn't say)
+  playersEventId?: string // DASH event id of the PLAYERS event (absent in state saved before event ids)
+  goaliesEventId?: string // DASH event id of the GOALIES event
+}
+
+/**
+ * Date and time of a session, plus its id when known (or, for sessions
+ * without one, its venue) - how Slack buttons and the API point at a session
+ */
+export interface SessionRef {
+  id?: string // sessionId()
+  venue?: string // Session.venue, for refs without an id
+  date: string
+  time: string
+}
+
+// Marks the venue in Slack button values for sessions without an id
+export const REF_VENUE_PREFIX = 'venue='
+
+/**
+ * The fields that identify a session, which history snapshots carry too
+ */
+export type SessionIdentityFields = Pick<
+  Session,
+  'date' | 'time' | 'venue' | 'rink' | 'playersEventId' | 'goaliesEventId'
+>
+
+/**
+ * Stable identity of a session: its venue and the DASH event ids of its
+ * PLAYERS and GOALIES events, which survive reschedules. Undefined for
+ * sessions saved before sessions carried event ids.
+ */
+export function sessionId(
+  session: Pick<Session, 'venue' | 'playersEventId' | 'goaliesEventId'>
+): string | undefined {
+  if (!session.playersEventId || !session.goaliesEventId) return undefined
+  return [session.venue ?? '', session.playersEventId, session.goaliesEventId].join(':')
+}
+
+/**
+ * Key identifying a session across polls: its sessionId, or venue, rink,
+ * date and time for sessions without event ids
+ */
+export function sessionKey(session: Session): string {
+  return (
+    sessionId(session) ??
+    [session.venue ?? '', session.rink ?? '', session.date, session.time].join(':')
+  )
+}
+
+/**
+ * Whether two sessions are the same skate: the same sessionId when both have
+ * one, otherwise the same date, time and place. Venue and rink are compared
+ * only when both sides have them, so sessions saved before multi-rink
+ * monitoring or event ids still match their freshly scraped counterparts.
+ */
+export function isSameSession(a: SessionIdentityFields, b: SessionIdentityFields): boolean {
+  const aId = sessionId(a)
+  const bId = sessionId(b)
+  if (aId !== undefined && bId !== undefined) {
+    return aId === bId
+  }
+  return a.date === b.date && a.time === b.time && isSamePlace(a, b)
+}
+
+/**
+ * Whether a session is the one a ref points at - by id when the ref has one,
+ * otherwise (refs made before sessions had ids, or for sessions without them)
+ * by date and time, and venue when both sides have one
+ */
+export function matchesSessionRef(session: Session, ref: SessionRef): boolean {
+  if (ref.id !== undefined) {
+    return sessionId(session) === ref.id
+  }
+  return session.date === ref.date && session.time === ref.time && isSamePlace(session, ref)
+}
+
+/**
+ * Whether two sessions (or snapshots) are at the same venue and rink, with
+ * the same leniency for missing fields as isSameSession
+ */
+export function isSamePlace(
+  a: Pick<Session, 'venue' | 'rink'>,
+  b: Pick<Session, 'venue' | 'rink'>
+): boolean {
+  return (
+    (a.venue === undefined || b.venue === undefined || a.venue === b.venue) &&
+    (a.rink === undefined || b.rink === undefined || a.rink === b.rink)
+  )
 }
 
 interface JsonApiEvent {
@@ -27,6 +118,9 @@ interface JsonApiEvent {
     summary?: {
       data: { type: string; id: string } | null
     }
+    resource?: {
+      data: { type: string; id: string } | null
+    }
     [key: string]: any
   }
 }
@@ -35,11 +129,19 @@ interface JsonApiIncluded {
   id: string
   type: string
   attributes: any
+  relationships?: {
+    [key: string]: { data: { type: string; id: string } | null } | undefined
+  }
 }
 
-interface JsonApiResponse {
+export interface JsonApiLinks {
+  next?: string | null // absent or null on the last page
+}
+
+export interface JsonApiResponse {
   data: JsonApiEvent[]
   included?: JsonApiIncluded[]
+  links?: JsonApiLinks
 }
 
 interface ParsedEvent {
@@ -50,6 +152,7 @@ interface ParsedEvent {
   registered: number
   capacity: number
   price: number
+  rink: string | undefined
 }
 
 export function parseEvents(apiResponse: JsonApiResponse): Session[] {
@@ -92,6 +195,13 @@ export function parseEvents(apiResponse: JsonApiResponse): Session[] {
     const registered = summary.attributes?.registered_count || 0
     const capacity = summary.attributes?.composite_capacity || 0
 
+    // Rink name from the event's resource, when DASH included it
+    const resourceData = event.relationships.resource?.data
+    const resource = resourceData
+      ? includedMap.get(`${resourceData.type}:${resourceData.id}`)
+      : undefined
+    const rink = (resource?.attributes as { name?: string } | undefined)?.name || undefined
+
     // Price is in event attributes or summary - using 0 as default for now
     // TODO: Find actual price field in API response
     const price = 0
@@ -104,10 +214,11 @@ export function parseEvents(apiResponse: JsonApiResponse): Session[] {
       registered,
       capacity,
       price,
+      rink,
     })
   }
 
-  // Group by time slot and pair PLAYERS with GOALIES
+  // Group by time slot and rink and pair PLAYERS with GOALIES
   const sessionMap = new Map<string, Partial<Session>>()
 
   for (const event of parsedEvents) {
@@ -120,10 +231,10 @@ export function parseEvents(apiResponse: JsonApiResponse): Session[] {
     const timeLabel = formatTimeLabel(startDate, endDate)
     const dayOfWeek = getDayOfWeek(startDate)
 
-    const sessionKey = `${date}:${time}`
+    const slotKey = `${date}:${time}:${event.rink ?? ''}`
 
-    if (!sessionMap.has(sessionKey)) {
-      sessionMap.set(sessionKey, {
+    if (!sessionMap.has(slotKey)) {
+      sessionMap.set(slotKey, {
         date,
         dayOfWeek,
         time,
@@ -135,18 +246,21 @@ export function parseEvents(apiResponse: JsonApiResponse): Session[] {
         goaliesMax: 0,
         isFull: false,
         price: event.price,
+        ...(event.rink && { rink: event.rink }),
       })
     }
 
-    const session = sessionMap.get(sessionKey)!
+    const session = sessionMap.get(slotKey)!
 
     if (event.teamName.includes('(PLAYERS)')) {
       session.playersRegistered = event.registered
       session.playersMax = event.capacity
+      session.playersEventId = event.eventId
       session.eventName = event.teamName
     } else if (event.teamName.includes('(GOALIES)')) {
       session.goaliesRegistered = event.registered
       session.goaliesMax = event.capacity
+      session.goaliesEventId = event.eventId
       // If eventName not set yet, use this (shouldn't happen in practice)
       if (!session.eventName) {
         session.eventName = event.teamName
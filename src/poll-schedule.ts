@@ -1,8 +1,9 @@
 import type { SessionState } from './evaluator'
+import type { Session } from './parser'
 
 export interface PollScheduleResult {
   delayMs: number
-  reason: 'approach' | 'sleep' | 'fallback'
+  reason: 'approach' | 'sleep' | 'fallback' | 'delivery'
   scheduleLog: string
   wakeLog: string
 }
@@ -16,23 +17,46 @@ interface ScheduleConfig {
   pollEndHour: number
 }
 
+const ET = 'America/New_York'
+
+// Floor for an early wake, so an overdue entry can't spin polls back to back
+const MIN_DELIVERY_WAKE_MS = 60 * 1000
+
 /**
  * Parse a session date+time (ET wall-clock) into a UTC Date object.
  * Handles both EST (UTC-5) and EDT (UTC-4) automatically.
  */
 export function parseSessionTimeET(dateStr: string, timeStr: string): Date {
+  return parseSessionTime(dateStr, timeStr, ET)
+}
+
+/**
+ * Parse a session date+time (wall-clock in an IANA time zone) into a UTC Date.
+ * The zone's offset is looked up at the candidate instant and applied again
+ * so dates on either side of a DST change resolve correctly.
+ */
+export function parseSessionTime(dateStr: string, timeStr: string, timeZone: string): Date {
   const [year, month, day] = dateStr.split('-').map(Number)
   const [hours, minutes] = timeStr.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes)
 
-  // Try EST (UTC-5) first, then EDT (UTC-4)
-  const estCandidate = new Date(Date.UTC(year, month - 1, day, hours + 5, minutes))
-  const estCheck = getETComponents(estCandidate)
-
-  if (estCheck.hour === hours && estCheck.minute === minutes) {
-    return estCandidate
+  let candidate = wallClock
+  for (let i = 0; i < 2; i++) {
+    const local = getZonedComponents(new Date(candidate), timeZone)
+    const offset =
+      Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - candidate
+    candidate = wallClock - offset
   }
 
-  return new Date(Date.UTC(year, month - 1, day, hours + 4, minutes))
+  return new Date(candidate)
+}
+
+/**
+ * When a session starts - its date+time in its venue's time zone (ET for
+ * sessions recorded before venues carried one)
+ */
+export function sessionStartTime(session: Session): Date {
+  return parseSessionTime(session.date, session.time, session.timezone ?? ET)
 }
 
 /**
@@ -43,7 +67,7 @@ export function getNextSessionTime(sessions: SessionState[], now: Date): Date |
   let earliest: Date | null = null
 
   for (const s of sessions) {
-    const sessionTime = parseSessionTimeET(s.session.date, s.session.time)
+    const sessionTime = sessionStartTime(s.session)
     if (sessionTime <= now) continue
     if (earliest === null || sessionTime < earliest) {
       earliest = sessionTime
@@ -137,6 +161,34 @@ export function calculateNextPollDelay(
   }
 }
 
+/**
+ * Wake before the scheduled poll when queued notifications (retries of failed
+ * deliveries, digests) fall due first. Not clamped to active hours: a retry
+ * may be for a session that starts soon.
+ */
+export function wakeForPendingDelivery(
+  schedule: PollScheduleResult,
+  now: Date,
+  nextDeliveryAt: Date | null
+): PollScheduleResult {
+  if (nextDeliveryAt === null) {
+    return schedule
+  }
+
+  const delayMs = Math.max(nextDeliveryAt.getTime() - now.getTime(), MIN_DELIVERY_WAKE_MS)
+  if (delayMs >= schedule.delayMs) {
+    return schedule
+  }
+
+  const wake = new Date(now.getTime() + delayMs)
+  return {
+    delayMs,
+    reason: 'delivery',
+    scheduleLog: `📬 Queued notifications due. Next poll: ${formatDateET(wake)}.`,
+    wakeLog: '⏰ Polling to deliver queued notifications.',
+  }
+}
+
 /**
  * Format a UTC Date as ET for logging.
  * Example: "Wed, Feb 25, 7:30 PM ET"
@@ -144,7 +196,7 @@ export function calculateNextPollDelay(
 export function formatDateET(date: Date): string {
   return (
     date.toLocaleString('en-US', {
-      timeZone: 'America/New_York',
+      timeZone: ET,
       weekday: 'short',
       month: 'short',
       day: 'numeric',
@@ -158,15 +210,24 @@ export function formatDateET(date: Date): string {
 /**
  * Get date/time components in ET from a UTC Date.
  */
-function getETComponents(date: Date): {
+export function getETComponents(date: Date): ZonedComponents {
+  return getZonedComponents(date, ET)
+}
+
+interface ZonedComponents {
   year: number
   month: number
   day: number
   hour: number
   minute: number
-} {
+}
+
+/**
+ * Get date/time components in an IANA time zone from a UTC Date.
+ */
+export function getZonedComponents(date: Date, timeZone: string): ZonedComponents {
   const parts = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/New_York',
+    timeZone,
     year: 'numeric',
     month: '2-digit',
     day: '2-digit',
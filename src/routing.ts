@@ -0,0 +1,269 @@
+import * as fs from 'fs'
+import type { Notifier } from './notifiers/interface'
+import type { Alert, AlertType } from './evaluator'
+import { DEFAULT_PRIORITIES } from './rules/builtin.js'
+import { ALERT_TYPES, DAYS_OF_WEEK, isTimeOrUndefined } from './rules/loader.js'
+import { getETComponents, sessionStartTime } from './poll-schedule.js'
+
+const NOTIFIER_NAMES = [
+  'Console',
+  'Slack',
+  'Discord',
+  'Email',
+  'SMS',
+  'Pushover',
+  'ntfy',
+  'Webhook',
+]
+
+/**
+ * Which alerts one notifier receives. Every condition that is set must match;
+ * notifiers without a route receive every alert.
+ */
+export interface NotifierRoute {
+  notifier: string // Notifier.name, case-insensitive
+  alertTypes?: AlertType[]
+  daysOfWeek?: string[] // session day
+  minPriority?: number // rule priority, e.g. 400 = NEWLY_AVAILABLE and above
+  quietHours?: QuietHours
+}
+
+/**
+ * Time window (ET, HH:MM, may wrap past midnight) with no alerts, except
+ * those matching `allow`. Always ET, the agent's clock, whatever the session's zone
+ */
+export interface QuietHours {
+  from: string
+  to: string
+  allow?: {
+    alertTypes?: AlertType[]
+    sessionWithinHours?: number // session starts within this many hours
+  }
+}
+
+/**
+ * Read and validate a JSON routes file: `{ "routes": [ ... ] }`.
+ * Throws with the offending notifier name if anything is invalid.
+ */
+export function loadRoutes(filePath: string): NotifierRoute[] {
+  let doc: unknown
+  try {
+    doc = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Cannot read routes file ${filePath}: ${(error as Error).message}`)
+  }
+
+  const routes = isObject(doc) ? doc.routes : undefined
+  if (!Array.isArray(routes)) {
+    throw new Error(`Routes file ${filePath} must contain { "routes": [...] }`)
+  }
+
+  const seen = new Set<string>()
+  return routes.map((raw: unknown, index) => {
+    const route = parseRoute(raw, index)
+    const key = route.notifier.toLowerCase()
+    if (seen.has(key)) {
+      throw new Error(`Duplicate route for notifier "${route.notifier}" in ${filePath}`)
+    }
+    seen.add(key)
+    return route
+  })
+}
+
+/**
+ * The notifiers an alert should be sent to, in their original order: those
+ * that accept the alert and whose route, if any, lets it through
+ */
+export function routeAlert(
+  alert: Alert,
+  notifiers: Notifier[],
+  routes: NotifierRoute[],
+  now: Date = new Date()
+): Notifier[] {
+  return notifiers.filter((notifier) => {
+    if (notifier.accepts && !notifier.accepts(alert)) return false
+    const route = routes.find((r) => r.notifier.toLowerCase() === notifier.name.toLowerCase())
+    return !route || allowsAlert(route, alert, now)
+  })
+}
+
+/**
+ * Whether an alert is kept from every notifier but the console for good - by
+ * notifier opt-ins and route filters, not quiet hours. Such an alert will
+ * never reach anyone else, so logging it counts as handling it.
+ */
+export function isRoutedAway(
+  alert: Alert,
+  notifiers: Notifier[],
+  routes: NotifierRoute[]
+): boolean {
+  return notifiers.every((notifier) => {
+    if (notifier.name === 'Console') return true
+    if (notifier.accepts && !notifier.accepts(alert)) return true
+    const route = routes.find((r) => r.notifier.toLowerCase() === notifier.name.toLowerCase())
+    return !!route && !matchesFilters(route, alert)
+  })
+}
+
+/**
+ * Whether a route lets an alert through at the given time
+ */
+export function allowsAlert(route: NotifierRoute, alert: Alert, now: Date): boolean {
+  if (!matchesFilters(route, alert)) {
+    return false
+  }
+
+  if (route.quietHours && isQuietTime(route.quietHours, now)) {
+    return allowedDuringQuietHours(route.quietHours, alert, now)
+  }
+
+  return true
+}
+
+/**
+ * The route's standing filters - everything but quiet hours
+ */
+function matchesFilters(route: NotifierRoute, alert: Alert): boolean {
+  if (route.alertTypes && !route.alertTypes.includes(alert.type)) {
+    return false
+  }
+
+  if (route.daysOfWeek) {
+    const day = alert.session.dayOfWeek.toLowerCase()
+    if (!route.daysOfWeek.some((d) => d.toLowerCase() === day)) return false
+  }
+
+  if (route.minPriority !== undefined) {
+    const priority = alert.priority ?? DEFAULT_PRIORITIES[alert.type]
+    if (priority < route.minPriority) return false
+  }
+
+  return true
+}
+
+function isQuietTime(quietHours: QuietHours, now: Date): boolean {
+  const { hour, minute } = getETComponents(now)
+  const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+
+  // Window wraps midnight when it ends before it starts (e.g. 22:00-06:00)
+  return quietHours.from <= quietHours.to
+    ? time >= quietHours.from && time < quietHours.to
+    : time >= quietHours.from || time < quietHours.to
+}
+
+function allowedDuringQuietHours(quietHours: QuietHours, alert: Alert, now: Date): boolean {
+  const allow = quietHours.allow
+  if (!allow) {
+    return false
+  }
+
+  if (allow.alertTypes && !allow.alertTypes.includes(alert.type)) {
+    return false
+  }
+
+  if (allow.sessionWithinHours !== undefined) {
+    const startsAt = sessionStartTime(alert.session)
+    const hoursUntil = (startsAt.getTime() - now.getTime()) / (60 * 60 * 1000)
+    if (hoursUntil > allow.sessionWithinHours) return false
+  }
+
+  return true
+}
+
+function parseRoute(raw: unknown, index: number): NotifierRoute {
+  if (!isObject(raw) || typeof raw.notifier !== 'string' || raw.notifier === '') {
+    throw new Error(`Route at index ${index} must have a string "notifier"`)
+  }
+
+  const notifier = raw.notifier
+  const fail = (message: string): never => {
+    throw new Error(`Invalid route for "${notifier}": ${message}`)
+  }
+
+  if (!NOTIFIER_NAMES.some((name) => name.toLowerCase() === notifier.toLowerCase())) {
+    fail(`"notifier" must be one of ${NOTIFIER_NAMES.join(', ')}`)
+  }
+
+  const route: NotifierRoute = { notifier }
+
+  if (raw.alertTypes !== undefined) {
+    route.alertTypes = parseAlertTypes(raw.alertTypes, '"alertTypes"', fail)
+  }
+
+  if (raw.daysOfWeek !== undefined) {
+    const days = raw.daysOfWeek
+    if (
+      !Array.isArray(days) ||
+      !days.every((d) => typeof d === 'string' && DAYS_OF_WEEK.includes(d.toLowerCase()))
+    ) {
+      fail('"daysOfWeek" must be a list of weekday names')
+    }
+    route.daysOfWeek = days as string[]
+  }
+
+  if (raw.minPriority !== undefined) {
+    if (typeof raw.minPriority !== 'number' || !Number.isFinite(raw.minPriority)) {
+      fail('"minPriority" must be a number')
+    }
+    route.minPriority = raw.minPriority as number
+  }
+
+  if (raw.quietHours !== undefined) {
+    route.quietHours = parseQuietHours(raw.quietHours, fail)
+  }
+
+  return route
+}
+
+function parseQuietHours(raw: unknown, fail: (message: string) => never): QuietHours {
+  if (
+    !isObject(raw) ||
+    typeof raw.from !== 'string' ||
+    typeof raw.to !== 'string' ||
+    !isTimeOrUndefined(raw.from) ||
+    !isTimeOrUndefined(raw.to)
+  ) {
+    return fail('"quietHours" must be { "from": "HH:MM", "to": "HH:MM", "allow"?: {...} }')
+  }
+
+  const quietHours: QuietHours = { from: raw.from, to: raw.to }
+
+  if (raw.allow !== undefined) {
+    const allow = raw.allow
+    if (!isObject(allow)) {
+      return fail('"quietHours.allow" must be an object')
+    }
+
+    quietHours.allow = {}
+    if (allow.alertTypes !== undefined) {
+      quietHours.allow.alertTypes = parseAlertTypes(
+        allow.alertTypes,
+        '"quietHours.allow.alertTypes"',
+        fail
+      )
+    }
+    if (allow.sessionWithinHours !== undefined) {
+      if (typeof allow.sessionWithinHours !== 'number' || allow.sessionWithinHours <= 0) {
+        fail('"quietHours.allow.sessionWithinHours" must be a number > 0')
+      }
+      quietHours.allow.sessionWithinHours = allow.sessionWithinHours as number
+    }
+  }
+
+  return quietHours
+}
+
+function parseAlertTypes(
+  raw: unknown,
+  field: string,
+  fail: (message: string) => never
+): AlertType[] {
+  if (!Array.isArray(raw) || !raw.every((t) => ALERT_TYPES.includes(t as AlertType))) {
+    return fail(`${field} must be a list of ${ALERT_TYPES.join(', ')}`)
+  }
+  return raw as AlertType[]
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,88 @@
+import type { Config } from '../config'
+import type { AlertType } from '../evaluator'
+import type { AlertRule } from './interface'
+
+/**
+ * Default message template for each alert type
+ */
+export const DEFAULT_MESSAGES: Record<AlertType, string> = {
+  OPPORTUNITY:
+    '🏒 OPPORTUNITY: {dayOfWeek} {date}, {time}\nPlayers: {playersRegistered}/{playersMax} ({spotsRemaining} spots left)\nGoalies: {goaliesRegistered}/{goaliesMax}\nStatus: Worth signing up!',
+  SELLOUT_PREDICTED:
+    '📈 SELLOUT PREDICTED: {dayOfWeek} {date}, {time}\nPlayers: {playersRegistered}/{playersMax} ({spotsRemaining} spots left)\nGoalies: {goaliesRegistered}/{goaliesMax}\nStatus: Register before it fills!',
+  FILLING_FAST:
+    '⚡ FILLING FAST: {dayOfWeek} {date}, {time}\nPlayers: {playersRegistered}/{playersMax} ({spotsRemaining} spots left)\nGoalies: {goaliesRegistered}/{goaliesMax}\nStatus: Act now!',
+  SOLD_OUT: '🚫 SOLD OUT: {dayOfWeek} {date}, {time}\nSession is now full.',
+  NEWLY_AVAILABLE:
+    '✅ NEWLY AVAILABLE: {dayOfWeek} {date}, {time}\nSpots opened up! {spotsLabel} available.',
+}
+
+/**
+ * Priority of each built-in rule. Also used to rank a previous alert whose
+ * type no active rule produces any more.
+ */
+export const DEFAULT_PRIORITIES: Record<AlertType, number> = {
+  SOLD_OUT: 500,
+  NEWLY_AVAILABLE: 400,
+  SELLOUT_PREDICTED: 300,
+  FILLING_FAST: 200,
+  OPPORTUNITY: 100,
+}
+
+/**
+ * Today's alert hierarchy expressed as rules, with thresholds from config:
+ * SOLD_OUT > NEWLY_AVAILABLE > SELLOUT_PREDICTED > FILLING_FAST > OPPORTUNITY
+ */
+export function builtInRules(config: Config): AlertRule[] {
+  return [
+    {
+      id: 'sold-out',
+      alertType: 'SOLD_OUT',
+      priority: DEFAULT_PRIORITIES.SOLD_OUT,
+      conditions: { transition: 'becameFull' },
+      suppression: null,
+      message: DEFAULT_MESSAGES.SOLD_OUT,
+    },
+    {
+      id: 'newly-available',
+      alertType: 'NEWLY_AVAILABLE',
+      priority: DEFAULT_PRIORITIES.NEWLY_AVAILABLE,
+      conditions: { transition: 'becameAvailable' },
+      suppression: null,
+      message: DEFAULT_MESSAGES.NEWLY_AVAILABLE,
+    },
+    {
+      id: 'sellout-predicted',
+      alertType: 'SELLOUT_PREDICTED',
+      priority: DEFAULT_PRIORITIES.SELLOUT_PREDICTED,
+      conditions: { selloutWithinHours: config.selloutLeadHours },
+      // Re-alert only when the projected sell-out moves at least an hour earlier
+      suppression: {
+        minNewRegistrations: 1,
+        afterHigherPriority: 'minNewRegistrations',
+        minForecastShiftMinutes: 60,
+      },
+      message: DEFAULT_MESSAGES.SELLOUT_PREDICTED,
+    },
+    {
+      id: 'filling-fast',
+      alertType: 'FILLING_FAST',
+      priority: DEFAULT_PRIORITIES.FILLING_FAST,
+      conditions: { spotsRemaining: { max: config.playerSpotsUrgent } },
+      suppression: { minNewRegistrations: 1, afterHigherPriority: 'minNewRegistrations' },
+      message: DEFAULT_MESSAGES.FILLING_FAST,
+    },
+    {
+      id: 'opportunity',
+      alertType: 'OPPORTUNITY',
+      priority: DEFAULT_PRIORITIES.OPPORTUNITY,
+      conditions: {
+        goaliesRegistered: { min: config.minGoalies },
+        playersRegistered: { min: config.minPlayersRegistered },
+      },
+      // Re-alert only when spots decreased by >= 2; never downgrade from a higher alert
+      suppression: { minNewRegistrations: 2, afterHigherPriority: 'suppress' },
+      message: DEFAULT_MESSAGES.OPPORTUNITY,
+    },
+  ]
+}
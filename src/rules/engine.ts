@@ -0,0 +1,228 @@
+import type { Session } from '../parser'
+import type { AlertType, SessionState } from '../evaluator'
+import type { SelloutForecast } from '../forecast'
+import type { AlertRule, NumberRange, RuleConditions, SuppressionPolicy } from './interface'
+import { DEFAULT_PRIORITIES } from './builtin.js'
+
+export interface RuleContext {
+  session: Session
+  prevState: SessionState | undefined
+  forecast: SelloutForecast | null
+  now: Date
+}
+
+/**
+ * Placeholders available in message templates
+ */
+export const TEMPLATE_FIELDS = [
+  'dayOfWeek',
+  'date',
+  'time',
+  'timeLabel',
+  'eventName',
+  'playersRegistered',
+  'playersMax',
+  'spotsRemaining',
+  'spotsLabel',
+  'goaliesRegistered',
+  'goaliesMax',
+  'price',
+] as const
+
+/**
+ * Pick the highest-priority rule that matches the session and isn't suppressed.
+ * Returns null if no rule should fire - only one alert per session per poll.
+ *
+ * Transition rules (sold out / newly available) always apply. All other rules
+ * skip full sessions and sessions the user registered for, dismissed or snoozed.
+ */
+export function selectRule(rules: AlertRule[], context: RuleContext): AlertRule | null {
+  const ranked = [...rules].sort((a, b) => b.priority - a.priority)
+  const quiet = isQuiet(context)
+
+  for (const rule of ranked) {
+    if (quiet && !rule.conditions.transition) continue
+    if (!matchesConditions(rule.conditions, context)) continue
+    if (!passesSuppression(rule, ranked, context)) continue
+    return rule
+  }
+
+  return null
+}
+
+/**
+ * Whether every condition present on the rule holds for the session
+ */
+export function matchesConditions(conditions: RuleConditions, context: RuleContext): boolean {
+  const { session, prevState, forecast } = context
+  const spotsRemaining = session.playersMax - session.playersRegistered
+
+  if (conditions.transition === 'becameFull') {
+    if (!prevState || !session.isFull || prevState.session.isFull) return false
+  }
+
+  if (conditions.transition === 'becameAvailable') {
+    if (!prevState || session.isFull || !prevState.session.isFull) return false
+  }
+
+  if (conditions.daysOfWeek) {
+    const days = conditions.daysOfWeek.map((d) => d.toLowerCase())
+    if (!days.includes(session.dayOfWeek.toLowerCase())) return false
+  }
+
+  if (conditions.timeRange) {
+    const { from, to } = conditions.timeRange
+    if (from !== undefined && session.time < from) return false
+    if (to !== undefined && session.time > to) return false
+  }
+
+  if (!inRange(spotsRemaining, conditions.spotsRemaining)) return false
+  if (!inRange(session.playersRegistered, conditions.playersRegistered)) return false
+  if (!inRange(session.goaliesRegistered, conditions.goaliesRegistered)) return false
+  if (!inRange(session.price, conditions.price)) return false
+
+  if (conditions.eventNamePattern !== undefined) {
+    if (!new RegExp(conditions.eventNamePattern, 'i').test(session.eventName)) return false
+  }
+
+  if (conditions.selloutWithinHours !== undefined) {
+    if (!isSelloutImminent(spotsRemaining, forecast, conditions.selloutWithinHours)) return false
+  }
+
+  return true
+}
+
+/**
+ * Fill in {placeholders} in a message template from session fields
+ */
+export function renderMessage(template: string, session: Session): string {
+  const spotsRemaining = session.playersMax - session.playersRegistered
+  const values: Record<(typeof TEMPLATE_FIELDS)[number], string | number> = {
+    dayOfWeek: session.dayOfWeek,
+    date: formatDate(session.date),
+    time: formatTime(session.time),
+    timeLabel: session.timeLabel,
+    eventName: session.eventName,
+    playersRegistered: session.playersRegistered,
+    playersMax: session.playersMax,
+    spotsRemaining,
+    spotsLabel: `${spotsRemaining} spot${spotsRemaining === 1 ? '' : 's'}`,
+    goaliesRegistered: session.goaliesRegistered,
+    goaliesMax: session.goaliesMax,
+    price: session.price,
+  }
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, field: string) =>
+    field in values ? String(values[field as keyof typeof values]) : placeholder
+  )
+}
+
+/**
+ * Suppression is tracked per alert type: a previous alert of the same type
+ * re-fires only after enough new registrations (and, for forecast-keyed
+ * policies, an earlier projected sell-out), and a previous alert that
+ * outranks this rule either blocks it or requires new registrations.
+ */
+function passesSuppression(rule: AlertRule, rules: AlertRule[], context: RuleContext): boolean {
+  const { session, prevState } = context
+  if (!rule.suppression || !prevState?.lastAlertType) {
+    return true
+  }
+
+  const newRegistrations = session.playersRegistered - (prevState.lastPlayerCount ?? 0)
+  const enoughNew = newRegistrations >= rule.suppression.minNewRegistrations
+
+  if (prevState.lastAlertType === rule.alertType) {
+    return enoughNew && forecastMovedEarlier(rule.suppression, prevState, context.forecast)
+  }
+
+  // CRITICAL: Don't downgrade from higher-priority alerts
+  if (alertTypePriority(prevState.lastAlertType, rules) > rule.priority) {
+    return rule.suppression.afterHigherPriority === 'suppress' ? false : enoughNew
+  }
+
+  return true
+}
+
+/**
+ * Whether the projected sell-out is at least minForecastShiftMinutes earlier
+ * than the one the last alert carried. Policies without a shift, and state
+ * recorded before forecasts were kept, fall back to registrations alone.
+ */
+function forecastMovedEarlier(
+  policy: SuppressionPolicy,
+  prevState: SessionState,
+  forecast: SelloutForecast | null
+): boolean {
+  if (policy.minForecastShiftMinutes === undefined || !prevState.lastProjectedSellout) {
+    return true
+  }
+  if (!forecast) {
+    return false
+  }
+
+  const shiftMs = Date.parse(prevState.lastProjectedSellout) - Date.parse(forecast.projectedAt)
+  return shiftMs >= policy.minForecastShiftMinutes * 60 * 1000
+}
+
+/**
+ * Rank of a previous alert: the highest-priority rule that produces its type
+ */
+function alertTypePriority(type: AlertType, rules: AlertRule[]): number {
+  const priorities = rules.filter((r) => r.alertType === type).map((r) => r.priority)
+  return priorities.length > 0 ? Math.max(...priorities) : DEFAULT_PRIORITIES[type]
+}
+
+function isQuiet({ session, prevState, now }: RuleContext): boolean {
+  if (prevState?.isRegistered || prevState?.userResponse === 'not_interested') {
+    return true
+  }
+
+  // remind_later snooze period
+  if (
+    prevState?.userResponse === 'remind_later' &&
+    prevState.remindAfter &&
+    new Date(prevState.remindAfter) > now
+  ) {
+    return true
+  }
+
+  return session.isFull
+}
+
+/**
+ * Whether recent fill velocity projects the remaining spots to be taken within leadHours.
+ * Historical-only forecasts don't qualify - the session must actually be filling now.
+ */
+function isSelloutImminent(
+  spotsRemaining: number,
+  forecast: SelloutForecast | null,
+  leadHours: number
+): boolean {
+  if (!forecast || forecast.playersPerHour === null) {
+    return false
+  }
+
+  return spotsRemaining / forecast.playersPerHour <= leadHours
+}
+
+function inRange(value: number, range: NumberRange | undefined): boolean {
+  if (!range) return true
+  if (range.min !== undefined && value < range.min) return false
+  if (range.max !== undefined && value > range.max) return false
+  return true
+}
+
+function formatDate(date: string): string {
+  // Convert YYYY-MM-DD to "Feb 20"
+  const d = new Date(date + 'T00:00:00')
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+function formatTime(time: string): string {
+  // Convert HH:MM to "6:00am"
+  const [hours, minutes] = time.split(':').map(Number)
+  const period = hours >= 12 ? 'pm' : 'am'
+  const displayHours = hours % 12 || 12
+  return `${displayHours}:${minutes.toString().padStart(2, '0')}${period}`
+}
@@ -0,0 +1,40 @@
+import type { AlertType } from '../evaluator'
+
+export interface NumberRange {
+  min?: number // inclusive
+  max?: number // inclusive
+}
+
+/**
+ * Conditions on a session - all present conditions must hold for a rule to match
+ */
+export interface RuleConditions {
+  transition?: 'becameFull' | 'becameAvailable' // compared to the previous poll
+  daysOfWeek?: string[] // e.g. ['Tuesday', 'Thursday']
+  timeRange?: { from?: string; to?: string } // HH:MM (24h), inclusive
+  spotsRemaining?: NumberRange
+  playersRegistered?: NumberRange
+  goaliesRegistered?: NumberRange
+  price?: NumberRange
+  eventNamePattern?: string // case-insensitive regular expression
+  selloutWithinHours?: number // recent fill velocity projects a sell-out within this many hours
+}
+
+/**
+ * When a rule may fire again for a session it (or another rule) already alerted on.
+ * Suppression is tracked per alert type, via SessionState.lastAlertType.
+ */
+export interface SuppressionPolicy {
+  minNewRegistrations: number // players registered since the last alert before re-alerting
+  afterHigherPriority: 'suppress' | 'minNewRegistrations' // when the last alert outranks this rule
+  minForecastShiftMinutes?: number // same-type re-alerts also need the projected sell-out this much earlier
+}
+
+export interface AlertRule {
+  id: string
+  alertType: AlertType // drives notifier styling and suppression tracking
+  priority: number // higher wins - only one alert per session per poll
+  conditions: RuleConditions
+  suppression: SuppressionPolicy | null // null = fire whenever the conditions match
+  message: string // template, e.g. '{dayOfWeek} {date}, {time}: {spotsRemaining} spots left'
+}
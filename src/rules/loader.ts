@@ -0,0 +1,268 @@
+import * as fs from 'fs'
+import type { Config } from '../config'
+import type { AlertType } from '../evaluator'
+import type { AlertRule, NumberRange, RuleConditions, SuppressionPolicy } from './interface'
+import { builtInRules, DEFAULT_MESSAGES } from './builtin.js'
+import { TEMPLATE_FIELDS } from './engine.js'
+
+export const ALERT_TYPES: AlertType[] = [
+  'OPPORTUNITY',
+  'FILLING_FAST',
+  'SELLOUT_PREDICTED',
+  'SOLD_OUT',
+  'NEWLY_AVAILABLE',
+]
+
+export const DAYS_OF_WEEK = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+]
+
+const RANGE_CONDITIONS = ['spotsRemaining', 'playersRegistered', 'goaliesRegistered', 'price']
+
+const CONDITION_KEYS = [
+  'transition',
+  'daysOfWeek',
+  'timeRange',
+  'eventNamePattern',
+  'selloutWithinHours',
+  ...RANGE_CONDITIONS,
+]
+
+// User rules without a suppression policy re-alert only on new registrations
+const DEFAULT_SUPPRESSION: SuppressionPolicy = {
+  minNewRegistrations: 1,
+  afterHigherPriority: 'suppress',
+}
+
+/**
+ * Rules in effect for this config: the built-in rules, plus or overridden by
+ * the rules file at config.rulesPath when set. Pass ruleFile to use entries
+ * already loaded from it instead of reading the file again.
+ */
+export function resolveRules(
+  config: Config,
+  ruleFile: RuleFileEntry[] | null = config.rulesPath ? loadRulesFile(config.rulesPath) : null
+): AlertRule[] {
+  const rules = builtInRules(config)
+  return ruleFile ? mergeRules(rules, ruleFile) : rules
+}
+
+export interface RuleFileEntry {
+  id: string
+  enabled: boolean
+  rule: AlertRule | null // null when the entry only disables a rule
+}
+
+/**
+ * Read and validate a JSON rules file: `{ "rules": [ ... ] }`.
+ * Throws with the offending rule id if anything is invalid.
+ */
+export function loadRulesFile(filePath: string): RuleFileEntry[] {
+  let doc: unknown
+  try {
+    doc = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Cannot read rules file ${filePath}: ${(error as Error).message}`)
+  }
+
+  const rules = isObject(doc) ? doc.rules : undefined
+  if (!Array.isArray(rules)) {
+    throw new Error(`Rules file ${filePath} must contain { "rules": [...] }`)
+  }
+
+  const seen = new Set<string>()
+  return rules.map((raw: unknown, index) => {
+    const entry = parseRuleEntry(raw, index)
+    if (seen.has(entry.id)) {
+      throw new Error(`Duplicate rule id "${entry.id}" in ${filePath}`)
+    }
+    seen.add(entry.id)
+    return entry
+  })
+}
+
+/**
+ * Apply rules-file entries on top of the built-in rules. An entry with the
+ * same id replaces the built-in rule; `"enabled": false` removes it.
+ */
+export function mergeRules(base: AlertRule[], entries: RuleFileEntry[]): AlertRule[] {
+  let rules = [...base]
+
+  for (const entry of entries) {
+    rules = rules.filter((r) => r.id !== entry.id)
+    if (entry.enabled && entry.rule) {
+      rules.push(entry.rule)
+    }
+  }
+
+  return rules
+}
+
+function parseRuleEntry(raw: unknown, index: number): RuleFileEntry {
+  if (!isObject(raw) || typeof raw.id !== 'string' || raw.id === '') {
+    throw new Error(`Rule at index ${index} must have a string "id"`)
+  }
+
+  const id = raw.id
+  const fail = (message: string): never => {
+    throw new Error(`Invalid rule "${id}": ${message}`)
+  }
+
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    fail('"enabled" must be true or false')
+  }
+  if (raw.enabled === false) {
+    return { id, enabled: false, rule: null }
+  }
+
+  if (!ALERT_TYPES.includes(raw.alertType as AlertType)) {
+    fail(`"alertType" must be one of ${ALERT_TYPES.join(', ')}`)
+  }
+  const alertType = raw.alertType as AlertType
+
+  if (typeof raw.priority !== 'number' || !Number.isFinite(raw.priority)) {
+    fail('"priority" must be a number')
+  }
+
+  const conditions = parseConditions(raw.conditions ?? {}, fail)
+  const suppression =
+    raw.suppression === undefined ? DEFAULT_SUPPRESSION : parseSuppression(raw.suppression, fail)
+
+  const message = raw.message ?? DEFAULT_MESSAGES[alertType]
+  if (typeof message !== 'string') {
+    return fail('"message" must be a string')
+  }
+  for (const [, field] of message.matchAll(/\{(\w+)\}/g)) {
+    if (!(TEMPLATE_FIELDS as readonly string[]).includes(field)) {
+      fail(`unknown message placeholder {${field}}`)
+    }
+  }
+
+  return {
+    id,
+    enabled: true,
+    rule: { id, alertType, priority: raw.priority as number, conditions, suppression, message },
+  }
+}
+
+function parseConditions(raw: unknown, fail: (message: string) => never): RuleConditions {
+  if (!isObject(raw)) {
+    return fail('"conditions" must be an object')
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!CONDITION_KEYS.includes(key)) {
+      fail(`unknown condition "${key}"`)
+    }
+  }
+
+  const conditions: RuleConditions = {}
+
+  if (raw.transition !== undefined) {
+    if (raw.transition !== 'becameFull' && raw.transition !== 'becameAvailable') {
+      fail('"transition" must be "becameFull" or "becameAvailable"')
+    }
+    conditions.transition = raw.transition as RuleConditions['transition']
+  }
+
+  if (raw.daysOfWeek !== undefined) {
+    const days = raw.daysOfWeek
+    if (
+      !Array.isArray(days) ||
+      !days.every((d) => typeof d === 'string' && DAYS_OF_WEEK.includes(d.toLowerCase()))
+    ) {
+      fail('"daysOfWeek" must be a list of weekday names')
+    }
+    conditions.daysOfWeek = days as string[]
+  }
+
+  if (raw.timeRange !== undefined) {
+    const range = raw.timeRange
+    if (!isObject(range) || !isTimeOrUndefined(range.from) || !isTimeOrUndefined(range.to)) {
+      return fail('"timeRange" must be { "from"?: "HH:MM", "to"?: "HH:MM" }')
+    }
+    conditions.timeRange = { from: range.from, to: range.to }
+  }
+
+  for (const key of RANGE_CONDITIONS) {
+    if (raw[key] === undefined) continue
+    const range = raw[key]
+    if (!isObject(range) || !isNumberOrUndefined(range.min) || !isNumberOrUndefined(range.max)) {
+      return fail(`"${key}" must be { "min"?: number, "max"?: number }`)
+    }
+    const parsed: NumberRange = { min: range.min, max: range.max }
+    Object.assign(conditions, { [key]: parsed })
+  }
+
+  if (raw.eventNamePattern !== undefined) {
+    const pattern = raw.eventNamePattern
+    if (typeof pattern !== 'string') {
+      return fail('"eventNamePattern" must be a string')
+    }
+    try {
+      new RegExp(pattern, 'i')
+    } catch {
+      fail(`"eventNamePattern" is not a valid regular expression`)
+    }
+    conditions.eventNamePattern = pattern
+  }
+
+  if (raw.selloutWithinHours !== undefined) {
+    if (typeof raw.selloutWithinHours !== 'number' || raw.selloutWithinHours <= 0) {
+      fail('"selloutWithinHours" must be a number > 0')
+    }
+    conditions.selloutWithinHours = raw.selloutWithinHours as number
+  }
+
+  return conditions
+}
+
+function parseSuppression(
+  raw: unknown,
+  fail: (message: string) => never
+): SuppressionPolicy | null {
+  if (raw === null) {
+    return null
+  }
+
+  if (
+    !isObject(raw) ||
+    typeof raw.minNewRegistrations !== 'number' ||
+    raw.minNewRegistrations < 0 ||
+    (raw.afterHigherPriority !== 'suppress' && raw.afterHigherPriority !== 'minNewRegistrations') ||
+    (raw.minForecastShiftMinutes !== undefined &&
+      (typeof raw.minForecastShiftMinutes !== 'number' || raw.minForecastShiftMinutes < 0))
+  ) {
+    return fail(
+      '"suppression" must be null or { "minNewRegistrations": number, "afterHigherPriority": "suppress" | "minNewRegistrations", "minForecastShiftMinutes"?: number }'
+    )
+  }
+
+  return {
+    minNewRegistrations: raw.minNewRegistrations,
+    afterHigherPriority: raw.afterHigherPriority,
+    ...(raw.minForecastShiftMinutes !== undefined && {
+      minForecastShiftMinutes: raw.minForecastShiftMinutes,
+    }),
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function isTimeOrUndefined(value: unknown): value is string | undefined {
+  return (
+    value === undefined || (typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value))
+  )
+}
+
+function isNumberOrUndefined(value: unknown): value is number | undefined {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value))
+}
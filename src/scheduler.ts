@@ -2,22 +2,73 @@
 import 'dotenv/config'
 import type { Server } from 'http'
 import { loadConfig, validateConfig } from './config.js'
-import { poll } from './index.js'
-import { loadState } from './state.js'
+import {
+  poll,
+  createNotifiers,
+  sendWarning,
+  describeStateRecovery,
+  DEFAULT_OUTBOX_PATH,
+} from './index.js'
+import type { StateStore } from './stores/interface'
+import type { SessionState } from './evaluator'
+import type { StateRecovery } from './state'
+import { createStateStore } from './stores/factory.js'
 import { startServer } from './server.js'
-import { calculateNextPollDelay, getNextSessionTime } from './poll-schedule.js'
-
-const STATE_PATH = './data/state.json'
+import { dashStatuses } from './scraper.js'
+import { resolveRules } from './rules/loader.js'
+import { loadSubscribers } from './subscribers.js'
+import { loadRoutes } from './routing.js'
+import { loadOutbox, nextAttemptTime } from './outbox.js'
+import {
+  calculateNextPollDelay,
+  getNextSessionTime,
+  wakeForPendingDelivery,
+} from './poll-schedule.js'
 
 let scheduledTimeout: NodeJS.Timeout | null = null
 let httpServer: Server | null = null
+let stateStore: StateStore | null = null
+
+/**
+ * Which Slack delivery path is active (the bot token takes precedence over the webhook)
+ */
+function describeSlack(config: ReturnType<typeof loadConfig>): string {
+  if (config.slackBotToken && (config.slackChannel || config.slackDirectMessages)) {
+    const dm = config.slackDirectMessages ? ', DMs to subscribers' : ''
+    return `bot token → ${config.slackChannel ?? 'no channel'}${dm} ✓`
+  }
+  return config.slackWebhookUrl ? 'webhook ✓' : 'not configured'
+}
+
+/**
+ * Which push providers are active
+ */
+function describePush(config: ReturnType<typeof loadConfig>): string {
+  const providers = [
+    config.pushoverAppToken && config.pushoverUserKey ? 'Pushover' : null,
+    config.ntfyTopic ? `ntfy (${config.ntfyUrl}/${config.ntfyTopic})` : null,
+  ].filter((provider) => provider !== null)
+  return providers.length > 0 ? `${providers.join(', ')} ✓` : 'not configured'
+}
+
+/**
+ * Describe digest mode for the startup log
+ */
+function describeDigest(config: ReturnType<typeof loadConfig>): string {
+  if (!config.digestMode) return 'off'
+  const window =
+    config.digestWindowMinutes > 0 ? `${config.digestWindowMinutes}-minute window` : 'per poll'
+  const exempt =
+    config.digestExemptTypes.length > 0 ? `, ${config.digestExemptTypes.join(', ')} immediate` : ''
+  return `${window}${exempt}`
+}
 
 /**
  * Check if any tracked session requires accelerated polling
  * (any session with <= playerSpotsUrgent spots remaining)
  */
-function shouldAccelerate(config: ReturnType<typeof loadConfig>): boolean {
-  const state = loadState(STATE_PATH)
+function shouldAccelerate(config: ReturnType<typeof loadConfig>, store: StateStore): boolean {
+  const state = loadScheduleState(store)
 
   for (const sessionState of state) {
     const session = sessionState.session
@@ -32,29 +83,47 @@ function shouldAccelerate(config: ReturnType<typeof loadConfig>): boolean {
   return false
 }
 
+/**
+ * Load state for scheduling decisions. An unreadable state file must not stop
+ * the scheduler, so fall back to no tracked sessions and keep polling.
+ */
+function loadScheduleState(store: StateStore): SessionState[] {
+  try {
+    return store.load()
+  } catch (error) {
+    console.error('⚠️  Failed to load state:', error)
+    return []
+  }
+}
+
 /**
  * Schedule the next poll using smart timing based on session proximity.
  * Sleeps until the approach window opens when no sessions are imminent,
- * then uses normal/accelerated intervals during active polling.
+ * then uses normal/accelerated intervals during active polling. Wakes earlier
+ * when a queued retry or digest falls due first.
  */
-function scheduleNextPoll(config: ReturnType<typeof loadConfig>): void {
+function scheduleNextPoll(config: ReturnType<typeof loadConfig>, store: StateStore): void {
   const now = new Date()
-  const state = loadState(STATE_PATH)
+  const state = loadScheduleState(store)
   const nextSession = getNextSessionTime(state, now)
-  const accelerated = shouldAccelerate(config)
+  const accelerated = shouldAccelerate(config, store)
 
-  const schedule = calculateNextPollDelay(now, nextSession, config, accelerated)
+  const schedule = wakeForPendingDelivery(
+    calculateNextPollDelay(now, nextSession, config, accelerated),
+    now,
+    nextAttemptTime(loadOutbox(DEFAULT_OUTBOX_PATH))
+  )
 
   console.log(schedule.scheduleLog)
 
   scheduledTimeout = setTimeout(() => {
     void (async () => {
       console.log(schedule.wakeLog)
-      await poll(config, STATE_PATH)
+      await poll(config, store)
       console.log('✓ Poll complete\n')
 
       // Schedule next poll (recursive)
-      scheduleNextPoll(config)
+      scheduleNextPoll(config, store)
     })()
   }, schedule.delayMs)
 }
@@ -67,23 +136,64 @@ async function main(): Promise<void> {
     // Load and validate configuration
     const config = loadConfig()
     validateConfig(config)
+    // Fail fast on an invalid rules file (polls re-read it, so edits apply without a restart)
+    const rules = resolveRules(config)
+    const subscribers = config.subscribersPath ? loadSubscribers(config.subscribersPath) : []
+    const routes = config.routesPath ? loadRoutes(config.routesPath) : []
 
     console.log('🏒 Adult Hockey Agent starting...')
     console.log(`📋 Config:`)
+    for (const venue of config.venues) {
+      console.log(
+        `   Venue: ${venue.name} (${venue.company}, facilities ${venue.facilityIds.join(', ') || 'all'}, ${venue.timezone})`
+      )
+    }
     console.log(`   Poll interval: ${config.pollIntervalMinutes} minutes`)
     console.log(`   Accelerated interval: ${config.pollIntervalAcceleratedMinutes} minutes`)
     console.log(`   Active hours: ${config.pollStartHour}:00 - ${config.pollEndHour}:00 ET`)
     console.log(`   Forward window: ${config.forwardWindowDays} days`)
     console.log(`   Approach window: ${config.approachWindowHours} hours`)
     console.log(`   Max sleep: ${config.maxSleepHours} hours`)
-    console.log(`   Slack: ${config.slackWebhookUrl ? 'configured ✓' : 'not configured'}`)
+    console.log(`   Slack: ${describeSlack(config)}`)
+    console.log(
+      `   Email: ${config.emailTo.length > 0 ? `${config.emailTo.join(', ')} via ${config.resendApiKey ? 'Resend' : 'SMTP'}` : 'not configured'}`
+    )
+    console.log(
+      `   SMS: ${config.twilioToNumbers.length > 0 ? `${config.twilioToNumbers.length} number(s) for ${config.smsAlertTypes.join(', ')}` : 'not configured'}`
+    )
+    console.log(`   Push: ${describePush(config)}`)
+    console.log(`   Discord: ${config.discordWebhookUrl ? 'webhook ✓' : 'not configured'}`)
+    console.log(
+      `   Webhooks: ${config.webhookUrls.length > 0 ? `${config.webhookUrls.length} URL(s), signed ✓` : 'not configured'}`
+    )
+    console.log(`   State: ${config.stateBackend} (${config.statePath})`)
+    console.log(`   Alert rules: ${rules.length} (${config.rulesPath ?? 'built-in'})`)
+    console.log(
+      `   Subscribers: ${subscribers.length > 0 ? `${subscribers.length} (${config.subscribersPath})` : 'single-user mode'}`
+    )
+    console.log(
+      `   Routes: ${routes.length > 0 ? `${routes.map((r) => r.notifier).join(', ')} (${config.routesPath})` : 'every alert to every notifier'}`
+    )
+    console.log(`   Digest: ${describeDigest(config)}`)
     console.log()
 
+    // Corrupted state is quarantined and restored from backup - tell the channel
+    const onStateRecovered = (recovery: StateRecovery): void => {
+      void sendWarning(createNotifiers(config), describeStateRecovery(recovery))
+    }
+
+    stateStore = createStateStore(config.stateBackend, config.statePath, {
+      onRecovered: onStateRecovered,
+    })
+
     // Start HTTP server for health endpoint and Slack interactions
     httpServer = startServer(config.port, {
-      statePath: STATE_PATH,
+      store: stateStore,
       slackSigningSecret: config.slackSigningSecret,
       remindIntervalHours: config.remindIntervalHours,
+      multiUser: !!config.subscribersPath,
+      dashStatus: dashStatuses,
+      venues: config.venues,
     })
     console.log(`🌐 Health endpoint available at http://localhost:${config.port}/health`)
     if (config.slackSigningSecret) {
@@ -95,11 +205,11 @@ async function main(): Promise<void> {
     console.log(
       `⏰ Running initial poll at ${new Date().toLocaleString('en-US', { timeZone: 'America/New_York' })}`
     )
-    await poll(config, STATE_PATH)
+    await poll(config, stateStore)
     console.log('✓ Initial poll complete\n')
 
     // Start smart polling
-    scheduleNextPoll(config)
+    scheduleNextPoll(config, stateStore)
 
     console.log('✅ Agent running. Press Ctrl+C to stop.\n')
 
@@ -109,12 +219,15 @@ async function main(): Promise<void> {
       if (scheduledTimeout) {
         clearTimeout(scheduledTimeout)
       }
+      // Stop taking requests before closing the store the server shares
       if (httpServer) {
         httpServer.close(() => {
           console.log('✓ HTTP server stopped')
+          stateStore?.close()
           process.exit(0)
         })
       } else {
+        stateStore?.close()
         process.exit(0)
       }
     })
@@ -124,12 +237,15 @@ async function main(): Promise<void> {
       if (scheduledTimeout) {
         clearTimeout(scheduledTimeout)
       }
+      // Stop taking requests before closing the store the server shares
       if (httpServer) {
         httpServer.close(() => {
           console.log('✓ HTTP server stopped')
+          stateStore?.close()
           process.exit(0)
         })
       } else {
+        stateStore?.close()
         process.exit(0)
       }
     })
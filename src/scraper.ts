@@ -1,8 +1,39 @@
 import { parseEvents } from './parser.js'
-import type { Session } from './parser'
+import type { JsonApiLinks, JsonApiResponse, Session } from './parser'
+import { DashClient, type CircuitStatus } from './dash-client.js'
+import { DEFAULT_VENUE, isVenueDay, type Venue } from './venue.js'
 
-const BASE_URL = 'https://apps.daysmartrecreation.com'
-const COMPANY = 'extremeice'
+// Event IDs per events request - keeps filter[id__in] URLs well under server limits
+export const EVENT_IDS_PER_REQUEST = 50
+
+// Stop following links.next after this many pages (guards against a looping API)
+const MAX_PAGES = 20
+
+// One client per DASH host, shared across polls so each host's circuit
+// breaker sees its own consecutive failures
+const dashClients = new Map<string, DashClient>()
+
+/**
+ * The shared client for the DASH host at baseUrl
+ */
+export function dashClientFor(baseUrl: string): DashClient {
+  const host = new URL(baseUrl).host
+  let client = dashClients.get(host)
+  if (!client) {
+    client = new DashClient()
+    dashClients.set(host, client)
+  }
+  return client
+}
+
+/**
+ * Circuit breaker status of every DASH host contacted so far, by host
+ */
+export function dashStatuses(): Record<string, CircuitStatus> {
+  return Object.fromEntries(
+    [...dashClients].map(([host, client]) => [host, client.breaker.status()])
+  )
+}
 
 interface DateAvailabilitiesResponse {
   data: Array<{
@@ -11,21 +42,32 @@ interface DateAvailabilitiesResponse {
       events: number[]
     }
   }>
+  links?: JsonApiLinks
+}
+
+interface JsonApiPage {
+  data: unknown[]
+  included?: unknown[]
+  links?: JsonApiLinks
 }
 
 /**
- * Check if a date string (YYYY-MM-DD) falls on Monday, Wednesday, or Friday
+ * Check if a date string (YYYY-MM-DD) falls on Monday, Wednesday, or Friday -
+ * the default venue's session days
  */
 export function isMonWedFri(dateStr: string): boolean {
-  const date = new Date(dateStr + 'T00:00:00')
-  const dayOfWeek = date.getDay()
-  return dayOfWeek === 1 || dayOfWeek === 3 || dayOfWeek === 5 // Mon = 1, Wed = 3, Fri = 5
+  return isVenueDay(dateStr, DEFAULT_VENUE)
 }
 
 /**
- * Calculate target dates (Mon/Wed/Fri only) within forward window from today
+ * Calculate target dates within forward window from today - only the venue's
+ * session days (Mon/Wed/Fri by default)
  */
-export function calculateTargetDates(today: Date = new Date(), forwardDays: number = 5): string[] {
+export function calculateTargetDates(
+  today: Date = new Date(),
+  forwardDays: number = 5,
+  venue: Venue = DEFAULT_VENUE
+): string[] {
   const dates: string[] = []
   const endDate = new Date(today)
   endDate.setDate(endDate.getDate() + forwardDays)
@@ -33,7 +75,7 @@ export function calculateTargetDates(today: Date = new Date(), forwardDays: numb
   const current = new Date(today)
   while (current <= endDate) {
     const dateStr = current.toISOString().split('T')[0]
-    if (isMonWedFri(dateStr)) {
+    if (isVenueDay(dateStr, venue)) {
       dates.push(dateStr)
     }
     current.setDate(current.getDate() + 1)
@@ -67,15 +109,104 @@ export function extractEventIds(
 }
 
 /**
- * Scrape events from DASH API for Mon/Wed/Fri dates within forward window.
- * Returns parsed Session[] via two-step fetch: date-availabilities → events
+ * Fetch a JSON:API collection, following `links.next` (absolute or relative to
+ * the DASH host) until the last page. Returns one response with every page's
+ * `data` and `included` concatenated.
+ */
+export async function fetchAllPages<T extends JsonApiPage>(
+  client: DashClient,
+  url: string,
+  label: string
+): Promise<T> {
+  const first = await client.getJson<T>(url, label)
+  const data = [...first.data]
+  const included = [...(first.included ?? [])]
+
+  const seen = new Set([url])
+  let next = first.links?.next
+  while (next) {
+    const pageUrl = new URL(next, url).toString()
+    if (seen.has(pageUrl) || seen.size >= MAX_PAGES) {
+      throw new Error(`DASH ${label} pagination did not end after ${seen.size} pages`)
+    }
+    seen.add(pageUrl)
+
+    const page = await client.getJson<T>(pageUrl, label)
+    data.push(...page.data)
+    included.push(...(page.included ?? []))
+    next = page.links?.next
+  }
+
+  return { ...first, data, included, links: undefined }
+}
+
+/**
+ * Combine events responses into one for parseEvents: events and included
+ * resources (teams, summaries shared between chunks) each appear once
+ */
+export function mergeEventResponses(responses: JsonApiResponse[]): JsonApiResponse {
+  const data = new Map<string, JsonApiResponse['data'][number]>()
+  const included = new Map<string, NonNullable<JsonApiResponse['included']>[number]>()
+
+  for (const response of responses) {
+    for (const event of response.data) {
+      data.set(event.id, event)
+    }
+    for (const item of response.included ?? []) {
+      included.set(`${item.type}:${item.id}`, item)
+    }
+  }
+
+  return { data: [...data.values()], included: [...included.values()] }
+}
+
+/**
+ * Keep only events held at one of the given facilities, found through the
+ * event's resource (the rink sheet) and that resource's facility. Events
+ * whose resource or facility isn't in the response are kept. An empty list
+ * keeps everything.
+ */
+export function filterByFacility(
+  response: JsonApiResponse,
+  facilityIds: string[]
+): JsonApiResponse {
+  if (facilityIds.length === 0) {
+    return response
+  }
+
+  const resources = new Map(
+    (response.included ?? [])
+      .filter((item) => item.type === 'resources')
+      .map((item) => [item.id, item])
+  )
+
+  const data = response.data.filter((event) => {
+    const ref = event.relationships.resource?.data
+    const resource = ref ? resources.get(ref.id) : undefined
+    const attributes = resource?.attributes as { facility_id?: number | string | null } | undefined
+    const facilityId = resource?.relationships?.facility?.data?.id ?? attributes?.facility_id
+    return (
+      facilityId === undefined || facilityId === null || facilityIds.includes(String(facilityId))
+    )
+  })
+
+  return { ...response, data }
+}
+
+/**
+ * Scrape events from DASH API for the venue's session days within forward window.
+ * Returns parsed Session[] via two-step fetch: date-availabilities → events.
+ * Both follow JSON:API pagination; event IDs are requested in chunks. Only
+ * the venue's facilities are kept, and sessions carry the venue's time zone.
  */
 export async function scrapeEvents(
   today: Date = new Date(),
-  forwardDays: number = 5
+  forwardDays: number = 5,
+  venue: Venue = DEFAULT_VENUE,
+  client: DashClient = dashClientFor(venue.baseUrl)
 ): Promise<Session[]> {
-  // Step 1: Calculate target dates (Mon/Wed/Fri only)
-  const targetDates = calculateTargetDates(today, forwardDays)
+  // Step 1: Calculate target dates (the venue's session days only)
+  const targetDates = calculateTargetDates(today, forwardDays, venue)
 
   if (targetDates.length === 0) {
     return []
@@ -83,17 +214,13 @@ export async function scrapeEvents(
 
   // Step 2: Fetch date-availabilities to get event IDs
   const startDate = targetDates[0]
-  const dateAvailabilitiesUrl = `${BASE_URL}/dash/jsonapi/api/v1/date-availabilities?cache[save]=false&page[size]=365&sort=id&filter[date__gte]=${startDate}&company=${COMPANY}`
+  const dateAvailabilitiesUrl = `${venue.baseUrl}/dash/jsonapi/api/v1/date-availabilities?cache[save]=false&page[size]=365&sort=id&filter[date__gte]=${startDate}&company=${venue.company}`
 
-  const dateAvailabilitiesResponse = await fetch(dateAvailabilitiesUrl)
-  if (!dateAvailabilitiesResponse.ok) {
-    throw new Error(
-      `Failed to fetch date-availabilities: ${dateAvailabilitiesResponse.status} ${dateAvailabilitiesResponse.statusText}`
-    )
-  }
-
-  const dateAvailabilitiesData =
-    (await dateAvailabilitiesResponse.json()) as DateAvailabilitiesResponse
+  const dateAvailabilitiesData = await fetchAllPages<DateAvailabilitiesResponse>(
+    client,
+    dateAvailabilitiesUrl,
+    'date-availabilities'
+  )
 
   // Step 3: Extract event IDs for target dates
   const eventIds = extractEventIds(dateAvailabilitiesData, targetDates)
@@ -102,17 +229,19 @@ export async function scrapeEvents(
     return []
   }
 
-  // Step 4: Fetch events by IDs
-  const eventsUrl = `${BASE_URL}/dash/jsonapi/api/v1/events?cache[save]=false&filter[id__in]=${eventIds.join(',')}&filter[unconstrained]=1&company=${COMPANY}&include=summary,homeTeam,resource`
-
-  const eventsResponse = await fetch(eventsUrl)
-  if (!eventsResponse.ok) {
-    throw new Error(`Failed to fetch events: ${eventsResponse.status} ${eventsResponse.statusText}`)
+  // Step 4: Fetch events by IDs, in chunks, following pagination within each
+  const responses: JsonApiResponse[] = []
+  for (let i = 0; i < eventIds.length; i += EVENT_IDS_PER_REQUEST) {
+    const chunk = eventIds.slice(i, i + EVENT_IDS_PER_REQUEST)
+    const eventsUrl = `${venue.baseUrl}/dash/jsonapi/api/v1/events?cache[save]=false&filter[id__in]=${chunk.join(',')}&filter[unconstrained]=1&company=${venue.company}&include=summary,homeTeam,resource`
+    responses.push(await fetchAllPages<JsonApiResponse>(client, eventsUrl, 'events'))
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-  const eventsData = await eventsResponse.json()
-
-  // Step 5: Parse events into sessions
-  return parseEvents(eventsData)
+  // Step 5: Drop other facilities' events, then parse events into sessions
+  const events = filterByFacility(mergeEventResponses(responses), venue.facilityIds)
+  return parseEvents(events).map((session) => ({
+    ...session,
+    venue: venue.id,
+    timezone: venue.timezone,
+  }))
 }
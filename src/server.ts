@@ -1,35 +1,18 @@
-import express, { type Express, type Request } from 'express'
+import express, { type Express, type Request, type Response } from 'express'
 import type { Server } from 'http'
-import fs from 'fs'
+import type { StateStore } from './stores/interface'
 import { createInteractionHandler } from './interactions/handler.js'
 import { createCommandHandler } from './commands/sessions.js'
-
-/**
- * Get the most recent poll timestamp from state file modification time
- * The state file is updated after every poll, so its mtime reflects the last poll time
- */
-function getLastPollTimestamp(statePath: string): string | null {
-  try {
-    // Check if state file exists
-    if (!fs.existsSync(statePath)) {
-      return null
-    }
-
-    // Get file stats
-    const stats = fs.statSync(statePath)
-
-    // Return modification time as ISO string
-    return stats.mtime.toISOString()
-  } catch {
-    // If there's any error reading file stats, return null
-    return null
-  }
-}
+import { buildRegistrationUrl, DEFAULT_VENUE, type Venue } from './venue.js'
+import type { CircuitStatus } from './dash-client'
 
 export interface ServerOptions {
-  statePath: string
+  store: StateStore // shared with the poller; the caller closes it after the server stops
   slackSigningSecret?: string
   remindIntervalHours?: number
+  multiUser?: boolean // subscribers configured - alert messages are shared
+  dashStatus?: () => Record<string, CircuitStatus> // DASH circuit breaker per host, reported on /health
+  venues?: Venue[] // where /r/ links and /sessions registration links point (first = default)
 }
 
 /**
@@ -37,6 +20,7 @@ export interface ServerOptions {
  */
 export function createServer(options: ServerOptions): Express {
   const app = express()
+  const store = options.store
 
   // Parse URL-encoded bodies (Slack sends application/x-www-form-urlencoded)
   // Capture raw body for signature verification
@@ -50,24 +34,53 @@ export function createServer(options: ServerOptions): Express {
   )
 
   // Health check endpoint
+  // The state store is written after every poll, so its last write reflects the last poll time.
+  // An open DASH circuit means a host is being skipped - reported as degraded.
   app.get('/health', (_req, res) => {
-    const lastPoll = getLastPollTimestamp(options.statePath)
+    const lastPoll = store.lastModified()
+    const dash = options.dashStatus?.()
+    const open = Object.values(dash ?? {}).some((status) => status.state === 'open')
 
     res.json({
-      status: 'ok',
+      status: open ? 'degraded' : 'ok',
       uptime: process.uptime(),
       lastPoll,
+      ...(dash && { dash }),
     })
   })
 
+  // Short registration links used in text messages -> DASH registration page:
+  // /r/extremeice/2026-02-20 for a venue, /r/2026-02-20 for the first venue
+  const venues = options.venues ?? [DEFAULT_VENUE]
+  const redirectToRegistration = (venue: Venue | undefined, date: string, res: Response): void => {
+    if (!venue) {
+      res.status(404).json({ error: 'Unknown venue' })
+      return
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      res.status(404).json({ error: 'Unknown session date' })
+      return
+    }
+
+    res.redirect(302, buildRegistrationUrl(date, venue))
+  }
+  app.get('/r/:date', (req, res) => {
+    redirectToRegistration(venues[0], req.params.date, res)
+  })
+  app.get('/r/:venue/:date', (req, res) => {
+    const venue = venues.find((v) => v.id === req.params.venue)
+    redirectToRegistration(venue, req.params.date, res)
+  })
+
   // Slack interaction endpoint
   if (options.slackSigningSecret) {
     app.post(
       '/slack/interactions',
       createInteractionHandler({
         signingSecret: options.slackSigningSecret,
-        statePath: options.statePath,
+        store,
         remindIntervalHours: options.remindIntervalHours ?? 2,
+        multiUser: options.multiUser,
       })
     )
 
@@ -76,7 +89,8 @@ export function createServer(options: ServerOptions): Express {
       '/slack/commands',
       createCommandHandler({
         signingSecret: options.slackSigningSecret,
-        statePath: options.statePath,
+        store,
+        venues,
       })
     )
   }
@@ -1,42 +1,88 @@
 import * as fs from 'fs'
 import * as path from 'path'
-import type { SessionState, AlertType, UserResponse } from './evaluator'
-import type { Session } from './parser'
+import type {
+  Alert,
+  SessionState,
+  SubscriberState,
+  SlackMessageRef,
+  AlertType,
+  UserResponse,
+} from './evaluator'
+import type { Session, SessionRef } from './parser'
+import { isSameSession, matchesSessionRef } from './parser.js'
+import { withFileLock, type LockOptions } from './lock.js'
+import { DEFAULT_PRIORITIES } from './rules/builtin.js'
+import {
+  CURRENT_STATE_VERSION,
+  migrateState,
+  migrationBackupPath,
+  readVersionedState,
+  type MigrationResult,
+  type VersionedState,
+} from './migrations.js'
 
 // Re-export types for external use
 export type { SessionState }
 
+export interface StateRecovery {
+  error: string // why the state file couldn't be read
+  quarantinedPath: string // where the unreadable file was moved
+  restoredFrom: string | null // backup that replaced it, or null if none was usable
+  sessionCount: number // sessions recovered
+}
+
+export interface StateFileOptions {
+  backupCount?: number // rotating backups kept by saveState
+  lock?: Partial<LockOptions>
+  onRecovered?: (recovery: StateRecovery) => void
+}
+
+export const DEFAULT_STATE_BACKUP_COUNT = 3
+
 /**
- * Load session state from disk.
- * Returns empty array if file doesn't exist or is invalid.
+ * Load session state from disk, upgrading files written with an older schema.
+ * Returns empty array if the file doesn't exist or is empty.
+ * The original file is copied to `<file>.v<version>.bak` before an upgrade;
+ * the upgraded version is written by the next save.
+ *
+ * A file that can't be parsed is moved aside to `<file>.corrupt-<timestamp>`
+ * and replaced with the newest readable rotating backup (see saveState), so a
+ * bad write never costs us the user responses. onRecovered reports what happened.
+ * Recovery only happens while holding the file's lock, which is taken (and
+ * the file read again) when needed, so it can't race a writer.
+ * Throws if the file is newer than this build.
  */
-export function loadState(filePath: string): SessionState[] {
+export function loadState(filePath: string, options: StateFileOptions = {}): SessionState[] {
+  let versioned: VersionedState | null
   try {
-    if (!fs.existsSync(filePath)) {
-      return []
-    }
-
-    const contents = fs.readFileSync(filePath, 'utf-8').trim()
-    if (!contents) {
-      return []
-    }
-
-    const state: unknown = JSON.parse(contents)
-    if (!Array.isArray(state)) return []
-    // Normalize entries for backward compatibility (old state files may lack new fields)
-    return (state as SessionState[]).map(normalizeSessionState)
+    versioned = parseStateFile(filePath)
   } catch {
-    // TODO: Use structured logger when available
-    // Gracefully handle corrupted/invalid state files
-    return []
+    return withFileLock(filePath, () => loadLockedState(filePath, options), options.lock)
   }
+
+  return upgradeState(filePath, versioned)
+}
+
+/**
+ * Parse a state file and run any pending migrations in memory, without
+ * touching disk. Returns null if the file doesn't exist or is empty.
+ */
+export function readStateFile(filePath: string): MigrationResult | null {
+  const versioned = parseStateFile(filePath)
+  return versioned ? migrateStateFile(filePath, versioned) : null
 }
 
 /**
  * Save session state to disk using atomic write (temp file + rename).
+ * Always writes the current schema version. The file being replaced is kept
+ * as `<file>.1.bak`, shifting older backups up to backupCount.
  * Creates parent directory if it doesn't exist.
  */
-export function saveState(filePath: string, state: SessionState[]): void {
+export function saveState(
+  filePath: string,
+  state: SessionState[],
+  options: StateFileOptions = {}
+): void {
   const dir = path.dirname(filePath)
   const tempPath = path.join(dir, `.${path.basename(filePath)}.tmp`)
 
@@ -47,7 +93,10 @@ export function saveState(filePath: string, state: SessionState[]): void {
     }
 
     // Write to temp file
-    fs.writeFileSync(tempPath, JSON.stringify(state, null, 2), 'utf-8')
+    const doc = { version: CURRENT_STATE_VERSION, sessions: state }
+    fs.writeFileSync(tempPath, JSON.stringify(doc, null, 2), 'utf-8')
+
+    rotateBackups(filePath, options.backupCount ?? DEFAULT_STATE_BACKUP_COUNT)
 
     // Atomic rename
     fs.renameSync(tempPath, filePath)
@@ -64,6 +113,37 @@ export function saveState(filePath: string, state: SessionState[]): void {
   }
 }
 
+/**
+ * Path of the nth most recent rotating backup (1 = newest)
+ */
+export function stateBackupPath(filePath: string, n: number): string {
+  return `${filePath}.${n}.bak`
+}
+
+/**
+ * Read-modify-write the state file while holding its advisory lock, so
+ * concurrent writers (poll loop, Slack handlers, CLI scripts) can't clobber
+ * each other. Returning the input array unchanged skips the write.
+ */
+export function updateStateFile(
+  filePath: string,
+  mutate: (state: SessionState[]) => SessionState[],
+  options: StateFileOptions = {}
+): SessionState[] {
+  return withFileLock(
+    filePath,
+    () => {
+      const current = loadLockedState(filePath, options)
+      const next = mutate(current)
+      if (next !== current) {
+        saveState(filePath, next, options)
+      }
+      return next
+    },
+    options.lock
+  )
+}
+
 /**
  * Remove sessions older than the specified date (default: today).
  * Sessions with date >= compareDate are kept.
@@ -83,12 +163,11 @@ export function pruneOldSessions(
  */
 export function updateRegistrationStatus(
   state: SessionState[],
-  date: string,
-  time: string,
+  ref: SessionRef,
   isRegistered: boolean
 ): SessionState[] {
   return state.map((s) => {
-    if (s.session.date === date && s.session.time === time) {
+    if (matchesSessionRef(s.session, ref)) {
       return {
         ...s,
         isRegistered,
@@ -101,18 +180,18 @@ export function updateRegistrationStatus(
 /**
  * Update session state after a poll cycle.
  * If session doesn't exist in state, creates new entry.
- * If alert was fired, updates lastAlertType, lastAlertAt, and lastPlayerCount.
+ * If alert was fired, updates lastAlertType, lastAlertAt, lastPlayerCount and
+ * lastProjectedSellout (the alert's forecast, or null if it had none).
  * Always updates the session data to reflect current values.
  */
 export function updateSessionState(
   state: SessionState[],
   session: Session,
   alertType: AlertType | null,
-  alertAt: string | null
+  alertAt: string | null,
+  projectedSellout: string | null = null
 ): SessionState[] {
-  const existingIndex = state.findIndex(
-    (s) => s.session.date === session.date && s.session.time === session.time
-  )
+  const existingIndex = state.findIndex((s) => isSameSession(s.session, session))
 
   const existingState = existingIndex >= 0 ? state[existingIndex] : null
 
@@ -122,10 +201,14 @@ export function updateSessionState(
     lastAlertAt: alertAt !== null ? alertAt : (existingState?.lastAlertAt ?? null),
     lastPlayerCount:
       alertType !== null ? session.playersRegistered : (existingState?.lastPlayerCount ?? null),
+    lastProjectedSellout:
+      alertType !== null ? projectedSellout : (existingState?.lastProjectedSellout ?? null),
     isRegistered: existingState?.isRegistered ?? false,
     userResponse: existingState?.userResponse ?? null,
     userRespondedAt: existingState?.userRespondedAt ?? null,
     remindAfter: existingState?.remindAfter ?? null,
+    ...(existingState?.subscribers && { subscribers: existingState.subscribers }),
+    ...(existingState?.slackMessages && { slackMessages: existingState.slackMessages }),
   }
 
   if (existingIndex >= 0) {
@@ -137,77 +220,257 @@ export function updateSessionState(
   }
 }
 
+/**
+ * Whether a delivered alert is older news than the alert last recorded for a
+ * session (or subscriber): a lower-ranked type detected before that alert was
+ * recorded, such as a held digest or a retry that went out after an
+ * escalation. Recording it would lower lastAlertType and re-arm the escalation.
+ */
+export function isSupersededAlert(entry: SubscriberState | undefined, alert: Alert): boolean {
+  if (!entry?.lastAlertType || !entry.lastAlertAt) {
+    return false
+  }
+  if (DEFAULT_PRIORITIES[alert.type] >= DEFAULT_PRIORITIES[entry.lastAlertType]) {
+    return false
+  }
+
+  return !alert.detectedAt || alert.detectedAt < entry.lastAlertAt
+}
+
 /**
  * Update user response for a specific session (from Slack interaction).
+ * The session-level fields hold the latest response from anyone (single-user
+ * mode); with a userId the response is also recorded for that subscriber.
  * Returns new state array (immutable update).
  */
 export function updateUserResponse(
   state: SessionState[],
-  date: string,
-  time: string,
+  ref: SessionRef,
   userResponse: UserResponse,
-  remindIntervalHours: number
+  remindIntervalHours: number,
+  userId: string | null = null
 ): SessionState[] {
   const now = new Date()
+  const respond = <T extends SubscriberState>(entry: T): T => ({
+    ...entry,
+    isRegistered: userResponse === 'registered' ? true : entry.isRegistered,
+    userResponse,
+    userRespondedAt: now.toISOString(),
+    remindAfter:
+      userResponse === 'remind_later'
+        ? new Date(now.getTime() + remindIntervalHours * 60 * 60 * 1000).toISOString()
+        : null,
+  })
+
   return state.map((s) => {
-    if (s.session.date === date && s.session.time === time) {
-      return {
-        ...s,
-        isRegistered: userResponse === 'registered' ? true : s.isRegistered,
-        userResponse,
-        userRespondedAt: now.toISOString(),
-        remindAfter:
-          userResponse === 'remind_later'
-            ? new Date(now.getTime() + remindIntervalHours * 60 * 60 * 1000).toISOString()
-            : null,
+    if (matchesSessionRef(s.session, ref)) {
+      const updated = respond(s)
+      if (userId) {
+        updated.subscribers = {
+          ...s.subscribers,
+          [userId]: respond(s.subscribers?.[userId] ?? emptySubscriberState()),
+        }
       }
+      return updated
     }
     return s
   })
 }
 
 /**
- * Merge user-response fields from fresh disk state into poll-computed state.
- * Prevents the poll cycle from overwriting interaction responses that arrived
- * during the async poll window (scraping + notification I/O).
+ * Record an alert sent to one subscriber for a session.
+ * Returns new state array (immutable update).
  */
-export function mergeUserResponses(
-  pollState: SessionState[],
-  freshState: SessionState[]
+export function updateSubscriberAlert(
+  state: SessionState[],
+  session: Session,
+  userId: string,
+  alertType: AlertType,
+  alertAt: string,
+  projectedSellout: string | null = null
 ): SessionState[] {
-  return pollState.map((entry) => {
-    const fresh = freshState.find(
-      (s) => s.session.date === entry.session.date && s.session.time === entry.session.time
-    )
-    if (!fresh || fresh.userRespondedAt === null) return entry
-
-    // Use fresh state's user-response fields if poll state has none,
-    // or if fresh state has a more recent response
-    if (
-      entry.userRespondedAt === null ||
-      new Date(fresh.userRespondedAt) > new Date(entry.userRespondedAt)
-    ) {
+  return state.map((s) => {
+    if (isSameSession(s.session, session)) {
       return {
-        ...entry,
-        userResponse: fresh.userResponse,
-        userRespondedAt: fresh.userRespondedAt,
-        remindAfter: fresh.remindAfter,
-        isRegistered: fresh.isRegistered || entry.isRegistered,
+        ...s,
+        subscribers: {
+          ...s.subscribers,
+          [userId]: {
+            ...(s.subscribers?.[userId] ?? emptySubscriberState()),
+            lastAlertType: alertType,
+            lastAlertAt: alertAt,
+            lastPlayerCount: session.playersRegistered,
+            lastProjectedSellout: projectedSellout,
+          },
+        },
       }
     }
-    return entry
+    return s
   })
 }
 
 /**
- * Normalize a SessionState entry for backward compatibility.
- * Old state files may lack userResponse/userRespondedAt/remindAfter fields.
+ * Record a Slack message posted for a session's alert.
+ * Returns new state array (immutable update).
  */
-function normalizeSessionState(entry: SessionState): SessionState {
+export function recordSlackMessage(
+  state: SessionState[],
+  session: Session,
+  message: SlackMessageRef
+): SessionState[] {
+  return state.map((s) => {
+    if (isSameSession(s.session, session)) {
+      return { ...s, slackMessages: [...(s.slackMessages ?? []), message] }
+    }
+    return s
+  })
+}
+
+/**
+ * State as one subscriber sees it: their own alert history and responses
+ * in place of the session-level fields, so evaluate() can run unchanged.
+ */
+export function subscriberView(state: SessionState[], userId: string): SessionState[] {
+  return state.map((s) => ({
+    session: s.session,
+    ...(s.subscribers?.[userId] ?? emptySubscriberState()),
+  }))
+}
+
+function parseStateFile(filePath: string): VersionedState | null {
+  if (!fs.existsSync(filePath)) {
+    return null
+  }
+
+  const contents = fs.readFileSync(filePath, 'utf-8').trim()
+  if (!contents) {
+    return null
+  }
+
+  try {
+    return readVersionedState(JSON.parse(contents))
+  } catch (error) {
+    throw new Error(`Cannot load state from ${filePath}: ${(error as Error).message}`)
+  }
+}
+
+function migrateStateFile(filePath: string, versioned: VersionedState): MigrationResult {
+  try {
+    return migrateState(versioned)
+  } catch (error) {
+    throw new Error(`Cannot load state from ${filePath}: ${(error as Error).message}`)
+  }
+}
+
+/**
+ * loadState for callers already holding the file's lock
+ */
+function loadLockedState(filePath: string, options: StateFileOptions): SessionState[] {
+  let versioned: VersionedState | null
+  try {
+    versioned = parseStateFile(filePath)
+  } catch (error) {
+    return recoverCorruptState(filePath, error as Error, options)
+  }
+
+  return upgradeState(filePath, versioned)
+}
+
+function upgradeState(filePath: string, versioned: VersionedState | null): SessionState[] {
+  if (!versioned) {
+    return []
+  }
+
+  const result = migrateStateFile(filePath, versioned)
+  if (result.applied.length > 0) {
+    const backupPath = migrationBackupPath(filePath, result.fromVersion)
+    // Keep the first backup - it's the only copy of the original
+    if (!fs.existsSync(backupPath)) {
+      fs.copyFileSync(filePath, backupPath)
+    }
+  }
+
+  return result.sessions
+}
+
+function rotateBackups(filePath: string, backupCount: number): void {
+  if (backupCount <= 0 || !fs.existsSync(filePath)) {
+    return
+  }
+
+  for (let n = backupCount - 1; n >= 1; n--) {
+    const from = stateBackupPath(filePath, n)
+    if (fs.existsSync(from)) {
+      fs.renameSync(from, stateBackupPath(filePath, n + 1))
+    }
+  }
+
+  fs.copyFileSync(filePath, stateBackupPath(filePath, 1))
+}
+
+/**
+ * Move an unreadable state file aside and restore the newest backup that
+ * parses. Falls back to empty state when no backup is usable.
+ * Callers must hold the file's lock.
+ */
+function recoverCorruptState(
+  filePath: string,
+  error: Error,
+  options: StateFileOptions
+): SessionState[] {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const quarantinedPath = `${filePath}.corrupt-${timestamp}`
+  try {
+    fs.renameSync(filePath, quarantinedPath)
+  } catch (renameError) {
+    // Removed since it was read - nothing to quarantine
+    if ((renameError as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw renameError
+  }
+
+  const backupCount = options.backupCount ?? DEFAULT_STATE_BACKUP_COUNT
+  let restoredFrom: string | null = null
+  let sessions: SessionState[] = []
+
+  for (let n = 1; n <= backupCount; n++) {
+    const backupPath = stateBackupPath(filePath, n)
+    try {
+      const result = readStateFile(backupPath)
+      if (!result) continue
+
+      // Copy via temp file so readers never see a partial state file
+      const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.tmp`)
+      fs.copyFileSync(backupPath, tempPath)
+      fs.renameSync(tempPath, filePath)
+
+      restoredFrom = backupPath
+      sessions = result.sessions
+      break
+    } catch {
+      // Backup is unreadable too - try the next older one
+    }
+  }
+
+  options.onRecovered?.({
+    error: error.message,
+    quarantinedPath,
+    restoredFrom,
+    sessionCount: sessions.length,
+  })
+
+  return sessions
+}
+
+function emptySubscriberState(): SubscriberState {
   return {
-    ...entry,
-    userResponse: entry.userResponse ?? null,
-    userRespondedAt: entry.userRespondedAt ?? null,
-    remindAfter: entry.remindAfter ?? null,
+    lastAlertType: null,
+    lastAlertAt: null,
+    lastPlayerCount: null,
+    isRegistered: false,
+    userResponse: null,
+    userRespondedAt: null,
+    remindAfter: null,
   }
 }
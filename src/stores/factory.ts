@@ -0,0 +1,21 @@
+import type { StateBackend, StateStore } from './interface'
+import type { StateFileOptions } from '../state'
+import { JsonStateStore } from './json.js'
+import { SqliteStateStore } from './sqlite.js'
+
+/**
+ * Create the state store for the configured backend.
+ * File options (backups, recovery callback) apply to the JSON backend only.
+ */
+export function createStateStore(
+  backend: StateBackend,
+  filePath: string,
+  options: StateFileOptions = {}
+): StateStore {
+  switch (backend) {
+    case 'json':
+      return new JsonStateStore(filePath, options)
+    case 'sqlite':
+      return new SqliteStateStore(filePath)
+  }
+}
@@ -0,0 +1,21 @@
+import type { SessionState } from '../evaluator'
+
+export type StateBackend = 'json' | 'sqlite'
+
+/**
+ * Common interface for session state persistence backends
+ */
+export interface StateStore {
+  name: string
+  load(): SessionState[]
+  save(state: SessionState[]): void
+  /**
+   * Read-modify-write: apply mutate to the current state and persist the result.
+   * Backends apply the change atomically where they can. Returning the input
+   * array itself signals "no change" and skips the write.
+   */
+  update(mutate: (state: SessionState[]) => SessionState[]): SessionState[]
+  /** ISO timestamp of the last write, or null if nothing has been written yet */
+  lastModified(): string | null
+  close(): void
+}
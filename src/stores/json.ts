@@ -0,0 +1,45 @@
+import * as fs from 'fs'
+import type { StateStore } from './interface'
+import type { SessionState } from '../evaluator'
+import { loadState, saveState, updateStateFile, type StateFileOptions } from '../state.js'
+import { withFileLock } from '../lock.js'
+
+/**
+ * JSON file state store - the whole state array lives in one file,
+ * rewritten atomically (temp file + rename) on every save. Writes hold an
+ * advisory lock file so other processes sharing the file wait their turn.
+ * Unreadable files are quarantined and restored from rotating backups.
+ */
+export class JsonStateStore implements StateStore {
+  name = 'json'
+
+  constructor(
+    private filePath: string,
+    private options: StateFileOptions = {}
+  ) {}
+
+  load(): SessionState[] {
+    return loadState(this.filePath, this.options)
+  }
+
+  save(state: SessionState[]): void {
+    withFileLock(this.filePath, () => saveState(this.filePath, state, this.options))
+  }
+
+  update(mutate: (state: SessionState[]) => SessionState[]): SessionState[] {
+    return updateStateFile(this.filePath, mutate, this.options)
+  }
+
+  lastModified(): string | null {
+    try {
+      if (!fs.existsSync(this.filePath)) return null
+      return fs.statSync(this.filePath).mtime.toISOString()
+    } catch {
+      return null
+    }
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+}
@@ -0,0 +1,168 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import Database from 'better-sqlite3'
+import type { StateStore } from './interface'
+import type { SessionState } from '../evaluator'
+import { sessionKey } from '../parser.js'
+import { CURRENT_STATE_VERSION, migrateState, migrationBackupPath } from '../migrations.js'
+
+interface SessionRow {
+  session_key: string
+  data: string
+}
+
+/**
+ * SQLite state store - one row per session, so writes touch only the sessions
+ * that changed and every read-modify-write runs inside a single transaction.
+ * WAL mode lets the poll loop, the Slack handlers and CLI scripts share the file.
+ */
+export class SqliteStateStore implements StateStore {
+  name = 'sqlite'
+
+  private db: Database.Database
+
+  constructor(private filePath: string) {
+    const dir = path.dirname(filePath)
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true })
+    }
+
+    this.db = new Database(filePath)
+    this.db.pragma('journal_mode = WAL')
+    this.db.pragma('busy_timeout = 5000')
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        session_key TEXT PRIMARY KEY,
+        date TEXT NOT NULL,
+        time TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `)
+    this.migrate()
+  }
+
+  load(): SessionState[] {
+    const rows = this.db
+      .prepare('SELECT session_key, data FROM sessions ORDER BY rowid')
+      .all() as SessionRow[]
+    return rows.map((row) => JSON.parse(row.data) as SessionState)
+  }
+
+  save(state: SessionState[]): void {
+    this.update(() => [...state])
+  }
+
+  update(mutate: (state: SessionState[]) => SessionState[]): SessionState[] {
+    // IMMEDIATE takes the write lock up front so concurrent writers queue behind us
+    const run = this.db.transaction((): SessionState[] => {
+      const rows = this.db
+        .prepare('SELECT session_key, data FROM sessions ORDER BY rowid')
+        .all() as SessionRow[]
+      const existing = new Map(rows.map((row) => [row.session_key, row.data]))
+      const current = rows.map((row) => JSON.parse(row.data) as SessionState)
+
+      const next = mutate(current)
+      if (next === current) {
+        return next
+      }
+
+      const upsert = this.db.prepare(
+        `INSERT INTO sessions (session_key, date, time, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(session_key) DO UPDATE SET
+           date = excluded.date, time = excluded.time, data = excluded.data`
+      )
+      const remove = this.db.prepare('DELETE FROM sessions WHERE session_key = ?')
+
+      const keep = new Set<string>()
+      for (const entry of next) {
+        const key = sessionKey(entry.session)
+        const data = JSON.stringify(entry)
+        keep.add(key)
+        // Only write sessions whose contents actually changed
+        if (existing.get(key) !== data) {
+          upsert.run(key, entry.session.date, entry.session.time, data)
+        }
+      }
+
+      for (const key of existing.keys()) {
+        if (!keep.has(key)) {
+          remove.run(key)
+        }
+      }
+
+      this.db
+        .prepare(
+          `INSERT INTO meta (key, value) VALUES ('last_modified', ?)
+           ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+        )
+        .run(new Date().toISOString())
+
+      return next
+    })
+
+    return run.immediate()
+  }
+
+  /**
+   * Run pending state migrations over every row. Databases created before
+   * schema versioning have rows but no schema_version and count as version 0.
+   * A copy of the database is taken with VACUUM INTO before upgrading.
+   */
+  private migrate(): void {
+    const versionRow = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'schema_version'")
+      .get() as { value: string } | undefined
+    const { count } = this.db.prepare('SELECT COUNT(*) AS count FROM sessions').get() as {
+      count: number
+    }
+    const version = versionRow ? Number(versionRow.value) : count > 0 ? 0 : CURRENT_STATE_VERSION
+
+    const setVersion = this.db.prepare(
+      `INSERT INTO meta (key, value) VALUES ('schema_version', ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+    )
+
+    if (version === CURRENT_STATE_VERSION) {
+      if (!versionRow) {
+        setVersion.run(String(version))
+      }
+      return
+    }
+
+    const rows = this.db.prepare('SELECT session_key, data FROM sessions').all() as SessionRow[]
+    const result = migrateState({
+      version,
+      sessions: rows.map((row) => JSON.parse(row.data) as Record<string, unknown>),
+    })
+
+    const backupPath = migrationBackupPath(this.filePath, version)
+    if (!fs.existsSync(backupPath)) {
+      this.db.prepare('VACUUM INTO ?').run(backupPath)
+    }
+
+    const rewrite = this.db.prepare('UPDATE sessions SET data = ? WHERE session_key = ?')
+    this.db
+      .transaction(() => {
+        result.sessions.forEach((entry, i) => {
+          rewrite.run(JSON.stringify(entry), rows[i].session_key)
+        })
+        setVersion.run(String(result.toVersion))
+      })
+      .immediate()
+  }
+
+  lastModified(): string | null {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = 'last_modified'").get() as
+      | { value: string }
+      | undefined
+    return row ? row.value : null
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
@@ -0,0 +1,179 @@
+import * as fs from 'fs'
+import type { Config } from './config'
+import type { Session } from './parser'
+import { sessionKey } from './parser.js'
+import type { SessionSnapshot } from './history'
+import type { Alert, SessionState } from './evaluator'
+import { compareAlerts, evaluate } from './evaluator.js'
+import { subscriberView } from './state.js'
+import { matchesConditions } from './rules/engine.js'
+import {
+  DAYS_OF_WEEK,
+  isTimeOrUndefined,
+  resolveRules,
+  type RuleFileEntry,
+} from './rules/loader.js'
+
+/**
+ * A Slack user who receives alerts, with optional personal preferences.
+ * Unset thresholds fall back to the global config.
+ */
+export interface Subscriber {
+  userId: string // Slack user id, e.g. U0123ABCD
+  name?: string
+  daysOfWeek?: string[] // only sessions on these days
+  timeRange?: { from?: string; to?: string } // HH:MM (24h), inclusive
+  minGoalies?: number
+  minPlayersRegistered?: number
+  playerSpotsUrgent?: number
+}
+
+const THRESHOLD_KEYS = ['minGoalies', 'minPlayersRegistered', 'playerSpotsUrgent'] as const
+
+/**
+ * Read and validate a JSON subscribers file: `{ "subscribers": [ ... ] }`.
+ * A missing file means single-user mode (no subscribers).
+ */
+export function loadSubscribers(filePath: string): Subscriber[] {
+  if (!fs.existsSync(filePath)) {
+    return []
+  }
+
+  let doc: unknown
+  try {
+    doc = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Cannot read subscribers file ${filePath}: ${(error as Error).message}`)
+  }
+
+  const subscribers = isObject(doc) ? doc.subscribers : undefined
+  if (!Array.isArray(subscribers)) {
+    throw new Error(`Subscribers file ${filePath} must contain { "subscribers": [...] }`)
+  }
+
+  const seen = new Set<string>()
+  return subscribers.map((raw: unknown, index) => {
+    const subscriber = parseSubscriber(raw, index)
+    if (seen.has(subscriber.userId)) {
+      throw new Error(`Duplicate subscriber "${subscriber.userId}" in ${filePath}`)
+    }
+    seen.add(subscriber.userId)
+    return subscriber
+  })
+}
+
+/**
+ * The global config with a subscriber's personal thresholds applied
+ */
+export function subscriberConfig(config: Config, subscriber: Subscriber): Config {
+  return {
+    ...config,
+    minGoalies: subscriber.minGoalies ?? config.minGoalies,
+    minPlayersRegistered: subscriber.minPlayersRegistered ?? config.minPlayersRegistered,
+    playerSpotsUrgent: subscriber.playerSpotsUrgent ?? config.playerSpotsUrgent,
+  }
+}
+
+/**
+ * Whether a session falls within a subscriber's preferred days and times
+ */
+export function wantsSession(subscriber: Subscriber, session: Session): boolean {
+  return matchesConditions(
+    { daysOfWeek: subscriber.daysOfWeek, timeRange: subscriber.timeRange },
+    { session, prevState: undefined, forecast: null, now: new Date() }
+  )
+}
+
+/**
+ * Evaluate sessions once per subscriber, against that subscriber's own alert
+ * history, responses and preferences. Subscribers who get the same alert for
+ * a session are merged into one alert listing all of them.
+ * Sorted chronologically, highest-priority alert first within a session.
+ */
+export function evaluateForSubscribers(
+  sessions: Session[],
+  previousState: SessionState[],
+  config: Config,
+  history: SessionSnapshot[],
+  subscribers: Subscriber[],
+  ruleFile?: RuleFileEntry[] | null // entries already loaded from config.rulesPath
+): Alert[] {
+  const merged = new Map<string, Alert>()
+
+  for (const subscriber of subscribers) {
+    const personal = subscriberConfig(config, subscriber)
+    const alerts = evaluate(
+      sessions.filter((s) => wantsSession(subscriber, s)),
+      subscriberView(previousState, subscriber.userId),
+      personal,
+      history,
+      resolveRules(personal, ruleFile)
+    )
+
+    for (const alert of alerts) {
+      const key = `${sessionKey(alert.session)}:${alert.type}`
+      const existing = merged.get(key)
+      if (existing) {
+        existing.subscribers = [...(existing.subscribers ?? []), subscriber.userId]
+      } else {
+        merged.set(key, { ...alert, subscribers: [subscriber.userId] })
+      }
+    }
+  }
+
+  return [...merged.values()].sort(compareAlerts)
+}
+
+function parseSubscriber(raw: unknown, index: number): Subscriber {
+  if (!isObject(raw) || typeof raw.userId !== 'string' || raw.userId === '') {
+    throw new Error(`Subscriber at index ${index} must have a string "userId"`)
+  }
+
+  const userId = raw.userId
+  const fail = (message: string): never => {
+    throw new Error(`Invalid subscriber "${userId}": ${message}`)
+  }
+
+  const subscriber: Subscriber = { userId }
+
+  if (raw.name !== undefined) {
+    if (typeof raw.name !== 'string') {
+      fail('"name" must be a string')
+    }
+    subscriber.name = raw.name as string
+  }
+
+  if (raw.daysOfWeek !== undefined) {
+    const days = raw.daysOfWeek
+    if (
+      !Array.isArray(days) ||
+      !days.every((d) => typeof d === 'string' && DAYS_OF_WEEK.includes(d.toLowerCase()))
+    ) {
+      fail('"daysOfWeek" must be a list of weekday names')
+    }
+    subscriber.daysOfWeek = days as string[]
+  }
+
+  if (raw.timeRange !== undefined) {
+    const range = raw.timeRange
+    if (!isObject(range) || !isTimeOrUndefined(range.from) || !isTimeOrUndefined(range.to)) {
+      return fail('"timeRange" must be { "from"?: "HH:MM", "to"?: "HH:MM" }')
+    }
+    subscriber.timeRange = { from: range.from, to: range.to }
+  }
+
+  for (const key of THRESHOLD_KEYS) {
+    const value = raw[key]
+    if (value === undefined) continue
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      fail(`"${key}" must be a whole number >= 0`)
+    }
+    subscriber[key] = value as number
+  }
+
+  return subscriber
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
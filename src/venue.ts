@@ -0,0 +1,146 @@
+import * as fs from 'fs'
+import type { Session } from './parser'
+import { DAYS_OF_WEEK } from './rules/loader.js'
+
+/**
+ * A DaySmart (DASH) rink the agent monitors
+ */
+export interface Venue {
+  id: string // stable identifier stored on sessions (defaults to the company slug)
+  name: string // display name
+  baseUrl: string // DASH host, e.g. https://apps.daysmartrecreation.com
+  company: string // DaySmart company slug used in every DASH URL
+  facilityIds: string[] // facilities whose events are monitored (all of the company's when empty)
+  timezone: string // IANA zone of the rink's session dates and times
+  days: string[] // weekdays with pick-up sessions, e.g. "Monday" (every day when empty)
+}
+
+export const DEFAULT_VENUE: Venue = {
+  id: 'extremeice',
+  name: 'Extreme Ice Center',
+  baseUrl: 'https://apps.daysmartrecreation.com',
+  company: 'extremeice',
+  facilityIds: ['1'],
+  timezone: 'America/New_York',
+  days: ['Monday', 'Wednesday', 'Friday'],
+}
+
+/**
+ * DASH online registration page for a date at the venue
+ */
+export function buildRegistrationUrl(date: string, venue: Venue = DEFAULT_VENUE): string {
+  const facilities =
+    venue.facilityIds.length > 0 ? `&facility_ids=${venue.facilityIds.join(',')}` : ''
+  return `${venue.baseUrl}/dash/x/#/online/${venue.company}/event-registration?date=${date}${facilities}`
+}
+
+/**
+ * Whether a venue has sessions on a date (YYYY-MM-DD)
+ */
+export function isVenueDay(date: string, venue: Venue = DEFAULT_VENUE): boolean {
+  if (venue.days.length === 0) return true
+  const weekday = DAYS_OF_WEEK[new Date(`${date}T00:00:00Z`).getUTCDay()]
+  return venue.days.some((day) => day.toLowerCase() === weekday)
+}
+
+/**
+ * Whether every entry names a weekday (any case)
+ */
+function isWeekdayList(days: unknown): days is string[] {
+  return (
+    Array.isArray(days) &&
+    days.every((day) => typeof day === 'string' && DAYS_OF_WEEK.includes(day.toLowerCase()))
+  )
+}
+
+/**
+ * The venue a session was scraped from. Sessions saved before sessions
+ * carried a venue (or from a venue since removed) belong to the first one.
+ */
+export function findVenue(venues: Venue[], session: Pick<Session, 'venue'>): Venue {
+  return venues.find((venue) => venue.id === session.venue) ?? venues[0] ?? DEFAULT_VENUE
+}
+
+/**
+ * Where a session is, for messages: the venue's name when several venues are
+ * monitored, and the rink when DASH named it. Undefined when neither applies.
+ */
+export function describeLocation(
+  venues: Venue[],
+  session: Pick<Session, 'venue' | 'rink'>
+): string | undefined {
+  const venueName = venues.length > 1 ? findVenue(venues, session).name : undefined
+  const location = [venueName, session.rink].filter(Boolean).join(' - ')
+  return location || undefined
+}
+
+/**
+ * Read a JSON venues file: `{ "venues": [ ... ] }`. Each entry needs a
+ * `company`; `id` defaults to the company and the rest to DEFAULT_VENUE's.
+ * Throws if the file or an entry's shape is invalid - values are checked by
+ * validateConfig like the single-venue settings.
+ */
+export function loadVenuesFile(filePath: string): Venue[] {
+  let doc: unknown
+  try {
+    doc = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Cannot read venues file ${filePath}: ${(error as Error).message}`)
+  }
+
+  const venues = isObject(doc) ? doc.venues : undefined
+  if (!Array.isArray(venues) || venues.length === 0) {
+    throw new Error(
+      `Venues file ${filePath} must contain { "venues": [...] } with at least one venue`
+    )
+  }
+
+  return venues.map((raw: unknown, index) => parseVenue(raw, index))
+}
+
+function parseVenue(raw: unknown, index: number): Venue {
+  if (!isObject(raw) || typeof raw.company !== 'string' || raw.company === '') {
+    throw new Error(`Venue at index ${index} must have a string "company"`)
+  }
+
+  const id = raw.id ?? raw.company
+  const fail = (message: string): never => {
+    throw new Error(`Invalid venue "${String(id)}": ${message}`)
+  }
+
+  if (typeof id !== 'string' || id === '') {
+    fail('"id" must be a non-empty string')
+  }
+  for (const key of ['name', 'baseUrl', 'timezone']) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+      fail(`"${key}" must be a string`)
+    }
+  }
+
+  const facilityIds = raw.facilityIds ?? DEFAULT_VENUE.facilityIds
+  if (
+    !Array.isArray(facilityIds) ||
+    !facilityIds.every((f) => typeof f === 'string' || typeof f === 'number')
+  ) {
+    return fail('"facilityIds" must be a list of facility ids')
+  }
+
+  const days = raw.days ?? DEFAULT_VENUE.days
+  if (!isWeekdayList(days)) {
+    return fail('"days" must be a list of weekday names, e.g. ["Monday", "Thursday"]')
+  }
+
+  return {
+    id: id as string,
+    name: (raw.name as string | undefined) ?? (id as string),
+    baseUrl: ((raw.baseUrl as string | undefined) ?? DEFAULT_VENUE.baseUrl).replace(/\/$/, ''),
+    company: raw.company,
+    facilityIds: facilityIds.map(String),
+    timezone: (raw.timezone as string | undefined) ?? DEFAULT_VENUE.timezone,
+    days,
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
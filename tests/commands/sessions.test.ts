@@ -8,6 +8,9 @@ import type { SessionState } from '../../src/state'
 import type { AlertType, UserResponse } from '../../src/evaluator'
 import { buildSessionsResponse } from '../../src/commands/sessions'
 import { createServer } from '../../src/server'
+import { createStateStore } from '../../src/stores/factory'
+import { saveState } from '../../src/state'
+import { DEFAULT_VENUE } from '../../src/venue'
 
 // --- Factory helpers ---
 
@@ -157,6 +160,21 @@ describe('buildSessionsResponse', () => {
     expect(text).toContain('FILLING FAST')
   })
 
+  it('labels SELLOUT_PREDICTED alerts', () => {
+    const session = createSession()
+    const state = [
+      createState(session, {
+        lastAlertType: 'SELLOUT_PREDICTED' as AlertType,
+        lastAlertAt: '2026-02-20T08:00:00.000Z',
+      }),
+    ]
+
+    const result = buildSessionsResponse(state, null)
+
+    const text = JSON.stringify(result.blocks)
+    expect(text).toContain('Sellout Predicted')
+  })
+
   it('displays user response when user has responded', () => {
     const session = createSession()
     const state = [
@@ -224,6 +242,48 @@ describe('buildSessionsResponse', () => {
     expect(text).toContain('2026-02-20')
   })
 
+  it("links to the configured venue's registration page", () => {
+    const state = [createState(createSession({ date: '2026-02-20' }))]
+    const venue = {
+      id: 'other',
+      name: 'Other Rink',
+      baseUrl: 'https://dash.example.com',
+      company: 'otherrink',
+      facilityIds: ['2'],
+      timezone: 'America/Chicago',
+      days: ['Friday'],
+    }
+
+    const text = JSON.stringify(buildSessionsResponse(state, null, [venue]).blocks)
+
+    expect(text).toContain(
+      'https://dash.example.com/dash/x/#/online/otherrink/event-registration?date=2026-02-20&facility_ids=2'
+    )
+  })
+
+  it('names the venue and rink when several venues are monitored', () => {
+    const other = { ...DEFAULT_VENUE, id: 'other', name: 'Other Rink', company: 'otherrink' }
+    const state = [
+      createState(createSession({ venue: 'other', rink: 'RINK 2' })),
+      createState(createSession({ venue: DEFAULT_VENUE.id, rink: 'MAIN RINK' })),
+    ]
+
+    const text = JSON.stringify(buildSessionsResponse(state, null, [DEFAULT_VENUE, other]).blocks)
+
+    expect(text).toContain('_Other Rink - RINK 2_')
+    expect(text).toContain('online/otherrink/event-registration')
+    expect(text).toContain('_Extreme Ice Center - MAIN RINK_')
+  })
+
+  it('names only the rink for a single venue', () => {
+    const state = [createState(createSession({ rink: 'MAIN RINK' }))]
+
+    const text = JSON.stringify(buildSessionsResponse(state, null).blocks)
+
+    expect(text).toContain('_MAIN RINK_')
+    expect(text).not.toContain('Extreme Ice Center')
+  })
+
   it('includes header block', () => {
     const session = createSession()
     const state = [createState(session)]
@@ -285,7 +345,7 @@ describe('POST /slack/commands', () => {
 
   async function startTestServer(): Promise<void> {
     const app = createServer({
-      statePath: TEST_STATE_PATH,
+      store: createStateStore('json', TEST_STATE_PATH),
       slackSigningSecret: SIGNING_SECRET,
     })
     return new Promise((resolve) => {
@@ -295,7 +355,7 @@ describe('POST /slack/commands', () => {
 
   it('returns 200 with Block Kit response for valid signed request with sessions', async () => {
     const testState: SessionState[] = [createState(createSession())]
-    fs.writeFileSync(TEST_STATE_PATH, JSON.stringify(testState, null, 2))
+    saveState(TEST_STATE_PATH, testState)
 
     await startTestServer()
 
@@ -321,7 +381,7 @@ describe('POST /slack/commands', () => {
   })
 
   it('returns 200 with no-sessions message for empty state', async () => {
-    fs.writeFileSync(TEST_STATE_PATH, '[]')
+    saveState(TEST_STATE_PATH, [])
 
     await startTestServer()
 
@@ -424,7 +484,7 @@ describe('POST /slack/commands', () => {
   })
 
   it('returns 404 when commands route is not configured (no signing secret)', async () => {
-    const app = createServer({ statePath: TEST_STATE_PATH })
+    const app = createServer({ store: createStateStore('json', TEST_STATE_PATH) })
     await new Promise<void>((resolve) => {
       server = app.listen(TEST_PORT, () => resolve())
     })
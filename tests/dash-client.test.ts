@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { CircuitBreaker, DashClient, parseRetryAfter } from '../src/dash-client'
+
+const URL = 'https://apps.daysmartrecreation.com/dash/jsonapi/api/v1/events'
+
+const json = (body: unknown): Response => new Response(JSON.stringify(body), { status: 200 })
+const error = (status: number, statusText: string, headers: HeadersInit = {}): Response =>
+  new Response(null, { status, statusText, headers })
+
+describe('DashClient', () => {
+  let sleep: ReturnType<typeof vi.fn<(ms: number) => Promise<void>>>
+  let fetchSpy: ReturnType<typeof vi.spyOn<typeof global, 'fetch'>>
+
+  const createClient = (breaker = new CircuitBreaker()): DashClient =>
+    new DashClient({ sleep, random: () => 0.5, breaker })
+
+  beforeEach(() => {
+    sleep = vi.fn(async () => {})
+    fetchSpy = vi.spyOn(global, 'fetch')
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('returns the parsed JSON body', async () => {
+    fetchSpy.mockResolvedValueOnce(json({ data: [] }))
+
+    await expect(createClient().getJson(URL, 'events')).resolves.toEqual({ data: [] })
+    expect(fetchSpy.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal)
+  })
+
+  it('retries 5xx responses with jittered exponential backoff', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(error(503, 'Service Unavailable'))
+      .mockResolvedValueOnce(error(502, 'Bad Gateway'))
+      .mockResolvedValueOnce(json({ data: [] }))
+
+    await createClient().getJson(URL, 'events')
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([500, 1000])
+  })
+
+  it('retries network errors', async () => {
+    fetchSpy
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(json({ data: [] }))
+
+    await expect(createClient().getJson(URL, 'events')).resolves.toEqual({ data: [] })
+  })
+
+  it('throws the last failure once attempts are used up', async () => {
+    fetchSpy.mockImplementation(async () => error(500, 'Internal Server Error'))
+
+    await expect(createClient().getJson(URL, 'events')).rejects.toThrow(
+      'Failed to fetch events: 500 Internal Server Error'
+    )
+    expect(fetchSpy).toHaveBeenCalledTimes(3)
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(error(429, 'Too Many Requests', { 'Retry-After': '7' }))
+      .mockResolvedValueOnce(json({ data: [] }))
+
+    await createClient().getJson(URL, 'events')
+
+    expect(sleep).toHaveBeenCalledWith(7000)
+  })
+
+  it('gives up when Retry-After is longer than the longest allowed wait', async () => {
+    fetchSpy.mockResolvedValueOnce(error(503, 'Service Unavailable', { 'Retry-After': '120' }))
+
+    await expect(createClient().getJson(URL, 'events')).rejects.toThrow('503')
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(sleep).not.toHaveBeenCalled()
+  })
+
+  it('does not retry other 4xx responses or count them against DASH', async () => {
+    const breaker = new CircuitBreaker({ threshold: 1 })
+    fetchSpy.mockResolvedValueOnce(error(404, 'Not Found'))
+
+    await expect(createClient(breaker).getJson(URL, 'events')).rejects.toThrow(
+      'Failed to fetch events: 404 Not Found'
+    )
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('times out slow requests', async () => {
+    fetchSpy.mockImplementation(
+      (_url, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+        })
+    )
+    const client = new DashClient({ timeoutMs: 20, maxAttempts: 1 })
+
+    await expect(client.getJson(URL, 'events')).rejects.toThrow(
+      'Failed to fetch events: timed out after 20ms'
+    )
+  })
+
+  it('fails fast without calling DASH while the circuit is open', async () => {
+    const breaker = new CircuitBreaker({ threshold: 2 })
+    const client = new DashClient({ sleep, maxAttempts: 1, breaker })
+    fetchSpy.mockImplementation(async () => error(503, 'Service Unavailable'))
+
+    await expect(client.getJson(URL, 'events')).rejects.toThrow('503')
+    await expect(client.getJson(URL, 'events')).rejects.toThrow('503')
+    await expect(client.getJson(URL, 'events')).rejects.toThrow(/DASH circuit open until/)
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('CircuitBreaker', () => {
+  let now: number
+  const createBreaker = (): CircuitBreaker =>
+    new CircuitBreaker({ threshold: 3, cooldownMs: 60_000, now: () => now })
+
+  beforeEach(() => {
+    now = Date.parse('2026-02-19T19:00:00Z')
+  })
+
+  it('opens after threshold consecutive failures', () => {
+    const breaker = createBreaker()
+
+    breaker.recordFailure('503')
+    breaker.recordFailure('503')
+    expect(breaker.canRequest()).toBe(true)
+
+    breaker.recordFailure('503')
+    expect(breaker.canRequest()).toBe(false)
+    expect(breaker.status()).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      lastError: '503',
+      lastSuccessAt: null,
+      retryAt: '2026-02-19T19:01:00.000Z',
+    })
+  })
+
+  it('resets the count on success', () => {
+    const breaker = createBreaker()
+
+    breaker.recordFailure('503')
+    breaker.recordFailure('503')
+    breaker.recordSuccess()
+    breaker.recordFailure('503')
+
+    expect(breaker.state).toBe('closed')
+    expect(breaker.status().lastSuccessAt).toBe('2026-02-19T19:00:00.000Z')
+  })
+
+  it('lets a trial request through after the cooldown and closes on success', () => {
+    const breaker = createBreaker()
+    for (let i = 0; i < 3; i++) breaker.recordFailure('503')
+
+    now += 60_000
+    expect(breaker.state).toBe('half-open')
+    expect(breaker.canRequest()).toBe(true)
+
+    breaker.recordSuccess()
+    expect(breaker.status()).toMatchObject({ state: 'closed', retryAt: null })
+  })
+
+  it('re-opens when the trial request fails', () => {
+    const breaker = createBreaker()
+    for (let i = 0; i < 3; i++) breaker.recordFailure('503')
+
+    now += 60_000
+    breaker.recordFailure('timed out')
+
+    expect(breaker.state).toBe('open')
+    expect(breaker.status().retryAt).toBe('2026-02-19T19:02:00.000Z')
+  })
+})
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-02-19T19:00:00Z')
+
+  it('reads delay-seconds', () => {
+    expect(parseRetryAfter('30', now)).toBe(30_000)
+  })
+
+  it('reads an HTTP date', () => {
+    expect(parseRetryAfter('Thu, 19 Feb 2026 19:00:10 GMT', now)).toBe(10_000)
+  })
+
+  it('ignores missing or unparseable values', () => {
+    expect(parseRetryAfter(null, now)).toBeNull()
+    expect(parseRetryAfter('soon', now)).toBeNull()
+  })
+})
@@ -1,8 +1,11 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { evaluate } from '../src/evaluator'
 import type { Session } from '../src/parser'
 import type { SessionState, Alert, AlertType } from '../src/evaluator'
 import type { Config } from '../src/config'
+import type { SessionSnapshot } from '../src/history'
+import type { AlertRule } from '../src/rules/interface'
+import { DEFAULT_VENUE } from '../src/venue'
 
 describe('evaluator', () => {
   const defaultConfig: Config = {
@@ -16,9 +19,11 @@ describe('evaluator', () => {
     minGoalies: 1,
     minPlayersRegistered: 10,
     playerSpotsUrgent: 4,
+    selloutLeadHours: 12,
     port: 3000,
     slackWebhookUrl: undefined,
     remindIntervalHours: 2,
+    venues: [DEFAULT_VENUE],
   }
 
   const createSession = (overrides: Partial<Session> = {}): Session => ({
@@ -836,4 +841,245 @@ describe('evaluator', () => {
       expect(alerts[0].type).toBe('OPPORTUNITY')
     })
   })
+
+  describe('sell-out forecast', () => {
+    // Wed 2026-02-25 6:00 AM ET = 11:00 UTC; "now" is Mon 2026-02-23 noon UTC
+    const snapshot = (recordedAt: string, playersRegistered: number): SessionSnapshot => ({
+      date: '2026-02-25',
+      time: '06:00',
+      dayOfWeek: 'Wednesday',
+      recordedAt,
+      playersRegistered,
+      playersMax: 24,
+      goaliesRegistered: 2,
+      goaliesMax: 3,
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('attaches the projected sell-out time to alerts', () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-02-23T12:00:00Z'))
+
+      const session = createSession({ playersRegistered: 16 })
+      const history = [
+        snapshot('2026-02-23T00:00:00.000Z', 10),
+        snapshot('2026-02-23T12:00:00.000Z', 16),
+      ]
+
+      const alerts = evaluate([session], [], defaultConfig, history)
+
+      expect(alerts).toHaveLength(1)
+      expect(alerts[0].forecast).toEqual({
+        projectedAt: '2026-02-24T04:00:00.000Z',
+        playersPerHour: 0.5,
+        basis: 'velocity',
+      })
+      expect(alerts[0].message).toContain('Projected to sell out ~Mon 11pm')
+    })
+
+    it('omits the forecast when there is no history', () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-02-23T12:00:00Z'))
+
+      const alerts = evaluate([createSession({ playersRegistered: 16 })], [], defaultConfig)
+
+      expect(alerts[0].forecast).toBeUndefined()
+      expect(alerts[0].message).not.toContain('Projected')
+    })
+  })
+
+  describe('SELLOUT_PREDICTED alerts', () => {
+    // "now" is Mon 2026-02-23 noon UTC; session is Wed 2026-02-25 6:00 AM ET
+    const snapshot = (recordedAt: string, playersRegistered: number): SessionSnapshot => ({
+      date: '2026-02-25',
+      time: '06:00',
+      dayOfWeek: 'Wednesday',
+      recordedAt,
+      playersRegistered,
+      playersMax: 24,
+      goaliesRegistered: 2,
+      goaliesMax: 3,
+    })
+
+    // 10 -> 18 players over 4 hours = 2 players/hour; 6 spots left = 3 hours to sell out
+    const fastHistory = [
+      snapshot('2026-02-23T08:00:00.000Z', 10),
+      snapshot('2026-02-23T12:00:00.000Z', 18),
+    ]
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    const atNow = (): void => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-02-23T12:00:00Z'))
+    }
+
+    it('fires when recent velocity projects a sell-out within the lead time', () => {
+      atNow()
+      const session = createSession({ playersRegistered: 18 })
+
+      const alerts = evaluate([session], [], defaultConfig, fastHistory)
+
+      expect(alerts).toHaveLength(1)
+      expect(alerts[0].type).toBe('SELLOUT_PREDICTED')
+      expect(alerts[0].message).toContain('SELLOUT PREDICTED')
+      expect(alerts[0].forecast?.playersPerHour).toBe(2)
+    })
+
+    it('does not fire when the projection is beyond the lead time', () => {
+      atNow()
+      const session = createSession({ playersRegistered: 18 })
+
+      const alerts = evaluate([session], [], { ...defaultConfig, selloutLeadHours: 2 }, fastHistory)
+
+      expect(alerts[0].type).toBe('OPPORTUNITY')
+    })
+
+    it('does not fire from a historical-only forecast', () => {
+      atNow()
+      const session = createSession({ playersRegistered: 18 })
+      const lastWeek: SessionSnapshot[] = [
+        { ...snapshot('2026-02-18T10:00:00.000Z', 24), date: '2026-02-18' },
+      ]
+
+      const alerts = evaluate([session], [], defaultConfig, lastWeek)
+
+      expect(alerts[0].type).toBe('OPPORTUNITY')
+      expect(alerts[0].forecast?.basis).toBe('historical')
+    })
+
+    it('outranks FILLING_FAST when both conditions are met', () => {
+      atNow()
+      const session = createSession({ playersRegistered: 21 })
+      const history = [
+        snapshot('2026-02-23T08:00:00.000Z', 13),
+        snapshot('2026-02-23T12:00:00.000Z', 21),
+      ]
+
+      const alerts = evaluate([session], [], defaultConfig, history)
+
+      expect(alerts).toHaveLength(1)
+      expect(alerts[0].type).toBe('SELLOUT_PREDICTED')
+    })
+
+    it('suppresses repeat alerts unless players increased', () => {
+      atNow()
+      const session = createSession({ playersRegistered: 18 })
+      const state = [
+        createState(session, { lastAlertType: 'SELLOUT_PREDICTED', lastPlayerCount: 18 }),
+      ]
+
+      expect(evaluate([session], state, defaultConfig, fastHistory)).toHaveLength(0)
+
+      const moreState = [
+        createState(session, { lastAlertType: 'SELLOUT_PREDICTED', lastPlayerCount: 17 }),
+      ]
+      const alerts = evaluate([session], moreState, defaultConfig, fastHistory)
+      expect(alerts[0].type).toBe('SELLOUT_PREDICTED')
+    })
+
+    it('suppresses FILLING_FAST and OPPORTUNITY after SELLOUT_PREDICTED', () => {
+      atNow()
+      const fillingFast = createSession({ playersRegistered: 21 })
+      const state = [
+        createState(fillingFast, { lastAlertType: 'SELLOUT_PREDICTED', lastPlayerCount: 21 }),
+      ]
+
+      // No velocity history: only FILLING_FAST / OPPORTUNITY conditions hold
+      expect(evaluate([fillingFast], state, defaultConfig)).toHaveLength(0)
+    })
+
+    it('does not fire for registered sessions', () => {
+      atNow()
+      const session = createSession({ playersRegistered: 18 })
+      const state = [createState(session, { isRegistered: true })]
+
+      expect(evaluate([session], state, defaultConfig, fastHistory)).toHaveLength(0)
+    })
+  })
+
+  describe('custom rules', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('evaluates the rules it is given instead of the built-ins', () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-02-23T12:00:00Z'))
+
+      const rules: AlertRule[] = [
+        {
+          id: 'three-goalies',
+          alertType: 'OPPORTUNITY',
+          priority: 100,
+          conditions: { goaliesRegistered: { min: 3 } },
+          suppression: null,
+          message: '{dayOfWeek} {time}: {goaliesRegistered} goalies in',
+        },
+      ]
+      const sessions = [
+        createSession({ date: '2026-02-25', dayOfWeek: 'Wednesday', goaliesRegistered: 2 }),
+        createSession({ date: '2026-02-26', dayOfWeek: 'Thursday', goaliesRegistered: 3 }),
+      ]
+
+      const alerts = evaluate(sessions, [], defaultConfig, [], rules)
+
+      expect(alerts).toHaveLength(1)
+      expect(alerts[0].type).toBe('OPPORTUNITY')
+      expect(alerts[0].message).toBe('Thursday 6:00am: 3 goalies in')
+    })
+  })
+
+  describe('venues', () => {
+    const other = { ...DEFAULT_VENUE, id: 'other', name: 'Other Rink', company: 'otherrink' }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-02-23T12:00:00Z'))
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("links to the session's venue and says where it is", () => {
+      const config = { ...defaultConfig, venues: [DEFAULT_VENUE, other] }
+      const session = createSession({ venue: 'other', rink: 'RINK 2', playersRegistered: 10 })
+
+      const alerts = evaluate([session], [], config)
+
+      expect(alerts).toHaveLength(1)
+      expect(alerts[0].registrationUrl).toContain('/online/otherrink/')
+      expect(alerts[0].location).toBe('Other Rink - RINK 2')
+      expect(alerts[0].message).toContain('\nAt Other Rink - RINK 2')
+    })
+
+    it('names only the rink for a single venue', () => {
+      const session = createSession({
+        venue: DEFAULT_VENUE.id,
+        rink: 'MAIN RINK',
+        playersRegistered: 10,
+      })
+
+      const alerts = evaluate([session], [], defaultConfig)
+
+      expect(alerts[0].location).toBe('MAIN RINK')
+    })
+
+    it('alerts separately for the same time at two venues', () => {
+      const config = { ...defaultConfig, venues: [DEFAULT_VENUE, other] }
+      const here = createSession({ venue: DEFAULT_VENUE.id, playersRegistered: 10 })
+      const there = createSession({ venue: 'other', playersRegistered: 10 })
+      const state = [createState(here, { lastAlertType: 'OPPORTUNITY', lastPlayerCount: 10 })]
+
+      const alerts = evaluate([here, there], state, config)
+
+      expect(alerts.map((a) => a.session.venue)).toEqual(['other'])
+    })
+  })
 })
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest'
+import {
+  forecastSellout,
+  estimateVelocity,
+  estimateHistoricalLeadHours,
+  formatProjectedSellout,
+} from '../src/forecast'
+import type { SessionSnapshot } from '../src/history'
+import type { Session } from '../src/parser'
+
+// February 2026 is EST (UTC-5): Friday 2026-02-20 6:00 AM ET = 11:00 UTC
+describe('forecast', () => {
+  const now = new Date('2026-02-18T12:00:00Z')
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-20',
+    dayOfWeek: 'Friday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 16,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const snapshot = (
+    recordedAt: string,
+    playersRegistered: number,
+    overrides: Partial<SessionSnapshot> = {}
+  ): SessionSnapshot => ({
+    date: '2026-02-20',
+    time: '06:00',
+    dayOfWeek: 'Friday',
+    recordedAt,
+    playersRegistered,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    ...overrides,
+  })
+
+  // 10 -> 16 players over 12 hours = 0.5 players/hour
+  const fillingCurve = [
+    snapshot('2026-02-18T00:00:00.000Z', 10),
+    snapshot('2026-02-18T06:00:00.000Z', 13),
+    snapshot('2026-02-18T12:00:00.000Z', 16),
+  ]
+
+  // Last Friday sold out 24 hours before start (Thu 6am ET)
+  const lastWeek = [
+    snapshot('2026-02-11T11:00:00.000Z', 12, { date: '2026-02-13' }),
+    snapshot('2026-02-12T11:00:00.000Z', 24, { date: '2026-02-13' }),
+  ]
+
+  describe('estimateVelocity', () => {
+    it('returns registrations per hour across the lookback window', () => {
+      expect(estimateVelocity(fillingCurve, now, 24)).toBe(0.5)
+    })
+
+    it('ignores snapshots outside the lookback window', () => {
+      const curve = [snapshot('2026-02-17T00:00:00.000Z', 2), ...fillingCurve.slice(1)]
+
+      expect(estimateVelocity(curve, now, 12)).toBe(0.5)
+    })
+
+    it('returns null with fewer than two snapshots', () => {
+      expect(estimateVelocity([fillingCurve[2]], now, 24)).toBeNull()
+    })
+
+    it('returns null when registrations are flat or dropping', () => {
+      const curve = [snapshot('2026-02-18T00:00:00.000Z', 16), snapshot(now.toISOString(), 15)]
+
+      expect(estimateVelocity(curve, now, 24)).toBeNull()
+    })
+  })
+
+  describe('estimateHistoricalLeadHours', () => {
+    it('averages how long before start previous occurrences sold out', () => {
+      expect(estimateHistoricalLeadHours(lastWeek, createSession())).toBe(24)
+    })
+
+    it('returns null when no previous occurrence sold out', () => {
+      const history = [snapshot('2026-02-12T11:00:00.000Z', 20, { date: '2026-02-13' })]
+
+      expect(estimateHistoricalLeadHours(history, createSession())).toBeNull()
+    })
+
+    it('ignores the session being forecast', () => {
+      const history = [snapshot('2026-02-18T11:00:00.000Z', 24)]
+
+      expect(estimateHistoricalLeadHours(history, createSession())).toBeNull()
+    })
+  })
+
+  describe('forecastSellout', () => {
+    it('projects from recent velocity alone', () => {
+      // 8 spots at 0.5/hour = 16 hours from now
+      const forecast = forecastSellout(createSession(), fillingCurve, now)
+
+      expect(forecast).toEqual({
+        projectedAt: '2026-02-19T04:00:00.000Z',
+        playersPerHour: 0.5,
+        basis: 'velocity',
+      })
+    })
+
+    it('projects from the weekday/time slot history alone', () => {
+      const forecast = forecastSellout(createSession(), lastWeek, now)
+
+      expect(forecast).toEqual({
+        projectedAt: '2026-02-19T11:00:00.000Z',
+        playersPerHour: null,
+        basis: 'historical',
+      })
+    })
+
+    it('blends velocity and historical projections', () => {
+      const forecast = forecastSellout(createSession(), [...lastWeek, ...fillingCurve], now)
+
+      expect(forecast?.basis).toBe('blended')
+      expect(forecast?.projectedAt).toBe('2026-02-19T07:30:00.000Z')
+    })
+
+    it('returns null when the session would not fill before it starts', () => {
+      const slowCurve = [
+        snapshot('2026-02-18T00:00:00.000Z', 15),
+        snapshot('2026-02-18T12:00:00.000Z', 16),
+      ]
+
+      expect(forecastSellout(createSession(), slowCurve, now)).toBeNull()
+    })
+
+    it('returns null for full sessions', () => {
+      const session = createSession({ playersRegistered: 24, isFull: true })
+
+      expect(forecastSellout(session, fillingCurve, now)).toBeNull()
+    })
+
+    it('returns null without history', () => {
+      expect(forecastSellout(createSession(), [], now)).toBeNull()
+    })
+  })
+
+  describe('formatProjectedSellout', () => {
+    it('formats as ET weekday and hour with the zone', () => {
+      const text = formatProjectedSellout({
+        projectedAt: '2026-02-20T01:10:00.000Z', // Thu 8:10pm ET
+        playersPerHour: 1,
+        basis: 'velocity',
+      })
+
+      expect(text).toBe('Thu 8pm EST')
+    })
+
+    it("formats in the session's time zone", () => {
+      const text = formatProjectedSellout(
+        { projectedAt: '2026-02-20T01:10:00.000Z', playersPerHour: 1, basis: 'velocity' },
+        'America/Chicago'
+      )
+
+      expect(text).toBe('Thu 7pm CST')
+    })
+  })
+})
@@ -0,0 +1,68 @@
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+
+export interface FakeSlackCall {
+  method: string // Web API method, e.g. chat.postMessage
+  token: string | null
+  body: Record<string, any>
+}
+
+/**
+ * Minimal local stand-in for the Slack Web API. Records every call and answers
+ * like Slack does: HTTP 200 with { ok, ... }. Override a method's response
+ * with respond(method, handler).
+ */
+export class FakeSlackApi {
+  calls: FakeSlackCall[] = []
+  url = ''
+
+  private server = http.createServer((req, res) => this.handle(req, res))
+  private handlers = new Map<string, (call: FakeSlackCall) => Record<string, unknown>>()
+  private nextTs = 1
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve))
+    const { port } = this.server.address() as AddressInfo
+    this.url = `http://127.0.0.1:${port}/api`
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  respond(method: string, handler: (call: FakeSlackCall) => Record<string, unknown>): void {
+    this.handlers.set(method, handler)
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = ''
+    req.on('data', (chunk) => (raw += chunk))
+    req.on('end', () => {
+      const method = (req.url ?? '').replace(/^\/api\//, '')
+      const auth = req.headers.authorization
+      const call: FakeSlackCall = {
+        method,
+        token: auth?.startsWith('Bearer ') ? auth.slice('Bearer '.length) : null,
+        body: raw ? JSON.parse(raw) : {},
+      }
+      this.calls.push(call)
+
+      const handler = this.handlers.get(method) ?? ((c) => this.defaultResponse(c))
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(handler(call)))
+    })
+  }
+
+  private defaultResponse(call: FakeSlackCall): Record<string, unknown> {
+    if (!call.token) {
+      return { ok: false, error: 'not_authed' }
+    }
+    const channel = String(call.body.channel ?? '')
+    return {
+      ok: true,
+      // Posting to a user id lands in the bot's DM channel with that user
+      channel: channel.startsWith('U') ? `D${channel.slice(1)}` : channel,
+      ts: `1700000000.${String(this.nextTs++).padStart(6, '0')}`,
+    }
+  }
+}
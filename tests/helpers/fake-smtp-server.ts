@@ -0,0 +1,86 @@
+import * as net from 'net'
+import type { AddressInfo } from 'net'
+
+export interface ReceivedEmail {
+  from: string
+  to: string[]
+  data: string // raw message: headers + MIME body
+}
+
+/**
+ * Minimal local SMTP sink. Accepts every message without auth or TLS and
+ * keeps it in memory for assertions.
+ */
+export class FakeSmtpServer {
+  messages: ReceivedEmail[] = []
+  port = 0
+
+  private server = net.createServer((socket) => this.handle(socket))
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve))
+    this.port = (this.server.address() as AddressInfo).port
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  get url(): string {
+    return `smtp://127.0.0.1:${this.port}`
+  }
+
+  private handle(socket: net.Socket): void {
+    let buffer = ''
+    let inData = false
+    let current: ReceivedEmail = { from: '', to: [], data: '' }
+
+    const reply = (line: string): void => {
+      socket.write(`${line}\r\n`)
+    }
+
+    reply('220 fake-smtp ready')
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8')
+
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n')
+          if (end === -1) return
+          current.data = buffer.slice(0, end).replace(/^\.\./gm, '.')
+          buffer = buffer.slice(end + 5)
+          inData = false
+          this.messages.push(current)
+          current = { from: '', to: [], data: '' }
+          reply('250 OK: queued')
+          continue
+        }
+
+        const eol = buffer.indexOf('\r\n')
+        if (eol === -1) return
+        const line = buffer.slice(0, eol)
+        buffer = buffer.slice(eol + 2)
+        const command = line.slice(0, 4).toUpperCase()
+
+        if (command === 'EHLO' || command === 'HELO') {
+          reply('250 fake-smtp')
+        } else if (command === 'MAIL') {
+          current.from = line.replace(/^MAIL FROM:\s*<?([^>\s]*)>?.*$/i, '$1')
+          reply('250 OK')
+        } else if (command === 'RCPT') {
+          current.to.push(line.replace(/^RCPT TO:\s*<?([^>\s]*)>?.*$/i, '$1'))
+          reply('250 OK')
+        } else if (command === 'DATA') {
+          inData = true
+          reply('354 End data with <CR><LF>.<CR><LF>')
+        } else if (command === 'QUIT') {
+          reply('221 Bye')
+          socket.end()
+        } else {
+          reply('250 OK')
+        }
+      }
+    })
+  }
+}
@@ -0,0 +1,71 @@
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+
+export interface FakeSms {
+  accountSid: string
+  auth: string | null // decoded Basic credentials, "sid:token"
+  to: string
+  from: string
+  body: string
+}
+
+/**
+ * Minimal local stand-in for the Twilio Messages API. Records every message
+ * and answers 201 like Twilio does; failWith(status) rejects the next request.
+ */
+export class FakeTwilioApi {
+  messages: FakeSms[] = []
+  url = ''
+
+  private server = http.createServer((req, res) => this.handle(req, res))
+  private nextFailure: number | null = null
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve))
+    const { port } = this.server.address() as AddressInfo
+    this.url = `http://127.0.0.1:${port}`
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  failWith(status: number): void {
+    this.nextFailure = status
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = ''
+    req.on('data', (chunk) => (raw += chunk))
+    req.on('end', () => {
+      const match = (req.url ?? '').match(/^\/2010-04-01\/Accounts\/(\w+)\/Messages\.json$/)
+      if (req.method !== 'POST' || !match) {
+        res.writeHead(404, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ code: 20404, message: 'Not found' }))
+        return
+      }
+
+      if (this.nextFailure !== null) {
+        res.writeHead(this.nextFailure, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ code: 21211, message: 'Rejected by fake' }))
+        this.nextFailure = null
+        return
+      }
+
+      const params = new URLSearchParams(raw)
+      const auth = req.headers.authorization
+      this.messages.push({
+        accountSid: match[1],
+        auth: auth?.startsWith('Basic ')
+          ? Buffer.from(auth.slice('Basic '.length), 'base64').toString()
+          : null,
+        to: params.get('To') ?? '',
+        from: params.get('From') ?? '',
+        body: params.get('Body') ?? '',
+      })
+
+      res.writeHead(201, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ sid: `SM${this.messages.length}`, status: 'queued' }))
+    })
+  }
+}
@@ -0,0 +1,44 @@
+import * as http from 'http'
+import type { AddressInfo } from 'net'
+
+export interface ReceivedWebhook {
+  path: string
+  headers: http.IncomingHttpHeaders
+  body: string // raw body, as signed
+}
+
+/**
+ * Local webhook endpoint that records every request. Answers 200 unless
+ * statuses were queued with respondWith().
+ */
+export class FakeWebhookReceiver {
+  requests: ReceivedWebhook[] = []
+  url = ''
+
+  private server = http.createServer((req, res) => this.handle(req, res))
+  private statuses: number[] = []
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve))
+    const { port } = this.server.address() as AddressInfo
+    this.url = `http://127.0.0.1:${port}`
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  respondWith(...statuses: number[]): void {
+    this.statuses.push(...statuses)
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let raw = ''
+    req.on('data', (chunk) => (raw += chunk))
+    req.on('end', () => {
+      this.requests.push({ path: req.url ?? '', headers: req.headers, body: raw })
+      res.writeHead(this.statuses.shift() ?? 200)
+      res.end()
+    })
+  }
+}
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  loadHistory,
+  saveHistory,
+  appendSnapshots,
+  pruneHistory,
+  getFillCurve,
+  getSlotFillHistory,
+  findSoldOutAt,
+} from '../src/history'
+import type { SessionSnapshot } from '../src/history'
+import type { Session } from '../src/parser'
+
+describe('history', () => {
+  const testDataDir = path.join(__dirname, '../data/test')
+  const testHistoryPath = path.join(testDataDir, 'history.json')
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-20',
+    dayOfWeek: 'Friday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 14,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const createSnapshot = (overrides: Partial<SessionSnapshot> = {}): SessionSnapshot => ({
+    date: '2026-02-20',
+    time: '06:00',
+    dayOfWeek: 'Friday',
+    recordedAt: '2026-02-18T12:00:00.000Z',
+    playersRegistered: 14,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    ...overrides,
+  })
+
+  beforeEach(() => {
+    if (!fs.existsSync(testDataDir)) {
+      fs.mkdirSync(testDataDir, { recursive: true })
+    }
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    if (fs.existsSync(testHistoryPath)) {
+      fs.unlinkSync(testHistoryPath)
+    }
+    // Quarantined copies of corrupted history files
+    for (const file of fs.readdirSync(testDataDir)) {
+      if (file.startsWith('history.json.corrupt-')) {
+        fs.unlinkSync(path.join(testDataDir, file))
+      }
+    }
+  })
+
+  describe('loadHistory / saveHistory', () => {
+    it('returns empty array when history file does not exist', () => {
+      expect(loadHistory(testHistoryPath)).toEqual([])
+    })
+
+    it('round-trips snapshots through disk', () => {
+      const history = [createSnapshot(), createSnapshot({ playersRegistered: 18 })]
+
+      saveHistory(testHistoryPath, history)
+
+      expect(loadHistory(testHistoryPath)).toEqual(history)
+    })
+
+    it('returns empty array when history file contains invalid JSON', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      fs.writeFileSync(testHistoryPath, '[{"date": ')
+
+      expect(loadHistory(testHistoryPath)).toEqual([])
+    })
+
+    it('moves an unreadable history file aside and logs a warning', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      fs.writeFileSync(testHistoryPath, '{"not": "a list"}')
+
+      loadHistory(testHistoryPath)
+
+      const quarantined = fs
+        .readdirSync(testDataDir)
+        .filter((f) => f.startsWith(`${path.basename(testHistoryPath)}.corrupt-`))
+      expect(quarantined).toHaveLength(1)
+      expect(fs.readFileSync(path.join(testDataDir, quarantined[0]), 'utf-8')).toBe(
+        '{"not": "a list"}'
+      )
+      expect(fs.existsSync(testHistoryPath)).toBe(false)
+      expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('is unreadable'))
+    })
+
+    it('leaves no temp files behind', () => {
+      saveHistory(testHistoryPath, [createSnapshot()])
+
+      const tempFiles = fs.readdirSync(testDataDir).filter((f) => f.endsWith('.tmp'))
+      expect(tempFiles).toHaveLength(0)
+    })
+  })
+
+  describe('appendSnapshots', () => {
+    it('appends one timestamped snapshot per session', () => {
+      const existing = [createSnapshot()]
+      const sessions = [
+        createSession({ time: '06:00', playersRegistered: 16 }),
+        createSession({ time: '18:30', playersRegistered: 8, goaliesRegistered: 1 }),
+      ]
+
+      const updated = appendSnapshots(existing, sessions, new Date('2026-02-18T13:00:00Z'))
+
+      expect(updated).toHaveLength(3)
+      expect(updated[0]).toEqual(existing[0])
+      expect(updated[1]).toEqual(
+        createSnapshot({ recordedAt: '2026-02-18T13:00:00.000Z', playersRegistered: 16 })
+      )
+      expect(updated[2].time).toBe('18:30')
+      expect(updated[2].playersRegistered).toBe(8)
+      expect(updated[2].goaliesRegistered).toBe(1)
+    })
+
+    it('does not mutate the input history', () => {
+      const existing = [createSnapshot()]
+
+      appendSnapshots(existing, [createSession()])
+
+      expect(existing).toHaveLength(1)
+    })
+  })
+
+  describe('pruneHistory', () => {
+    it('removes snapshots for sessions older than the retention window', () => {
+      const history = [
+        createSnapshot({ date: '2026-01-01' }),
+        createSnapshot({ date: '2026-02-06' }),
+        createSnapshot({ date: '2026-02-20' }),
+      ]
+
+      const pruned = pruneHistory(history, 14, new Date('2026-02-20T12:00:00Z'))
+
+      expect(pruned.map((s) => s.date)).toEqual(['2026-02-06', '2026-02-20'])
+    })
+  })
+
+  describe('getFillCurve', () => {
+    it('returns snapshots for one session ordered by recordedAt', () => {
+      const history = [
+        createSnapshot({ recordedAt: '2026-02-19T12:00:00.000Z', playersRegistered: 20 }),
+        createSnapshot({ time: '18:30', recordedAt: '2026-02-18T12:00:00.000Z' }),
+        createSnapshot({ recordedAt: '2026-02-18T12:00:00.000Z', playersRegistered: 14 }),
+      ]
+
+      const curve = getFillCurve(history, '2026-02-20', '06:00')
+
+      expect(curve.map((s) => s.playersRegistered)).toEqual([14, 20])
+    })
+
+    it('keeps only the given venue and rink when one is passed', () => {
+      const history = [
+        createSnapshot({ venue: 'a', rink: 'MAIN RINK', playersRegistered: 10 }),
+        createSnapshot({ venue: 'a', rink: 'TRAINING RINK', playersRegistered: 5 }),
+        createSnapshot({ venue: 'b', rink: 'MAIN RINK', playersRegistered: 3 }),
+        createSnapshot({ playersRegistered: 8 }), // recorded before snapshots had a venue
+      ]
+
+      const curve = getFillCurve(history, '2026-02-20', '06:00', { venue: 'a', rink: 'MAIN RINK' })
+
+      expect(curve.map((s) => s.playersRegistered)).toEqual([10, 8])
+    })
+
+    it('matches snapshots by event ids, following a rescheduled session', () => {
+      const ids = { venue: 'a', playersEventId: '101', goaliesEventId: '102' }
+      const history = [
+        createSnapshot({ ...ids, date: '2026-02-19', recordedAt: '2026-02-17T12:00:00.000Z' }),
+        createSnapshot({ ...ids, recordedAt: '2026-02-18T12:00:00.000Z' }),
+        createSnapshot({ venue: 'a', playersEventId: '201', goaliesEventId: '202' }),
+        createSnapshot({ playersRegistered: 8 }), // recorded before snapshots had ids
+      ]
+
+      const curve = getFillCurve(history, '2026-02-20', '06:00', ids)
+
+      expect(curve.map((s) => s.recordedAt)).toEqual([
+        '2026-02-17T12:00:00.000Z',
+        '2026-02-18T12:00:00.000Z',
+        history[3].recordedAt,
+      ])
+    })
+  })
+
+  describe('getSlotFillHistory', () => {
+    it('groups occurrences of a weekday/time slot with their sell-out time', () => {
+      const history = [
+        // Last week: sold out Thursday evening
+        createSnapshot({
+          date: '2026-02-13',
+          recordedAt: '2026-02-11T12:00:00.000Z',
+          playersRegistered: 12,
+        }),
+        createSnapshot({
+          date: '2026-02-13',
+          recordedAt: '2026-02-12T20:00:00.000Z',
+          playersRegistered: 24,
+        }),
+        // This week: still open
+        createSnapshot({ date: '2026-02-20', recordedAt: '2026-02-18T12:00:00.000Z' }),
+        // Different slot
+        createSnapshot({ date: '2026-02-18', dayOfWeek: 'Wednesday' }),
+      ]
+
+      const slot = getSlotFillHistory(history, 'Friday', '06:00')
+
+      expect(slot.map((o) => o.date)).toEqual(['2026-02-20', '2026-02-13'])
+      expect(slot[0].soldOutAt).toBeNull()
+      expect(slot[1].soldOutAt).toBe('2026-02-12T20:00:00.000Z')
+      expect(slot[1].curve).toHaveLength(2)
+    })
+
+    it("finds each past occurrence's curve by its own event ids", () => {
+      const lastWeek = { venue: 'a', date: '2026-02-13', playersEventId: '1', goaliesEventId: '2' }
+      const history = [
+        createSnapshot({ ...lastWeek, recordedAt: '2026-02-11T12:00:00.000Z' }),
+        createSnapshot({ ...lastWeek, recordedAt: '2026-02-12T12:00:00.000Z' }),
+        createSnapshot({ venue: 'a', playersEventId: '101', goaliesEventId: '102' }),
+      ]
+      const session = { venue: 'a', playersEventId: '101', goaliesEventId: '102' }
+
+      const slot = getSlotFillHistory(history, 'Friday', '06:00', session)
+
+      expect(slot.map((o) => [o.date, o.curve.length])).toEqual([
+        ['2026-02-20', 1],
+        ['2026-02-13', 2],
+      ])
+    })
+  })
+
+  describe('findSoldOutAt', () => {
+    it('returns null for an empty curve', () => {
+      expect(findSoldOutAt([])).toBeNull()
+    })
+
+    it('returns the first snapshot at capacity', () => {
+      const curve = [
+        createSnapshot({ recordedAt: '2026-02-18T12:00:00.000Z', playersRegistered: 22 }),
+        createSnapshot({ recordedAt: '2026-02-18T13:00:00.000Z', playersRegistered: 24 }),
+        createSnapshot({ recordedAt: '2026-02-18T14:00:00.000Z', playersRegistered: 24 }),
+      ]
+
+      expect(findSoldOutAt(curve)).toBe('2026-02-18T13:00:00.000Z')
+    })
+  })
+})
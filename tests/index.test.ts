@@ -1,6 +1,22 @@
-import { describe, it, expect } from 'vitest'
-import { createNotifiers } from '../src/index'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  createNotifiers,
+  describeStateRecovery,
+  reloadConfigFile,
+  scrapeVenues,
+  sendWarning,
+} from '../src/index'
 import type { Config } from '../src/config'
+import type { Notifier } from '../src/notifiers/interface'
+import { SlackNotifier } from '../src/notifiers/slack'
+import { SlackBotNotifier } from '../src/notifiers/slack-bot'
+import { EmailNotifier } from '../src/notifiers/email'
+import { SmsNotifier } from '../src/notifiers/sms'
+import { PushNotifier } from '../src/notifiers/push'
+import { WebhookNotifier } from '../src/notifiers/webhook'
+import { DiscordNotifier } from '../src/notifiers/discord'
+import { DashClient } from '../src/dash-client'
+import { DEFAULT_VENUE } from '../src/venue'
 
 describe('index', () => {
   const createConfig = (overrides: Partial<Config> = {}): Config => ({
@@ -13,6 +29,13 @@ describe('index', () => {
     playerSpotsAlert: 10,
     playerSpotsUrgent: 4,
     slackWebhookUrl: undefined,
+    emailTo: [],
+    twilioToNumbers: [],
+    twilioApiUrl: 'https://api.twilio.com',
+    smsAlertTypes: ['FILLING_FAST', 'NEWLY_AVAILABLE'],
+    pushoverApiUrl: 'https://api.pushover.net',
+    ntfyUrl: 'https://ntfy.sh',
+    webhookUrls: [],
     ...overrides,
   })
 
@@ -41,6 +64,93 @@ describe('index', () => {
       expect(notifiers[1].isConfigured()).toBe(true)
     })
 
+    it('prefers the bot-token notifier over the webhook when a channel is set', () => {
+      const config = createConfig({
+        slackWebhookUrl: 'https://hooks.slack.com/test',
+        slackBotToken: 'xoxb-test',
+        slackChannel: 'C123',
+      })
+
+      const notifiers = createNotifiers(config)
+
+      expect(notifiers).toHaveLength(2)
+      expect(notifiers[1]).toBeInstanceOf(SlackBotNotifier)
+    })
+
+    it('falls back to the webhook when the bot token has nowhere to post', () => {
+      const config = createConfig({
+        slackWebhookUrl: 'https://hooks.slack.com/test',
+        slackBotToken: 'xoxb-test',
+      })
+
+      const notifiers = createNotifiers(config)
+
+      expect(notifiers).toHaveLength(2)
+      expect(notifiers[1]).toBeInstanceOf(SlackNotifier)
+    })
+
+    it('adds an email notifier when recipients and a transport are configured', () => {
+      const config = createConfig({
+        emailTo: ['skater@example.com'],
+        emailFrom: 'Hockey Agent <agent@example.com>',
+        smtpUrl: 'smtp://localhost:2525',
+      })
+
+      const notifiers = createNotifiers(config)
+
+      expect(notifiers).toHaveLength(2)
+      expect(notifiers[1]).toBeInstanceOf(EmailNotifier)
+    })
+
+    it('adds an SMS notifier when Twilio is configured', () => {
+      const config = createConfig({
+        twilioAccountSid: 'AC' + '0'.repeat(32),
+        twilioAuthToken: 'secret',
+        twilioFromNumber: '+15555550199',
+        twilioToNumbers: ['+15555550100'],
+      })
+
+      const notifiers = createNotifiers(config)
+
+      expect(notifiers).toHaveLength(2)
+      expect(notifiers[1]).toBeInstanceOf(SmsNotifier)
+    })
+
+    it('adds a push notifier per configured provider', () => {
+      const config = createConfig({
+        pushoverAppToken: 'app-token',
+        pushoverUserKey: 'user-key',
+        ntfyTopic: 'hockey-alerts',
+      })
+
+      const notifiers = createNotifiers(config)
+
+      expect(notifiers).toHaveLength(3)
+      expect(notifiers[1]).toBeInstanceOf(PushNotifier)
+      expect(notifiers.slice(1).map((n) => n.name)).toEqual(['Pushover', 'ntfy'])
+    })
+
+    it('adds a webhook notifier when URLs and a secret are configured', () => {
+      const config = createConfig({
+        webhookUrls: ['https://example.com/hook'],
+        webhookSecret: 'secret',
+      })
+
+      const notifiers = createNotifiers(config)
+
+      expect(notifiers).toHaveLength(2)
+      expect(notifiers[1]).toBeInstanceOf(WebhookNotifier)
+    })
+
+    it('adds a Discord notifier when a webhook URL is configured', () => {
+      const config = createConfig({ discordWebhookUrl: 'https://discord.com/api/webhooks/1/x' })
+
+      const notifiers = createNotifiers(config)
+
+      expect(notifiers).toHaveLength(2)
+      expect(notifiers[1]).toBeInstanceOf(DiscordNotifier)
+    })
+
     it('filters out unconfigured slack notifier', () => {
       const config = createConfig({
         slackWebhookUrl: '', // Empty = not configured
@@ -69,6 +179,155 @@ describe('index', () => {
     })
   })
 
+  describe('sendWarning', () => {
+    const createNotifier = (overrides: Partial<Notifier> = {}): Notifier => ({
+      name: 'Test',
+      send: vi.fn(),
+      isConfigured: () => true,
+      ...overrides,
+    })
+
+    it('sends through every notifier that supports warnings', async () => {
+      const first = createNotifier({ sendWarning: vi.fn() })
+      const withoutWarnings = createNotifier()
+      const second = createNotifier({ sendWarning: vi.fn() })
+
+      await sendWarning([first, withoutWarnings, second], 'State restored')
+
+      expect(first.sendWarning).toHaveBeenCalledWith('State restored')
+      expect(second.sendWarning).toHaveBeenCalledWith('State restored')
+    })
+
+    it('keeps going when a notifier fails', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const failing = createNotifier({
+        name: 'Failing',
+        sendWarning: vi.fn().mockRejectedValue(new Error('down')),
+      })
+      const working = createNotifier({ sendWarning: vi.fn() })
+
+      await sendWarning([failing, working], 'State restored')
+
+      expect(working.sendWarning).toHaveBeenCalled()
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Failed to send warning via Failing:',
+        expect.any(Error)
+      )
+      errorSpy.mockRestore()
+    })
+  })
+
+  describe('describeStateRecovery', () => {
+    it('names the quarantined file and the backup used', () => {
+      const message = describeStateRecovery({
+        error: 'Unexpected end of JSON input',
+        quarantinedPath: 'data/state.json.corrupt-2026-02-18T12-00-00-000Z',
+        restoredFrom: 'data/state.json.1.bak',
+        sessionCount: 4,
+      })
+
+      expect(message).toContain('data/state.json.corrupt-2026-02-18T12-00-00-000Z')
+      expect(message).toContain('Restored 4 sessions from backup data/state.json.1.bak')
+    })
+
+    it('warns about repeat alerts when nothing could be restored', () => {
+      const message = describeStateRecovery({
+        error: 'Unexpected end of JSON input',
+        quarantinedPath: 'data/state.json.corrupt-2026-02-18T12-00-00-000Z',
+        restoredFrom: null,
+        sessionCount: 0,
+      })
+
+      expect(message).toContain('No usable backup')
+      expect(message).toContain('Alerts may repeat')
+    })
+  })
+
+  describe('reloadConfigFile', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    const fail = (): never => {
+      throw new Error('Invalid route at index 0')
+    }
+
+    it('returns the freshly loaded value', () => {
+      expect(reloadConfigFile('routes-fresh.json', () => ['v1'], [])).toEqual(['v1'])
+      expect(reloadConfigFile('routes-fresh.json', () => ['v2'], [])).toEqual(['v2'])
+    })
+
+    it('keeps the last valid version and warns once when the file breaks', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const warnings: string[] = []
+      reloadConfigFile('routes-broken.json', () => ['v1'], warnings)
+
+      expect(reloadConfigFile('routes-broken.json', fail, warnings)).toEqual(['v1'])
+      expect(reloadConfigFile('routes-broken.json', fail, warnings)).toEqual(['v1'])
+
+      expect(warnings).toHaveLength(1)
+      expect(warnings[0]).toContain('Failed to reload routes-broken.json: Invalid route at index 0')
+    })
+
+    it('warns again after the file was fixed and broke again', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const warnings: string[] = []
+      reloadConfigFile('routes-flaky.json', () => ['v1'], warnings)
+
+      reloadConfigFile('routes-flaky.json', fail, warnings)
+      reloadConfigFile('routes-flaky.json', () => ['v2'], warnings)
+
+      expect(reloadConfigFile('routes-flaky.json', fail, warnings)).toEqual(['v2'])
+      expect(warnings).toHaveLength(2)
+    })
+
+    it('throws when no version has loaded yet', () => {
+      expect(() => reloadConfigFile('routes-never.json', fail, [])).toThrow(
+        'Invalid route at index 0'
+      )
+    })
+  })
+
+  describe('scrapeVenues', () => {
+    const other = { ...DEFAULT_VENUE, id: 'other', name: 'Other Rink', company: 'otherrink' }
+    const originalFetch = global.fetch
+
+    afterEach(() => {
+      global.fetch = originalFetch
+      vi.restoreAllMocks()
+    })
+
+    // DASH answers for extremeice with no events and fails for otherrink
+    const stubDash = () => {
+      global.fetch = vi.fn(async (url: string) =>
+        url.includes('company=otherrink')
+          ? ({ ok: false, status: 404, statusText: 'Not Found' } as Response)
+          : ({ ok: true, json: async () => ({ data: [] }) } as Response)
+      ) as any
+    }
+
+    it('skips a venue that fails and keeps polling the others', async () => {
+      stubDash()
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const sessions = await scrapeVenues([other, DEFAULT_VENUE], 7, new DashClient())
+
+      expect(sessions).toEqual([])
+      expect(global.fetch).toHaveBeenCalledTimes(2)
+      expect(errorSpy).toHaveBeenCalledWith(
+        'Failed to scrape Other Rink:',
+        'Failed to fetch date-availabilities: 404 Not Found'
+      )
+    })
+
+    it('fails when every venue fails', async () => {
+      stubDash()
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      await expect(scrapeVenues([other], 7, new DashClient())).rejects.toThrow('404 Not Found')
+    })
+  })
+
   describe('poll function exists', () => {
     it('exports poll function', async () => {
       const { poll } = await import('../src/index')
@@ -7,6 +7,7 @@ import {
   processInteraction,
 } from '../../src/interactions/actions'
 import { loadState, saveState } from '../../src/state'
+import { JsonStateStore } from '../../src/stores/json'
 import type { SessionState } from '../../src/evaluator'
 import type { Session } from '../../src/parser'
 import registeredFixture from '../fixtures/slack-interaction-registered.json'
@@ -56,6 +57,29 @@ describe('parseInteractionPayload', () => {
     expect(result!.responseUrl).toBe('https://hooks.slack.com/actions/T00/B00/test')
   })
 
+  it('parses the clicking user id', () => {
+    expect(parseInteractionPayload(registeredFixture)!.userId).toBe('U12345')
+  })
+
+  it('returns a null userId when the payload has no user', () => {
+    const { user: _user, ...payload } = registeredFixture
+
+    expect(parseInteractionPayload(payload)!.userId).toBeNull()
+  })
+
+  it('parses the block id of the clicked button', () => {
+    expect(parseInteractionPayload(registeredFixture)!.blockId).toBe('actions_block')
+  })
+
+  it('parses the blocks of the clicked message', () => {
+    const blocks = [{ type: 'actions', block_id: 'actions_block', elements: [] }]
+
+    expect(parseInteractionPayload(registeredFixture)!.messageBlocks).toBeNull()
+    expect(
+      parseInteractionPayload({ ...registeredFixture, message: { blocks } })!.messageBlocks
+    ).toEqual(blocks)
+  })
+
   it('parses dismissed action payload', () => {
     const result = parseInteractionPayload(dismissedFixture)
 
@@ -125,6 +149,36 @@ describe('parseActionValue', () => {
     expect(parseActionValue('2026-02-20|05:50')).toBeNull()
   })
 
+  it('parses a leading session id', () => {
+    expect(parseActionValue('extremeice:101:102|2026-02-20|05:50|(PLAYERS) ADULT Pick Up')).toEqual(
+      {
+        id: 'extremeice:101:102',
+        date: '2026-02-20',
+        time: '05:50',
+        eventName: '(PLAYERS) ADULT Pick Up',
+      }
+    )
+  })
+
+  it('parses a leading venue for sessions without event ids', () => {
+    expect(parseActionValue('venue=otherrink|2026-02-20|05:50|Name')).toEqual({
+      venue: 'otherrink',
+      date: '2026-02-20',
+      time: '05:50',
+      eventName: 'Name',
+    })
+    expect(parseActionValue('venue=|2026-02-20|05:50|Name')).toBeNull()
+  })
+
+  it('leaves the id out of values posted before sessions had ids', () => {
+    expect(parseActionValue('2026-02-20|05:50|Name')).not.toHaveProperty('id')
+  })
+
+  it('returns null for an id without the rest', () => {
+    expect(parseActionValue('extremeice:101:102|2026-02-20|05:50')).toBeNull()
+    expect(parseActionValue('|2026-02-20|05:50|Name')).toBeNull()
+  })
+
   it('returns null for empty string', () => {
     expect(parseActionValue('')).toBeNull()
   })
@@ -138,16 +192,15 @@ describe('processInteraction', () => {
   })
 
   afterEach(() => {
-    if (fs.existsSync(testStatePath)) {
-      fs.unlinkSync(testStatePath)
-    }
+    // Remove the state file and the rotating backups written by saveState
+    fs.rmSync(testDataDir, { recursive: true, force: true })
   })
 
   it('processes session_registered and updates state', () => {
     const session = createSession()
     saveState(testStatePath, [createState(session)])
 
-    const result = processInteraction(testStatePath, registeredFixture, 2)
+    const result = processInteraction(new JsonStateStore(testStatePath), registeredFixture, 2)
 
     expect(result).not.toBeNull()
     expect(result!.userResponse).toBe('registered')
@@ -162,11 +215,21 @@ describe('processInteraction', () => {
     expect(state[0].remindAfter).toBeNull()
   })
 
+  it('records the response for the clicking user', () => {
+    saveState(testStatePath, [createState(createSession())])
+
+    const result = processInteraction(new JsonStateStore(testStatePath), dismissedFixture, 2)
+
+    expect(result!.userId).toBe('U12345')
+    const state = loadState(testStatePath)
+    expect(state[0].subscribers!.U12345.userResponse).toBe('not_interested')
+  })
+
   it('processes session_not_interested and updates state', () => {
     const session = createSession()
     saveState(testStatePath, [createState(session)])
 
-    const result = processInteraction(testStatePath, dismissedFixture, 2)
+    const result = processInteraction(new JsonStateStore(testStatePath), dismissedFixture, 2)
 
     expect(result).not.toBeNull()
     expect(result!.userResponse).toBe('not_interested')
@@ -182,7 +245,7 @@ describe('processInteraction', () => {
     saveState(testStatePath, [createState(session)])
 
     const before = Date.now()
-    const result = processInteraction(testStatePath, remindFixture, 2)
+    const result = processInteraction(new JsonStateStore(testStatePath), remindFixture, 2)
     const after = Date.now()
 
     expect(result).not.toBeNull()
@@ -203,7 +266,7 @@ describe('processInteraction', () => {
     const session = createSession({ time: '18:30' })
     saveState(testStatePath, [createState(session)])
 
-    const result = processInteraction(testStatePath, registeredFixture, 2)
+    const result = processInteraction(new JsonStateStore(testStatePath), registeredFixture, 2)
 
     expect(result).not.toBeNull()
     expect(result!.found).toBe(false)
@@ -213,8 +276,36 @@ describe('processInteraction', () => {
     expect(state[0].userResponse).toBeNull()
   })
 
+  it('finds the session by id when the button carries one', () => {
+    // Two rinks at the same date and time - only the clicked one is updated
+    const here = createSession({ venue: 'a', playersEventId: '101', goaliesEventId: '102' })
+    const there = createSession({ venue: 'a', playersEventId: '201', goaliesEventId: '202' })
+    saveState(testStatePath, [createState(here), createState(there)])
+    const payload = structuredClone(registeredFixture)
+    payload.actions[0].value = `a:201:202|2026-02-20|05:50|${there.eventName}`
+
+    const result = processInteraction(new JsonStateStore(testStatePath), payload, 2)
+
+    expect(result!.found).toBe(true)
+    const state = loadState(testStatePath)
+    expect(state[0].userResponse).toBeNull()
+    expect(state[1].userResponse).toBe('registered')
+  })
+
+  it('finds a rescheduled session by id', () => {
+    const session = createSession({ time: '06:15', playersEventId: '101', goaliesEventId: '102' })
+    saveState(testStatePath, [createState(session)])
+    const payload = structuredClone(registeredFixture)
+    payload.actions[0].value = `:101:102|2026-02-20|05:50|${session.eventName}`
+
+    const result = processInteraction(new JsonStateStore(testStatePath), payload, 2)
+
+    expect(result!.found).toBe(true)
+    expect(loadState(testStatePath)[0].userResponse).toBe('registered')
+  })
+
   it('returns null for invalid payload', () => {
-    const result = processInteraction(testStatePath, { type: 'invalid' }, 2)
+    const result = processInteraction(new JsonStateStore(testStatePath), { type: 'invalid' }, 2)
 
     expect(result).toBeNull()
   })
@@ -226,7 +317,7 @@ describe('processInteraction', () => {
       response_url: 'https://hooks.slack.com/test',
     }
 
-    const result = processInteraction(testStatePath, payload, 2)
+    const result = processInteraction(new JsonStateStore(testStatePath), payload, 2)
 
     expect(result).toBeNull()
   })
@@ -235,7 +326,7 @@ describe('processInteraction', () => {
     const session = createSession()
     saveState(testStatePath, [createState(session)])
 
-    const result = processInteraction(testStatePath, registeredFixture, 2)
+    const result = processInteraction(new JsonStateStore(testStatePath), registeredFixture, 2)
 
     expect(result!.responseUrl).toBe('https://hooks.slack.com/actions/T00/B00/test')
   })
@@ -245,7 +336,7 @@ describe('processInteraction', () => {
     saveState(testStatePath, [createState(session)])
 
     const before = Date.now()
-    processInteraction(testStatePath, remindFixture, 4) // 4 hours
+    processInteraction(new JsonStateStore(testStatePath), remindFixture, 4) // 4 hours
     const after = Date.now()
 
     const state = loadState(testStatePath)
@@ -1,7 +1,12 @@
 import { describe, it, expect, afterEach } from 'vitest'
 import crypto from 'crypto'
+import * as fs from 'fs'
 import type { Server } from 'http'
 import { createServer } from '../../src/server'
+import { createStateStore } from '../../src/stores/factory'
+import { saveState } from '../../src/state'
+import type { Session } from '../../src/parser'
+import { FakeSlackApi } from '../helpers/fake-slack-api'
 import registeredFixture from '../fixtures/slack-interaction-registered.json'
 import dismissedFixture from '../fixtures/slack-interaction-dismissed.json'
 import remindFixture from '../fixtures/slack-interaction-remind.json'
@@ -32,7 +37,7 @@ describe('POST /slack/interactions', () => {
 
   async function startTestServer(): Promise<void> {
     const app = createServer({
-      statePath: './data/test-state.json',
+      store: createStateStore('json', './data/test-state.json'),
       slackSigningSecret: SIGNING_SECRET,
     })
     return new Promise((resolve) => {
@@ -170,8 +175,84 @@ describe('POST /slack/interactions', () => {
     expect(response.status).toBe(400)
   })
 
+  it('replaces the original alert with a status line and no buttons', async () => {
+    const statePath = './data/test-handler/state.json'
+    const session: Session = {
+      date: '2026-02-20',
+      dayOfWeek: 'Friday',
+      time: '05:50',
+      timeLabel: '5:50am - 7:00am',
+      eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+      playersRegistered: 14,
+      playersMax: 24,
+      goaliesRegistered: 2,
+      goaliesMax: 3,
+      isFull: false,
+      price: 15,
+    }
+    saveState(statePath, [
+      {
+        session,
+        lastAlertType: 'OPPORTUNITY',
+        lastAlertAt: null,
+        lastPlayerCount: 14,
+        isRegistered: false,
+        userResponse: null,
+        userRespondedAt: null,
+        remindAfter: null,
+      },
+    ])
+
+    const slack = new FakeSlackApi()
+    await slack.start()
+
+    try {
+      const app = createServer({
+        store: createStateStore('json', statePath),
+        slackSigningSecret: SIGNING_SECRET,
+      })
+      await new Promise<void>((resolve) => {
+        server = app.listen(TEST_PORT, () => resolve())
+      })
+
+      const payload = {
+        ...registeredFixture,
+        response_url: `${slack.url}/response`,
+        message: {
+          blocks: [
+            { type: 'header', text: { type: 'plain_text', text: '🏒 OPPORTUNITY' } },
+            { type: 'actions', block_id: 'actions_block', elements: [] },
+          ],
+        },
+      }
+      const body = `payload=${encodeURIComponent(JSON.stringify(payload))}`
+      const { signature, timestamp } = signRequest(SIGNING_SECRET, body)
+
+      await fetch(`http://localhost:${TEST_PORT}/slack/interactions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'x-slack-signature': signature,
+          'x-slack-request-timestamp': timestamp,
+        },
+        body,
+      })
+
+      await expect.poll(() => slack.calls.length).toBe(2)
+      const replacement = slack.calls.find((c) => c.body.replace_original === true)!
+      expect(replacement.body.blocks).toEqual([
+        payload.message.blocks[0],
+        { type: 'context', elements: [{ type: 'mrkdwn', text: expect.any(String) }] },
+      ])
+      expect(replacement.body.text).toContain('Marked registered by <@U12345>')
+    } finally {
+      await slack.stop()
+      fs.rmSync('./data/test-handler', { recursive: true, force: true })
+    }
+  })
+
   it('returns 404 when interactions route is not configured (no signing secret)', async () => {
-    const app = createServer({ statePath: './data/test-state.json' })
+    const app = createServer({ store: createStateStore('json', './data/test-state.json') })
     await new Promise<void>((resolve) => {
       server = app.listen(TEST_PORT, () => resolve())
     })
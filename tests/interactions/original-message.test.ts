@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  buildResolvedBlocks,
+  buildStatusText,
+  replaceOriginalMessage,
+} from '../../src/interactions/original-message'
+import type { ActionResult } from '../../src/interactions/actions'
+
+describe('buildStatusText', () => {
+  const baseResult: Omit<ActionResult, 'userResponse'> = {
+    date: '2026-02-20',
+    time: '06:00',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    found: true,
+    responseUrl: 'https://hooks.slack.com/actions/test',
+    userId: 'U12345',
+    messageBlocks: null,
+  }
+
+  // 3:14pm ET
+  const now = new Date('2026-02-19T20:14:00Z')
+  const slackTime = `<!date^${now.getTime() / 1000}^{time}|3:14pm ET>`
+
+  it('names who registered and when', () => {
+    const text = buildStatusText({ ...baseResult, userResponse: 'registered' }, 2, now)
+
+    expect(text).toBe(`✅ Marked registered by <@U12345> at ${slackTime}`)
+  })
+
+  it('describes dismissals and snoozes', () => {
+    expect(buildStatusText({ ...baseResult, userResponse: 'not_interested' }, 2, now)).toBe(
+      `❌ Dismissed by <@U12345> at ${slackTime}`
+    )
+    expect(buildStatusText({ ...baseResult, userResponse: 'remind_later' }, 3, now)).toBe(
+      `⏰ Snoozed by <@U12345> at ${slackTime} for 3 hours`
+    )
+  })
+
+  it('omits the user when the payload had none', () => {
+    const text = buildStatusText(
+      { ...baseResult, userId: null, userResponse: 'registered' },
+      2,
+      now
+    )
+
+    expect(text).toBe(`✅ Marked registered at ${slackTime}`)
+  })
+})
+
+describe('buildResolvedBlocks', () => {
+  const blocks = [
+    { type: 'header', text: { type: 'plain_text', text: '🏒 OPPORTUNITY' } },
+    { type: 'section', text: { type: 'mrkdwn', text: '*Friday, Feb 20* at *6:00am*' } },
+    { type: 'actions', block_id: 'actions_block', elements: [] },
+  ]
+
+  it('removes the action buttons and appends the status line', () => {
+    const resolved = buildResolvedBlocks(blocks, '✅ Marked registered')
+
+    expect(resolved).toEqual([
+      blocks[0],
+      blocks[1],
+      { type: 'context', elements: [{ type: 'mrkdwn', text: '✅ Marked registered' }] },
+    ])
+  })
+
+  it('keeps the buttons for shared alerts', () => {
+    const resolved = buildResolvedBlocks(blocks, '❌ Dismissed by <@U1>', true)
+
+    expect(resolved).toHaveLength(4)
+    expect(resolved[2]).toBe(blocks[2])
+  })
+
+  it('resolves only the clicked session of a digest, with the status under it', () => {
+    const digest = [
+      { type: 'header', text: { type: 'plain_text', text: '🏒 2 session alerts' } },
+      { type: 'divider' },
+      { type: 'section', text: { type: 'mrkdwn', text: '*Friday, Feb 20* at *6:00am*' } },
+      { type: 'actions', block_id: 'actions_2026-02-20_06:00', elements: [] },
+      { type: 'divider' },
+      { type: 'section', text: { type: 'mrkdwn', text: '*Saturday, Feb 21* at *6:00am*' } },
+      { type: 'actions', block_id: 'actions_2026-02-21_06:00', elements: [] },
+    ]
+    const status = { type: 'context', elements: [{ type: 'mrkdwn', text: '✅ Marked registered' }] }
+
+    const resolved = buildResolvedBlocks(
+      digest,
+      '✅ Marked registered',
+      false,
+      'actions_2026-02-20_06:00'
+    )
+
+    expect(resolved).toEqual([...digest.slice(0, 3), status, ...digest.slice(4)])
+  })
+
+  it('keeps earlier status lines', () => {
+    const first = buildResolvedBlocks(blocks, '❌ Dismissed by <@U1>', true)
+    const second = buildResolvedBlocks(first, '✅ Marked registered by <@U2>', true)
+
+    expect(second.slice(3).map((b) => (b.elements as Array<{ text: string }>)[0].text)).toEqual([
+      '❌ Dismissed by <@U1>',
+      '✅ Marked registered by <@U2>',
+    ])
+  })
+})
+
+describe('replaceOriginalMessage', () => {
+  const originalFetch = global.fetch
+
+  beforeEach(() => {
+    global.fetch = vi.fn()
+  })
+
+  afterEach(() => {
+    global.fetch = originalFetch
+  })
+
+  it('POSTs replace_original with the new blocks to response_url', async () => {
+    ;(global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({ ok: true })
+    const blocks = [{ type: 'context', elements: [{ type: 'mrkdwn', text: 'Done' }] }]
+
+    await replaceOriginalMessage('https://hooks.slack.com/actions/test', blocks, 'Done')
+
+    expect(global.fetch).toHaveBeenCalledWith('https://hooks.slack.com/actions/test', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ replace_original: true, text: 'Done', blocks }),
+    })
+  })
+
+  it('retries once after failure then throws', async () => {
+    vi.useFakeTimers()
+    const mockFetch = global.fetch as ReturnType<typeof vi.fn>
+    mockFetch.mockResolvedValue({ ok: false, status: 404 })
+
+    const promise = replaceOriginalMessage('https://hooks.slack.com/actions/test', [], 'Done')
+    const assertion = expect(promise).rejects.toThrow('Message update POST failed: 404')
+    await vi.advanceTimersByTimeAsync(2000)
+    await assertion
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    vi.useRealTimers()
+  })
+})
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import { cardsToRefresh } from '../src/live-cards'
+import type { Alert, SessionState, SlackMessageRef } from '../src/evaluator'
+import type { SessionSnapshot } from '../src/history'
+import type { Session } from '../src/parser'
+
+describe('cardsToRefresh', () => {
+  const now = new Date('2026-02-19T12:00:00Z')
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-20',
+    dayOfWeek: 'Friday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 14,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const card: SlackMessageRef = {
+    channel: 'C123',
+    ts: '1700000000.000100',
+    recipient: 'C123',
+    alertType: 'FILLING_FAST',
+    postedAt: '2026-02-19T10:00:00.000Z',
+  }
+
+  const createState = (overrides: Partial<SessionState> = {}): SessionState => ({
+    session: createSession(),
+    lastAlertType: 'FILLING_FAST',
+    lastAlertAt: '2026-02-19T10:00:00.000Z',
+    lastPlayerCount: 14,
+    isRegistered: false,
+    userResponse: null,
+    userRespondedAt: null,
+    remindAfter: null,
+    slackMessages: [card],
+    ...overrides,
+  })
+
+  it('refreshes a posted card with current counts, keeping its alert type', () => {
+    const session = createSession({ playersRegistered: 16 })
+
+    const refreshes = cardsToRefresh([session], [createState()], [], now)
+
+    expect(refreshes).toHaveLength(1)
+    expect(refreshes[0].type).toBe('FILLING_FAST')
+    expect(refreshes[0].session).toBe(session)
+    expect(refreshes[0].message).toContain('16/24')
+    expect(refreshes[0].registrationUrl).toContain('date=2026-02-20')
+  })
+
+  it('renders the template the card was posted with', () => {
+    const state = createState({
+      slackMessages: [{ ...card, template: 'Custom: {playersRegistered}/{playersMax} skaters' }],
+    })
+
+    const refreshes = cardsToRefresh([createSession({ playersRegistered: 16 })], [state], [], now)
+
+    expect(refreshes[0].message).toBe('Custom: 16/24 skaters')
+    expect(refreshes[0].template).toBe('Custom: {playersRegistered}/{playersMax} skaters')
+  })
+
+  it('skips cards recorded without a recipient', () => {
+    const legacy: SlackMessageRef = { ...card }
+    delete legacy.recipient
+    const state = createState({ slackMessages: [legacy] })
+
+    expect(cardsToRefresh([createSession({ playersRegistered: 16 })], [state], [], now)).toEqual([])
+  })
+
+  it('carries a fresh sell-out forecast', () => {
+    const snapshot = (hoursAgo: number, playersRegistered: number): SessionSnapshot => ({
+      date: '2026-02-20',
+      time: '06:00',
+      dayOfWeek: 'Friday',
+      recordedAt: new Date(now.getTime() - hoursAgo * 60 * 60 * 1000).toISOString(),
+      playersRegistered,
+      playersMax: 24,
+      goaliesRegistered: 2,
+      goaliesMax: 3,
+    })
+    const history = [snapshot(4, 8), snapshot(2, 12), snapshot(0, 16)]
+
+    const [refresh] = cardsToRefresh(
+      [createSession({ playersRegistered: 16 })],
+      [createState()],
+      [],
+      now,
+      undefined,
+      history
+    )
+
+    expect(refresh.forecast?.playersPerHour).toBe(2)
+    expect(refresh.message).toContain('Projected to sell out ~')
+  })
+
+  it('skips sessions whose counts did not change', () => {
+    expect(cardsToRefresh([createSession()], [createState()], [], now)).toEqual([])
+  })
+
+  it('skips sessions without a posted card', () => {
+    const state = createState({ slackMessages: undefined })
+
+    expect(cardsToRefresh([createSession({ playersRegistered: 16 })], [state], [], now)).toEqual([])
+  })
+
+  it('skips sessions that got an alert this poll', () => {
+    const session = createSession({ playersRegistered: 16 })
+    const alert = { type: 'FILLING_FAST', session } as Alert
+
+    expect(cardsToRefresh([session], [createState()], [alert], now)).toEqual([])
+  })
+
+  it('leaves cards someone responded to after they were posted', () => {
+    const state = createState({
+      userResponse: 'registered',
+      userRespondedAt: '2026-02-19T11:00:00.000Z',
+    })
+
+    expect(cardsToRefresh([createSession({ playersRegistered: 16 })], [state], [], now)).toEqual([])
+  })
+
+  it('skips past sessions', () => {
+    const later = new Date('2026-02-21T12:00:00Z')
+
+    expect(
+      cardsToRefresh([createSession({ playersRegistered: 16 })], [createState()], [], later)
+    ).toEqual([])
+  })
+
+  it("judges past sessions in the venue's time zone", () => {
+    const afterEasternStart = new Date('2026-02-20T12:00:00Z')
+    const pacific = createSession({ playersRegistered: 16, timezone: 'America/Los_Angeles' })
+
+    expect(cardsToRefresh([pacific], [createState()], [], afterEasternStart)).toHaveLength(1)
+    expect(
+      cardsToRefresh(
+        [createSession({ playersRegistered: 16 })],
+        [createState()],
+        [],
+        afterEasternStart
+      )
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { spawn, spawnSync } from 'child_process'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { reclaimStaleLock, withFileLock } from '../src/lock'
+import { loadState, saveState, updateStateFile } from '../src/state'
+import type { SessionState } from '../src/evaluator'
+import type { Session } from '../src/parser'
+
+describe('lock', () => {
+  const testDataDir = path.join(__dirname, '../data/test-lock')
+  const statePath = path.join(testDataDir, 'state.json')
+  const lockPath = `${statePath}.lock`
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-20',
+    dayOfWeek: 'Friday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 14,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const createState = (session: Session): SessionState => ({
+    session,
+    lastAlertType: null,
+    lastAlertAt: null,
+    lastPlayerCount: null,
+    isRegistered: false,
+    userResponse: null,
+    userRespondedAt: null,
+    remindAfter: null,
+  })
+
+  const writeForeignLock = (pid: number): void => {
+    fs.writeFileSync(
+      lockPath,
+      JSON.stringify({
+        pid,
+        hostname: os.hostname(),
+        token: 'someone-else',
+        acquiredAt: new Date().toISOString(),
+      })
+    )
+  }
+
+  beforeEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+    fs.mkdirSync(testDataDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+  })
+
+  describe('withFileLock', () => {
+    it('holds the lock file while fn runs and removes it afterwards', () => {
+      const result = withFileLock(statePath, () => {
+        expect(fs.existsSync(lockPath)).toBe(true)
+        return 42
+      })
+
+      expect(result).toBe(42)
+      expect(fs.existsSync(lockPath)).toBe(false)
+    })
+
+    it('releases the lock when fn throws', () => {
+      expect(() =>
+        withFileLock(statePath, () => {
+          throw new Error('boom')
+        })
+      ).toThrow('boom')
+
+      expect(fs.existsSync(lockPath)).toBe(false)
+    })
+
+    it('creates the parent directory for the lock file', () => {
+      const nestedPath = path.join(testDataDir, 'nested', 'state.json')
+
+      withFileLock(nestedPath, () => undefined)
+
+      expect(fs.existsSync(path.dirname(nestedPath))).toBe(true)
+    })
+
+    it('times out while another live process holds the lock', () => {
+      writeForeignLock(process.pid)
+
+      expect(() => withFileLock(statePath, () => undefined, { timeoutMs: 100 })).toThrow(
+        /Timed out waiting for lock/
+      )
+      // The other holder's lock is left alone
+      expect(JSON.parse(fs.readFileSync(lockPath, 'utf-8')).token).toBe('someone-else')
+    })
+
+    it('reclaims a lock left by a process that no longer exists', () => {
+      const deadPid = spawnSync(process.execPath, ['-e', '']).pid!
+      writeForeignLock(deadPid)
+
+      const result = withFileLock(statePath, () => 'acquired', { timeoutMs: 100 })
+
+      expect(result).toBe('acquired')
+    })
+
+    it('reclaims a lock held longer than staleMs', () => {
+      writeForeignLock(process.pid)
+      const old = new Date(Date.now() - 60_000)
+      fs.utimesSync(lockPath, old, old)
+
+      const result = withFileLock(statePath, () => 'acquired', {
+        timeoutMs: 100,
+        staleMs: 30_000,
+      })
+
+      expect(result).toBe('acquired')
+    })
+  })
+
+  describe('reclaimStaleLock', () => {
+    const makeStale = (): fs.Stats => {
+      writeForeignLock(process.pid)
+      const old = new Date(Date.now() - 60_000)
+      fs.utimesSync(lockPath, old, old)
+      return fs.statSync(lockPath)
+    }
+
+    it('removes the lock it judged stale', () => {
+      const stale = makeStale()
+
+      reclaimStaleLock(lockPath, stale)
+
+      expect(fs.readdirSync(testDataDir)).toEqual([])
+    })
+
+    it('puts back a live lock taken after another waiter reclaimed the stale one', () => {
+      const stale = makeStale()
+      // Another waiter removes the stale lock and a live process takes it
+      fs.unlinkSync(lockPath)
+      writeForeignLock(process.pid)
+
+      reclaimStaleLock(lockPath, stale)
+
+      expect(JSON.parse(fs.readFileSync(lockPath, 'utf-8')).token).toBe('someone-else')
+      expect(fs.readdirSync(testDataDir)).toEqual(['state.json.lock'])
+    })
+
+    it('does nothing once the lock is gone', () => {
+      const stale = makeStale()
+      fs.unlinkSync(lockPath)
+
+      reclaimStaleLock(lockPath, stale)
+
+      expect(fs.readdirSync(testDataDir)).toEqual([])
+    })
+  })
+
+  describe('interleaved writers', () => {
+    // A second process following the same lock protocol: takes the lock, waits,
+    // marks the session registered, then releases.
+    const otherWriterScript = `
+      const fs = require('fs')
+      const os = require('os')
+      const [statePath, lockPath] = process.argv.slice(1)
+      fs.writeFileSync(lockPath, JSON.stringify({
+        pid: process.pid, hostname: os.hostname(), token: 'child', acquiredAt: new Date().toISOString(),
+      }), { flag: 'wx' })
+      process.stdout.write('locked\\n')
+      setTimeout(() => {
+        const state = JSON.parse(fs.readFileSync(statePath, 'utf-8'))
+        state.sessions[0].isRegistered = true
+        state.sessions[0].userResponse = 'registered'
+        fs.writeFileSync(statePath, JSON.stringify(state))
+        fs.unlinkSync(lockPath)
+      }, 300)
+    `
+
+    it('waits for the other writer and applies its change on top', async () => {
+      saveState(statePath, [createState(createSession())])
+
+      const child = spawn(process.execPath, ['-e', otherWriterScript, statePath, lockPath])
+      const exited = new Promise((resolve) => child.on('exit', resolve))
+      await new Promise<void>((resolve) => child.stdout.once('data', () => resolve()))
+
+      // Poll cycle writes while the interaction writer holds the lock
+      updateStateFile(statePath, (state) =>
+        state.map((s) => ({ ...s, lastAlertType: 'FILLING_FAST' as const }))
+      )
+      await exited
+
+      const [entry] = loadState(statePath)
+      expect(entry.isRegistered).toBe(true)
+      expect(entry.userResponse).toBe('registered')
+      expect(entry.lastAlertType).toBe('FILLING_FAST')
+    })
+
+    it('serializes repeated updates from one process', () => {
+      saveState(statePath, [createState(createSession({ playersRegistered: 0 }))])
+
+      for (let i = 0; i < 20; i++) {
+        updateStateFile(statePath, (state) =>
+          state.map((s) => ({
+            ...s,
+            session: { ...s.session, playersRegistered: s.session.playersRegistered + 1 },
+          }))
+        )
+      }
+
+      expect(loadState(statePath)[0].session.playersRegistered).toBe(20)
+      expect(fs.existsSync(lockPath)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CURRENT_STATE_VERSION,
+  STATE_MIGRATIONS,
+  migrateState,
+  migrationBackupPath,
+  readVersionedState,
+} from '../src/migrations'
+import type { StateMigration } from '../src/migrations'
+
+describe('migrations', () => {
+  describe('registry', () => {
+    it('has one step per version up to the current version', () => {
+      const froms = STATE_MIGRATIONS.map((m) => m.from)
+
+      expect(froms).toEqual([...Array(CURRENT_STATE_VERSION).keys()])
+      for (const migration of STATE_MIGRATIONS) {
+        expect(migration.to).toBe(migration.from + 1)
+      }
+    })
+  })
+
+  describe('v1 -> v2', () => {
+    it('keeps sessions as they are - event ids arrive with the next poll', () => {
+      const sessions = [{ session: { date: '2026-02-20', time: '06:00' }, userResponse: null }]
+
+      const result = migrateState({ version: 1, sessions }, STATE_MIGRATIONS, 2)
+
+      expect(result.sessions).toEqual(sessions)
+      expect(result.applied).toEqual([
+        'v1 -> v2: Sessions gain DASH event ids, stamped by the next poll',
+      ])
+    })
+  })
+
+  describe('readVersionedState', () => {
+    it('treats a bare array as version 0', () => {
+      expect(readVersionedState([{ a: 1 }])).toEqual({ version: 0, sessions: [{ a: 1 }] })
+    })
+
+    it('reads the version envelope', () => {
+      expect(readVersionedState({ version: 1, sessions: [] })).toEqual({ version: 1, sessions: [] })
+    })
+
+    it('throws on anything else', () => {
+      expect(() => readVersionedState({ sessions: [] })).toThrow(/Unrecognized state format/)
+      expect(() => readVersionedState({ version: '1', sessions: [] })).toThrow()
+      expect(() => readVersionedState(null)).toThrow()
+      expect(() => readVersionedState('state')).toThrow()
+    })
+  })
+
+  describe('migrateState', () => {
+    const registry: StateMigration[] = [
+      {
+        from: 0,
+        to: 1,
+        description: 'add a',
+        migrate: (sessions) => sessions.map((s) => ({ ...s, a: 1 })),
+      },
+      {
+        from: 1,
+        to: 2,
+        description: 'rename a to b',
+        migrate: (sessions) => sessions.map(({ a, ...rest }) => ({ ...rest, b: a })),
+      },
+    ]
+
+    it('applies each step in order', () => {
+      const result = migrateState({ version: 0, sessions: [{ id: 'x' }] }, registry, 2)
+
+      expect(result.sessions).toEqual([{ id: 'x', b: 1 }])
+      expect(result.fromVersion).toBe(0)
+      expect(result.toVersion).toBe(2)
+      expect(result.applied).toEqual(['v0 -> v1: add a', 'v1 -> v2: rename a to b'])
+    })
+
+    it('starts from the stored version', () => {
+      const result = migrateState({ version: 1, sessions: [{ a: 5 }] }, registry, 2)
+
+      expect(result.sessions).toEqual([{ b: 5 }])
+      expect(result.applied).toHaveLength(1)
+    })
+
+    it('is a no-op at the target version', () => {
+      const sessions = [{ b: 1 }]
+      const result = migrateState({ version: 2, sessions }, registry, 2)
+
+      expect(result.applied).toEqual([])
+      expect(result.sessions).toBe(sessions)
+    })
+
+    it('throws when the state is newer than the target version', () => {
+      expect(() => migrateState({ version: 3, sessions: [] }, registry, 2)).toThrow(
+        'State schema version 3 is newer than supported version 2'
+      )
+    })
+
+    it('throws when a step is missing', () => {
+      expect(() => migrateState({ version: 0, sessions: [] }, [registry[1]], 2)).toThrow(
+        'No state migration registered from version 0'
+      )
+    })
+
+    it('back-fills user-response fields from version 0', () => {
+      const result = migrateState({ version: 0, sessions: [{ isRegistered: true }] })
+
+      expect(result.sessions[0]).toEqual({
+        isRegistered: true,
+        userResponse: null,
+        userRespondedAt: null,
+        remindAfter: null,
+      })
+    })
+  })
+
+  describe('migrationBackupPath', () => {
+    it('appends the source version', () => {
+      expect(migrationBackupPath('data/state.json', 0)).toBe('data/state.json.v0.bak')
+    })
+  })
+})
@@ -112,6 +112,13 @@ describe('ConsoleNotifier', () => {
       expect(output).toContain(alert.registrationUrl)
     })
 
+    it('lists the subscribers an alert is for', async () => {
+      await consoleNotifier.send({ ...createAlert('OPPORTUNITY'), subscribers: ['U1', 'U2'] })
+
+      const output = consoleLogSpy.mock.calls.join('\n')
+      expect(output).toContain('For: U1, U2')
+    })
+
     it('formats output with visual separators', async () => {
       const alert = createAlert('OPPORTUNITY')
 
@@ -142,4 +149,27 @@ describe('ConsoleNotifier', () => {
       await expect(consoleNotifier.send(alert)).resolves.not.toThrow()
     })
   })
+
+  describe('sendDigest', () => {
+    it('logs a digest header followed by each alert', async () => {
+      await consoleNotifier.sendDigest([createAlert('OPPORTUNITY'), createAlert('SOLD_OUT')])
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n')
+      expect(output).toContain('Digest: 2 alerts')
+      expect(output.indexOf('Test OPPORTUNITY message')).toBeLessThan(
+        output.indexOf('Test SOLD_OUT message')
+      )
+    })
+  })
+
+  describe('sendWarning', () => {
+    it('logs the warning with console.warn', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      await consoleNotifier.sendWarning('State file was unreadable')
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('State file was unreadable'))
+      warnSpy.mockRestore()
+    })
+  })
 })
@@ -0,0 +1,226 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  DiscordNotifier,
+  buildDiscordDigestPayload,
+  buildDiscordPayload,
+} from '../../src/notifiers/discord'
+import { getAlertColor } from '../../src/notifiers/slack-blocks'
+import { DEFAULT_MESSAGES } from '../../src/rules/builtin'
+import type { Alert } from '../../src/evaluator'
+import type { Session } from '../../src/parser'
+
+const WEBHOOK_URL = 'https://discord.com/api/webhooks/123/abc'
+
+const createSession = (overrides: Partial<Session> = {}): Session => ({
+  date: '2026-02-20',
+  dayOfWeek: 'Friday',
+  time: '22:00',
+  timeLabel: '10:00pm - 11:10pm',
+  eventName: '(PLAYERS) ADULT Pick Up LATE',
+  playersRegistered: 20,
+  playersMax: 24,
+  goaliesRegistered: 2,
+  goaliesMax: 3,
+  isFull: false,
+  price: 15,
+  ...overrides,
+})
+
+const createAlert = (overrides: Partial<Alert> = {}): Alert => ({
+  type: 'FILLING_FAST',
+  session: createSession(),
+  message: 'Test FILLING_FAST message',
+  registrationUrl: 'https://example.com/register?date=2026-02-20',
+  ...overrides,
+})
+
+describe('buildDiscordPayload', () => {
+  it('mirrors the Slack card fields in an embed', () => {
+    const [embed] = buildDiscordPayload(createAlert()).embeds ?? []
+
+    expect(embed.title).toBe('⚡ FILLING FAST')
+    expect(embed.description).toBe('**Friday, Feb 20** at **10:00pm**\n\n_Act now!_')
+    expect(embed.fields).toEqual([
+      { name: 'Players', value: '20/24 (4 spots left)', inline: true },
+      { name: 'Goalies', value: '2/3', inline: true },
+    ])
+    expect(embed.url).toBe('https://example.com/register?date=2026-02-20')
+  })
+
+  it('colors the embed like the Slack alert colors', () => {
+    for (const type of ['OPPORTUNITY', 'FILLING_FAST', 'SOLD_OUT'] as const) {
+      const [embed] = buildDiscordPayload(createAlert({ type })).embeds ?? []
+      expect(embed.color).toBe(parseInt(getAlertColor(type).slice(1), 16))
+    }
+    expect(buildDiscordPayload(createAlert({ type: 'SOLD_OUT' })).embeds?.[0].color).toBe(0xff0000)
+  })
+
+  it('adds a Register link button', () => {
+    expect(buildDiscordPayload(createAlert()).components).toEqual([
+      {
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 5,
+            label: 'Register Now',
+            url: 'https://example.com/register?date=2026-02-20',
+          },
+        ],
+      },
+    ])
+  })
+
+  it('has no button or link for sold-out sessions', () => {
+    const payload = buildDiscordPayload(
+      createAlert({ type: 'SOLD_OUT', session: createSession({ playersRegistered: 24 }) })
+    )
+
+    expect(payload.components).toBeUndefined()
+    expect(payload.embeds?.[0].url).toBeUndefined()
+    expect(payload.embeds?.[0].description).toContain('Session is now full.')
+    expect(payload.embeds?.[0].fields).toEqual([])
+  })
+
+  it('announces reopened spots', () => {
+    const payload = buildDiscordPayload(
+      createAlert({ type: 'NEWLY_AVAILABLE', session: createSession({ playersRegistered: 23 }) })
+    )
+
+    expect(payload.embeds?.[0].description).toContain('Spots opened up! **1** spot available.')
+  })
+
+  it('adds the projected sell-out time', () => {
+    const payload = buildDiscordPayload(
+      createAlert({
+        type: 'SELLOUT_PREDICTED',
+        forecast: { projectedAt: '2026-02-20T20:00:00Z', playersPerHour: 2, basis: 'velocity' },
+      })
+    )
+
+    expect(payload.embeds?.[0].fields.at(-1)?.name).toBe('📈 Projected to sell out')
+  })
+
+  it('says where the session is', () => {
+    const payload = buildDiscordPayload(createAlert({ location: 'Other Rink - RINK 2' }))
+
+    expect(payload.embeds?.[0].description).toContain('\n_Other Rink - RINK 2_\n')
+  })
+
+  it("shows a custom rule's message in place of the built-in text", () => {
+    const payload = buildDiscordPayload(
+      createAlert({ template: 'Late skate: {spotsLabel} left ({playersRegistered} in)' })
+    )
+
+    expect(payload.embeds?.[0].description).toBe(
+      '**Friday, Feb 20** at **10:00pm**\n\nLate skate: 4 spots left (20 in)'
+    )
+  })
+
+  it('keeps the built-in text for built-in templates', () => {
+    const payload = buildDiscordPayload(createAlert({ template: DEFAULT_MESSAGES.FILLING_FAST }))
+
+    expect(payload.embeds?.[0].description).toContain('_Act now!_')
+  })
+
+  it('never pings anyone', () => {
+    expect(buildDiscordPayload(createAlert()).allowed_mentions).toEqual({ parse: [] })
+  })
+})
+
+describe('buildDiscordDigestPayload', () => {
+  it('has an embed per alert and a Register button per open session', () => {
+    const payload = buildDiscordDigestPayload([
+      createAlert(),
+      createAlert({ type: 'SOLD_OUT', session: createSession({ date: '2026-02-21' }) }),
+    ])
+
+    expect(payload.embeds?.map((e) => e.title)).toEqual(['⚡ FILLING FAST', '🚫 SOLD OUT'])
+    expect(payload.components).toEqual([
+      {
+        type: 1,
+        components: [
+          {
+            type: 2,
+            style: 5,
+            label: 'Register Fri 10:00pm',
+            url: 'https://example.com/register?date=2026-02-20',
+          },
+        ],
+      },
+    ])
+  })
+
+  it('puts at most five buttons in an action row', () => {
+    const alerts = Array.from({ length: 7 }, () => createAlert())
+
+    expect(buildDiscordDigestPayload(alerts).components?.map((r) => r.components.length)).toEqual([
+      5, 2,
+    ])
+  })
+})
+
+describe('DiscordNotifier', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('is configured with a webhook URL', () => {
+    expect(new DiscordNotifier(WEBHOOK_URL).isConfigured()).toBe(true)
+    expect(new DiscordNotifier('').isConfigured()).toBe(false)
+  })
+
+  it('posts the embed to the webhook with components enabled', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+
+    await new DiscordNotifier(WEBHOOK_URL).send(createAlert())
+
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(String(url)).toBe(`${WEBHOOK_URL}?with_components=true`)
+    expect(JSON.parse(init?.body as string)).toEqual(buildDiscordPayload(createAlert()))
+  })
+
+  it('splits digests into messages of at most 10 embeds', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockImplementation(async () => new Response(null, { status: 204 }))
+
+    await new DiscordNotifier(WEBHOOK_URL).sendDigest(
+      Array.from({ length: 12 }, () => createAlert())
+    )
+
+    expect(
+      fetchSpy.mock.calls.map(([, init]) => JSON.parse(init?.body as string).embeds.length)
+    ).toEqual([10, 2])
+  })
+
+  it('sends warnings as plain content', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+
+    await new DiscordNotifier(WEBHOOK_URL).sendWarning('State file was corrupted')
+
+    expect(JSON.parse(fetchSpy.mock.calls[0][1]?.body as string).content).toBe(
+      '⚠️ State file was corrupted'
+    )
+  })
+
+  it('throws when Discord rejects the message', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(
+      new Response('{}', { status: 400, statusText: 'Bad Request' })
+    )
+
+    await expect(new DiscordNotifier(WEBHOOK_URL).send(createAlert())).rejects.toThrow(
+      'Discord webhook failed: 400 Bad Request'
+    )
+  })
+
+  it('throws when not configured', async () => {
+    await expect(new DiscordNotifier('').send(createAlert())).rejects.toThrow(
+      'Discord notifier not configured'
+    )
+  })
+})
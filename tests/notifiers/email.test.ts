@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { EmailNotifier, ResendTransport, SmtpTransport } from '../../src/notifiers/email'
+import type { EmailMessage, EmailTransport } from '../../src/notifiers/email'
+import {
+  renderAlertEmail,
+  renderDigestEmail,
+  renderWarningEmail,
+} from '../../src/notifiers/email-templates'
+import type { Alert } from '../../src/evaluator'
+import type { Session } from '../../src/parser'
+import { FakeSmtpServer } from '../helpers/fake-smtp-server'
+
+const createSession = (overrides: Partial<Session> = {}): Session => ({
+  date: '2026-02-20',
+  dayOfWeek: 'Friday',
+  time: '06:00',
+  timeLabel: '6:00am - 7:10am',
+  eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+  playersRegistered: 14,
+  playersMax: 24,
+  goaliesRegistered: 2,
+  goaliesMax: 3,
+  isFull: false,
+  price: 15,
+  ...overrides,
+})
+
+const createAlert = (overrides: Partial<Alert> = {}): Alert => ({
+  type: 'OPPORTUNITY',
+  session: createSession(),
+  message: 'Friday 6:00am has 2 goalies and 14 players',
+  registrationUrl: 'https://example.com/register?date=2026-02-20&a=1',
+  ...overrides,
+})
+
+class RecordingTransport implements EmailTransport {
+  name = 'recording'
+  sent: EmailMessage[] = []
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message)
+  }
+}
+
+describe('email templates', () => {
+  it('puts the alert type, session time and spots left in the subject', () => {
+    const email = renderAlertEmail(createAlert())
+
+    expect(email.subject).toBe('🏒 Opportunity: Friday Feb 20, 6:00am - 10 spots left')
+  })
+
+  it('leaves spots out of the sold-out subject', () => {
+    const email = renderAlertEmail(
+      createAlert({ type: 'SOLD_OUT', session: createSession({ playersRegistered: 24 }) })
+    )
+
+    expect(email.subject).toBe('🚫 Sold out: Friday Feb 20, 6:00am')
+  })
+
+  it('renders the plain-text body with the registration link', () => {
+    const email = renderAlertEmail(createAlert())
+
+    expect(email.text).toBe(
+      'Friday 6:00am has 2 goalies and 14 players\n\nRegister: https://example.com/register?date=2026-02-20&a=1'
+    )
+  })
+
+  it('renders session details and an escaped register link in the HTML body', () => {
+    const email = renderAlertEmail(createAlert())
+
+    expect(email.html).toContain('(PLAYERS) ADULT Pick Up MORNINGS')
+    expect(email.html).toContain('14/24')
+    expect(email.html).toContain('2/3')
+    expect(email.html).toContain('$15')
+    expect(email.html).toContain('href="https://example.com/register?date=2026-02-20&amp;a=1"')
+  })
+
+  it('adds a Where row when the alert has a location', () => {
+    const email = renderAlertEmail(createAlert({ location: 'Other Rink - RINK 2' }))
+
+    expect(email.html).toContain('>Where</td><td style="padding: 2px 0;">Other Rink - RINK 2<')
+    expect(renderAlertEmail(createAlert()).html).not.toContain('Where')
+  })
+
+  it('omits the register link for sold-out sessions', () => {
+    const email = renderAlertEmail(createAlert({ type: 'SOLD_OUT' }))
+
+    expect(email.text).not.toContain('Register:')
+    expect(email.html).not.toContain('Register now')
+  })
+
+  it('escapes HTML in the alert message', () => {
+    const email = renderAlertEmail(createAlert({ message: '<b>Spots</b> & more' }))
+
+    expect(email.html).toContain('&lt;b&gt;Spots&lt;/b&gt; &amp; more')
+  })
+
+  it('renders a digest with a section per alert', () => {
+    const email = renderDigestEmail([
+      createAlert(),
+      createAlert({
+        type: 'SOLD_OUT',
+        message: 'Saturday is full',
+        session: createSession({ date: '2026-02-21', dayOfWeek: 'Saturday' }),
+      }),
+    ])
+
+    expect(email.subject).toBe(
+      '🏒 2 session alerts: Friday Feb 20, 6:00am, Saturday Feb 21, 6:00am'
+    )
+    expect(email.text).toBe(
+      'Friday 6:00am has 2 goalies and 14 players\n\nRegister: https://example.com/register?date=2026-02-20&a=1\n\n---\n\nSaturday is full'
+    )
+    expect(email.html.match(/<h3/g)).toHaveLength(2)
+    expect(email.html.match(/Register now/g)).toHaveLength(1)
+  })
+
+  it('renders warnings with a fixed subject', () => {
+    const email = renderWarningEmail('State file was corrupted')
+
+    expect(email.subject).toBe('⚠️ Hockey agent warning')
+    expect(email.text).toBe('State file was corrupted')
+  })
+})
+
+describe('EmailNotifier', () => {
+  it('is configured with a sender and at least one recipient', () => {
+    const transport = new RecordingTransport()
+
+    expect(
+      new EmailNotifier('agent@example.com', ['a@example.com'], transport).isConfigured()
+    ).toBe(true)
+    expect(new EmailNotifier('agent@example.com', [], transport).isConfigured()).toBe(false)
+    expect(new EmailNotifier('', ['a@example.com'], transport).isConfigured()).toBe(false)
+  })
+
+  it('sends the rendered alert to every recipient', async () => {
+    const transport = new RecordingTransport()
+    const notifier = new EmailNotifier(
+      'agent@example.com',
+      ['a@example.com', 'b@example.com'],
+      transport
+    )
+
+    await notifier.send(createAlert())
+
+    expect(transport.sent).toHaveLength(1)
+    expect(transport.sent[0]).toMatchObject({
+      from: 'agent@example.com',
+      to: ['a@example.com', 'b@example.com'],
+      subject: '🏒 Opportunity: Friday Feb 20, 6:00am - 10 spots left',
+    })
+  })
+
+  it('sends a digest as one email', async () => {
+    const transport = new RecordingTransport()
+    const notifier = new EmailNotifier('agent@example.com', ['a@example.com'], transport)
+
+    await notifier.sendDigest([createAlert(), createAlert()])
+
+    expect(transport.sent).toHaveLength(1)
+    expect(transport.sent[0].subject).toMatch(/^🏒 2 session alerts/)
+  })
+
+  it('sends warnings', async () => {
+    const transport = new RecordingTransport()
+    const notifier = new EmailNotifier('agent@example.com', ['a@example.com'], transport)
+
+    await notifier.sendWarning('State file was corrupted')
+
+    expect(transport.sent[0].text).toBe('State file was corrupted')
+  })
+
+  it('throws when not configured', async () => {
+    const notifier = new EmailNotifier('agent@example.com', [], new RecordingTransport())
+
+    await expect(notifier.send(createAlert())).rejects.toThrow('Email notifier not configured')
+  })
+})
+
+describe('ResendTransport', () => {
+  const message = (): EmailMessage => ({
+    from: 'agent@example.com',
+    to: ['a@example.com'],
+    ...renderAlertEmail(createAlert()),
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('posts the message to /emails with the API key', async () => {
+    const fetchSpy = vi
+      .spyOn(global, 'fetch')
+      .mockResolvedValueOnce(new Response('{"id":"email_1"}', { status: 200 }))
+    const transport = new ResendTransport('re_test', 'http://localhost:9999/')
+
+    await transport.send(message())
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(url).toBe('http://localhost:9999/emails')
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer re_test')
+    expect(JSON.parse(init?.body as string)).toMatchObject({
+      to: ['a@example.com'],
+      subject: message().subject,
+    })
+  })
+
+  it('throws when the API rejects the request', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValueOnce(
+      new Response('{}', { status: 422, statusText: 'Unprocessable Entity' })
+    )
+    const transport = new ResendTransport('re_test')
+
+    await expect(transport.send(message())).rejects.toThrow('Resend email failed: 422')
+  })
+})
+
+describe('SmtpTransport', () => {
+  let smtp: FakeSmtpServer
+
+  beforeEach(async () => {
+    smtp = new FakeSmtpServer()
+    await smtp.start()
+  })
+
+  afterEach(async () => {
+    await smtp.stop()
+  })
+
+  it('delivers a multipart alert email to the SMTP server', async () => {
+    const notifier = new EmailNotifier(
+      'agent@example.com',
+      ['a@example.com', 'b@example.com'],
+      new SmtpTransport(smtp.url)
+    )
+
+    await notifier.send(createAlert())
+
+    expect(smtp.messages).toHaveLength(1)
+    const [received] = smtp.messages
+    expect(received.from).toBe('agent@example.com')
+    expect(received.to).toEqual(['a@example.com', 'b@example.com'])
+    expect(received.data).toContain('multipart/alternative')
+    expect(received.data).toContain('text/plain')
+    expect(received.data).toContain('text/html')
+  })
+})
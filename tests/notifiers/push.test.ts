@@ -0,0 +1,191 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import {
+  NtfyProvider,
+  PushNotifier,
+  PushoverProvider,
+  buildPushMessage,
+} from '../../src/notifiers/push'
+import type { PushMessage, PushProvider } from '../../src/notifiers/push'
+import type { Alert } from '../../src/evaluator'
+import type { Session } from '../../src/parser'
+
+const createSession = (overrides: Partial<Session> = {}): Session => ({
+  date: '2026-02-20',
+  dayOfWeek: 'Friday',
+  time: '06:00',
+  timeLabel: '6:00am - 7:10am',
+  eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+  playersRegistered: 20,
+  playersMax: 24,
+  goaliesRegistered: 2,
+  goaliesMax: 3,
+  isFull: false,
+  price: 15,
+  ...overrides,
+})
+
+const createAlert = (overrides: Partial<Alert> = {}): Alert => ({
+  type: 'FILLING_FAST',
+  session: createSession(),
+  message: '⚡ FILLING FAST: Friday Feb 20, 6:00am\nPlayers: 20/24 (4 spots left)\nGoalies: 2/3',
+  registrationUrl: 'https://example.com/register?date=2026-02-20',
+  ...overrides,
+})
+
+const highMessage: PushMessage = {
+  title: '⚡ FILLING FAST: Friday Feb 20, 6:00am',
+  message: 'Players: 20/24 (4 spots left)',
+  priority: 'high',
+  url: 'https://example.com/register?date=2026-02-20',
+}
+
+const mockFetch = (status = 200) =>
+  vi.spyOn(global, 'fetch').mockResolvedValue(new Response('{}', { status }))
+
+describe('buildPushMessage', () => {
+  it('uses the first message line as the title and the registration URL as tap action', () => {
+    expect(buildPushMessage(createAlert())).toEqual({
+      title: '⚡ FILLING FAST: Friday Feb 20, 6:00am',
+      message: 'Players: 20/24 (4 spots left)\nGoalies: 2/3',
+      priority: 'high',
+      url: 'https://example.com/register?date=2026-02-20',
+    })
+  })
+
+  it('maps alert types to push priority', () => {
+    expect(buildPushMessage(createAlert({ type: 'FILLING_FAST' })).priority).toBe('high')
+    expect(buildPushMessage(createAlert({ type: 'NEWLY_AVAILABLE' })).priority).toBe('high')
+    expect(buildPushMessage(createAlert({ type: 'OPPORTUNITY' })).priority).toBe('normal')
+    expect(buildPushMessage(createAlert({ type: 'SOLD_OUT' })).priority).toBe('silent')
+  })
+
+  it('repeats a single-line message as the body', () => {
+    const message = buildPushMessage(createAlert({ message: 'Spots opened up' }))
+
+    expect(message.title).toBe('Spots opened up')
+    expect(message.message).toBe('Spots opened up')
+  })
+})
+
+describe('PushoverProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('posts the message with the app token, user key and priority', async () => {
+    const fetchSpy = mockFetch()
+
+    await new PushoverProvider('app-token', 'user-key', 'http://localhost:9999/').send(highMessage)
+
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(url).toBe('http://localhost:9999/1/messages.json')
+    const params = new URLSearchParams(init?.body as string)
+    expect(params.get('token')).toBe('app-token')
+    expect(params.get('user')).toBe('user-key')
+    expect(params.get('title')).toBe(highMessage.title)
+    expect(params.get('priority')).toBe('1')
+    expect(params.get('url')).toBe(highMessage.url)
+  })
+
+  it('sends silent messages as quiet notifications', async () => {
+    const fetchSpy = mockFetch()
+
+    await new PushoverProvider('app-token', 'user-key').send({ ...highMessage, priority: 'silent' })
+
+    const params = new URLSearchParams(fetchSpy.mock.calls[0][1]?.body as string)
+    expect(params.get('priority')).toBe('-1')
+  })
+
+  it('throws when Pushover rejects the message', async () => {
+    mockFetch(400)
+
+    await expect(new PushoverProvider('app-token', 'bad-key').send(highMessage)).rejects.toThrow(
+      'Pushover push failed: 400'
+    )
+  })
+})
+
+describe('NtfyProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('publishes JSON to the server with the topic, priority and click action', async () => {
+    const fetchSpy = mockFetch()
+
+    await new NtfyProvider('https://ntfy.example.com/', 'hockey-alerts').send(highMessage)
+
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(url).toBe('https://ntfy.example.com')
+    expect(JSON.parse(init?.body as string)).toEqual({
+      topic: 'hockey-alerts',
+      title: highMessage.title,
+      message: highMessage.message,
+      priority: 4,
+      click: highMessage.url,
+    })
+    expect((init?.headers as Record<string, string>).Authorization).toBeUndefined()
+  })
+
+  it('sends an access token for protected topics', async () => {
+    const fetchSpy = mockFetch()
+
+    await new NtfyProvider('https://ntfy.example.com', 'hockey-alerts', 'tk_test').send({
+      ...highMessage,
+      priority: 'silent',
+    })
+
+    const init = fetchSpy.mock.calls[0][1]
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer tk_test')
+    expect(JSON.parse(init?.body as string).priority).toBe(2)
+  })
+
+  it('throws when the server rejects the message', async () => {
+    mockFetch(403)
+
+    await expect(
+      new NtfyProvider('https://ntfy.sh', 'hockey-alerts').send(highMessage)
+    ).rejects.toThrow('ntfy push failed: 403')
+  })
+})
+
+describe('PushNotifier', () => {
+  class RecordingProvider implements PushProvider {
+    name = 'recording'
+    sent: PushMessage[] = []
+
+    isConfigured(): boolean {
+      return true
+    }
+
+    async send(message: PushMessage): Promise<void> {
+      this.sent.push(message)
+    }
+  }
+
+  it('is named after its provider', () => {
+    expect(new PushNotifier(new PushoverProvider('app-token', 'user-key')).name).toBe('Pushover')
+    expect(new PushNotifier(new NtfyProvider('https://ntfy.sh', 'hockey')).name).toBe('ntfy')
+  })
+
+  it('sends alerts and warnings through the provider', async () => {
+    const provider = new RecordingProvider()
+    const notifier = new PushNotifier(provider)
+
+    await notifier.send(createAlert({ type: 'SOLD_OUT' }))
+    await notifier.sendWarning('State file was corrupted')
+
+    expect(provider.sent[0].priority).toBe('silent')
+    expect(provider.sent[1]).toEqual({
+      title: '⚠️ Hockey agent warning',
+      message: 'State file was corrupted',
+      priority: 'normal',
+    })
+  })
+
+  it('throws when the provider is not configured', async () => {
+    const notifier = new PushNotifier(new PushoverProvider('', 'user-key'))
+
+    await expect(notifier.send(createAlert())).rejects.toThrow('Push notifier not configured')
+  })
+})
@@ -0,0 +1,356 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { SlackBotNotifier } from '../../src/notifiers/slack-bot'
+import type { Alert, SessionState, SlackMessageRef } from '../../src/evaluator'
+import type { Session } from '../../src/parser'
+import { FakeSlackApi } from '../helpers/fake-slack-api'
+
+describe('SlackBotNotifier', () => {
+  let api: FakeSlackApi
+
+  beforeEach(async () => {
+    api = new FakeSlackApi()
+    await api.start()
+  })
+
+  afterEach(async () => {
+    await api.stop()
+  })
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-20',
+    dayOfWeek: 'Friday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 14,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const createAlert = (overrides: Partial<Alert> = {}): Alert => ({
+    type: 'OPPORTUNITY',
+    session: createSession(),
+    message: 'Test OPPORTUNITY message',
+    registrationUrl: 'https://example.com/register?date=2026-02-20',
+    ...overrides,
+  })
+
+  describe('isConfigured', () => {
+    it('needs a token and a channel', () => {
+      expect(new SlackBotNotifier('xoxb-test', 'C123').isConfigured()).toBe(true)
+      expect(new SlackBotNotifier('', 'C123').isConfigured()).toBe(false)
+      expect(new SlackBotNotifier('xoxb-test', undefined).isConfigured()).toBe(false)
+    })
+
+    it('is configured without a channel in direct-message mode', () => {
+      const notifier = new SlackBotNotifier('xoxb-test', undefined, { directMessages: true })
+      expect(notifier.isConfigured()).toBe(true)
+    })
+  })
+
+  describe('send', () => {
+    it('posts the alert blocks to the channel with the bot token', async () => {
+      const notifier = new SlackBotNotifier('xoxb-test', 'C123', { apiUrl: api.url })
+
+      await notifier.send(createAlert())
+
+      expect(api.calls).toHaveLength(1)
+      expect(api.calls[0].method).toBe('chat.postMessage')
+      expect(api.calls[0].token).toBe('xoxb-test')
+      expect(api.calls[0].body.channel).toBe('C123')
+      expect(api.calls[0].body.text).toBe('Test OPPORTUNITY message')
+      expect(api.calls[0].body.blocks[0].type).toBe('header')
+      expect(api.calls[0].body.blocks[2].block_id).toBe('actions_block')
+    })
+
+    it('reports the channel and ts Slack returns', async () => {
+      const posted: SlackMessageRef[] = []
+      const notifier = new SlackBotNotifier('xoxb-test', 'C123', {
+        apiUrl: api.url,
+        onPosted: (_alert, message) => posted.push(message),
+      })
+
+      await notifier.send(createAlert({ type: 'FILLING_FAST' }))
+
+      expect(posted).toEqual([
+        {
+          channel: 'C123',
+          ts: '1700000000.000001',
+          recipient: 'C123',
+          alertType: 'FILLING_FAST',
+          postedAt: expect.any(String),
+        },
+      ])
+    })
+
+    it('records the message template the card was rendered from', async () => {
+      const posted: SlackMessageRef[] = []
+      const notifier = new SlackBotNotifier('xoxb-test', 'C123', {
+        apiUrl: api.url,
+        onPosted: (_alert, message) => posted.push(message),
+      })
+
+      await notifier.send(createAlert({ template: 'Custom {playersRegistered}' }))
+
+      expect(posted[0].template).toBe('Custom {playersRegistered}')
+    })
+
+    it('mentions subscribers when posting to the channel', async () => {
+      const notifier = new SlackBotNotifier('xoxb-test', 'C123', { apiUrl: api.url })
+
+      await notifier.send(createAlert({ subscribers: ['U1', 'U2'] }))
+
+      expect(api.calls).toHaveLength(1)
+      expect(api.calls[0].body.blocks[1].text.text).toContain('<@U1> <@U2>')
+    })
+
+    it('direct-messages each subscriber in direct-message mode', async () => {
+      const posted: Array<{ alert: Alert; message: SlackMessageRef }> = []
+      const notifier = new SlackBotNotifier('xoxb-test', 'C123', {
+        apiUrl: api.url,
+        directMessages: true,
+        onPosted: (alert, message) => posted.push({ alert, message }),
+      })
+
+      await notifier.send(createAlert({ subscribers: ['U1', 'U2'] }))
+
+      expect(api.calls.map((c) => c.body.channel)).toEqual(['U1', 'U2'])
+      expect(api.calls[0].body.blocks[1].text.text).not.toContain('<@U1>')
+      expect(posted.map((p) => p.message.channel)).toEqual(['D1', 'D2'])
+      expect(posted[0].alert.subscribers).toEqual(['U1', 'U2'])
+    })
+
+    it('posts alerts without subscribers to the channel in direct-message mode', async () => {
+      const notifier = new SlackBotNotifier('xoxb-test', 'C123', {
+        apiUrl: api.url,
+        directMessages: true,
+      })
+
+      await notifier.send(createAlert())
+
+      expect(api.calls[0].body.channel).toBe('C123')
+    })
+
+    it('throws when Slack answers ok: false', async () => {
+      api.respond('chat.postMessage', () => ({ ok: false, error: 'channel_not_found' }))
+      const notifier = new SlackBotNotifier('xoxb-test', 'C404', { apiUrl: api.url })
+
+      await expect(notifier.send(createAlert())).rejects.toThrow(
+        'Slack chat.postMessage failed: channel_not_found'
+      )
+    })
+
+    it('throws when not configured', async () => {
+      const notifier = new SlackBotNotifier('', 'C123', { apiUrl: api.url })
+
+      await expect(notifier.send(createAlert())).rejects.toThrow('not configured')
+      expect(api.calls).toHaveLength(0)
+    })
+  })
+
+  describe('live cards', () => {
+    const card = (overrides: Partial<SlackMessageRef> = {}): SlackMessageRef => ({
+      channel: 'C123',
+      ts: '1700000000.000100',
+      recipient: 'C123',
+      alertType: 'OPPORTUNITY',
+      postedAt: '2026-02-19T10:00:00.000Z',
+      ...overrides,
+    })
+
+    const stateWith = (
+      slackMessages: SlackMessageRef[],
+      overrides: Partial<SessionState> = {}
+    ): SessionState => ({
+      session: createSession(),
+      lastAlertType: 'OPPORTUNITY',
+      lastAlertAt: '2026-02-19T10:00:00.000Z',
+      lastPlayerCount: 14,
+      isRegistered: false,
+      userResponse: null,
+      userRespondedAt: null,
+      remindAfter: null,
+      slackMessages,
+      ...overrides,
+    })
+
+    const notifierFor = (state: SessionState | undefined, posted: SlackMessageRef[] = []) =>
+      new SlackBotNotifier('xoxb-test', 'C123', {
+        apiUrl: api.url,
+        findSession: () => state,
+        onPosted: (_alert, message) => posted.push(message),
+      })
+
+    it('edits the existing card for a repeat alert of the same type', async () => {
+      const posted: SlackMessageRef[] = []
+      const notifier = notifierFor(stateWith([card()]), posted)
+
+      await notifier.send(createAlert({ session: createSession({ playersRegistered: 18 }) }))
+
+      expect(api.calls).toHaveLength(1)
+      expect(api.calls[0].method).toBe('chat.update')
+      expect(api.calls[0].body).toMatchObject({ channel: 'C123', ts: '1700000000.000100' })
+      expect(api.calls[0].body.blocks[1].text.text).toContain('18/24')
+      expect(api.calls[0].body.blocks.at(-1).elements[0].text).toContain('🔄 Updated')
+      expect(posted).toHaveLength(0)
+    })
+
+    it('posts a new card when a lower-priority alert follows', async () => {
+      const posted: SlackMessageRef[] = []
+      const notifier = notifierFor(stateWith([card({ alertType: 'SELLOUT_PREDICTED' })]), posted)
+
+      await notifier.send(createAlert({ type: 'FILLING_FAST' }))
+
+      expect(api.calls[0].method).toBe('chat.postMessage')
+      expect(api.calls[0].body.blocks[0].text.text).toContain('FILLING FAST')
+      expect(posted[0].alertType).toBe('FILLING_FAST')
+    })
+
+    it('posts a new message when the alert escalates', async () => {
+      const posted: SlackMessageRef[] = []
+      const notifier = notifierFor(stateWith([card()]), posted)
+
+      await notifier.send(createAlert({ type: 'FILLING_FAST' }))
+
+      expect(api.calls[0].method).toBe('chat.postMessage')
+      expect(posted[0].alertType).toBe('FILLING_FAST')
+    })
+
+    it('posts a new message for a full/available transition', async () => {
+      const notifier = notifierFor(stateWith([card({ alertType: 'SOLD_OUT' })]))
+
+      await notifier.send(createAlert({ type: 'NEWLY_AVAILABLE' }))
+
+      expect(api.calls[0].method).toBe('chat.postMessage')
+    })
+
+    it('posts a new message when someone responded after the card was posted', async () => {
+      const notifier = notifierFor(
+        stateWith([card()], {
+          userResponse: 'remind_later',
+          userRespondedAt: '2026-02-19T11:00:00.000Z',
+        })
+      )
+
+      await notifier.send(createAlert())
+
+      expect(api.calls[0].method).toBe('chat.postMessage')
+    })
+
+    it('updates only the latest card per recipient', async () => {
+      const notifier = notifierFor(
+        stateWith([
+          card({ ts: '1.1', alertType: 'OPPORTUNITY' }),
+          card({ ts: '1.2', alertType: 'FILLING_FAST' }),
+        ])
+      )
+
+      await notifier.refresh(createAlert({ type: 'FILLING_FAST' }))
+
+      expect(api.calls).toHaveLength(1)
+      expect(api.calls[0].method).toBe('chat.update')
+      expect(api.calls[0].body.ts).toBe('1.2')
+    })
+
+    it('refreshes each direct-message card without mentions', async () => {
+      const notifier = notifierFor(
+        stateWith([
+          card({ channel: 'D1', ts: '1.1', recipient: 'U1' }),
+          card({ channel: 'C123', ts: '1.2', recipient: 'C123', subscribers: ['U2'] }),
+        ])
+      )
+
+      await notifier.refresh(createAlert({ subscribers: ['U2'] }))
+
+      expect(api.calls.map((c) => c.body.channel)).toEqual(['D1', 'C123'])
+      expect(api.calls[0].body.blocks[1].text.text).not.toContain('<@')
+      expect(api.calls[1].body.blocks[1].text.text).toContain('<@U2>')
+    })
+
+    it('skips cards recorded without a recipient', async () => {
+      const legacy = card({ ts: '1.1' })
+      delete legacy.recipient
+      const notifier = notifierFor(stateWith([legacy]))
+
+      await notifier.refresh(createAlert())
+
+      expect(api.calls).toHaveLength(0)
+    })
+
+    it('does not refresh a card someone responded to', async () => {
+      const notifier = notifierFor(
+        stateWith([card()], {
+          userResponse: 'registered',
+          userRespondedAt: '2026-02-19T11:00:00.000Z',
+        })
+      )
+
+      await notifier.refresh(createAlert())
+
+      expect(api.calls).toHaveLength(0)
+    })
+
+    it('does nothing on refresh when no card was posted', async () => {
+      const notifier = notifierFor(undefined)
+
+      await notifier.refresh(createAlert())
+
+      expect(api.calls).toHaveLength(0)
+    })
+  })
+
+  describe('sendDigest', () => {
+    const friday = createAlert({ subscribers: ['U1'] })
+    const saturday = createAlert({
+      session: createSession({ date: '2026-02-21', dayOfWeek: 'Saturday' }),
+      subscribers: ['U1', 'U2'],
+    })
+
+    it('posts one digest to the channel without creating live cards', async () => {
+      const posted: SlackMessageRef[] = []
+      const notifier = new SlackBotNotifier('xoxb-test', 'C123', {
+        apiUrl: api.url,
+        onPosted: (_, message) => posted.push(message),
+      })
+
+      await notifier.sendDigest([friday, saturday])
+
+      expect(api.calls).toHaveLength(1)
+      expect(api.calls[0].method).toBe('chat.postMessage')
+      expect(api.calls[0].body.channel).toBe('C123')
+      expect(JSON.stringify(api.calls[0].body.blocks)).toContain('<@U2>')
+      expect(posted).toEqual([])
+    })
+
+    it('sends each subscriber a digest of their own sessions in direct-message mode', async () => {
+      const notifier = new SlackBotNotifier('xoxb-test', undefined, {
+        apiUrl: api.url,
+        directMessages: true,
+      })
+
+      await notifier.sendDigest([friday, saturday])
+
+      const byChannel = Object.fromEntries(
+        api.calls.map((c) => [c.body.channel, (c.body.blocks as unknown[]).length])
+      )
+      expect(byChannel).toEqual({ U1: 7, U2: 4 })
+    })
+  })
+
+  describe('sendWarning', () => {
+    it('posts a warning to the channel', async () => {
+      const notifier = new SlackBotNotifier('xoxb-test', 'C123', { apiUrl: api.url })
+
+      await notifier.sendWarning('State file was unreadable')
+
+      expect(api.calls[0].body).toEqual({
+        channel: 'C123',
+        text: ':warning: State file was unreadable',
+      })
+    })
+  })
+})
@@ -49,7 +49,13 @@ describe('SlackNotifier - Block Kit Integration', () => {
   describe('Block Kit Structure Validation', () => {
     it('produces valid header block for all alert types', () => {
       const notifier = new SlackNotifier('https://hooks.slack.com/test')
-      const alertTypes: AlertType[] = ['OPPORTUNITY', 'FILLING_FAST', 'SOLD_OUT', 'NEWLY_AVAILABLE']
+      const alertTypes: AlertType[] = [
+        'OPPORTUNITY',
+        'FILLING_FAST',
+        'SELLOUT_PREDICTED',
+        'SOLD_OUT',
+        'NEWLY_AVAILABLE',
+      ]
 
       for (const type of alertTypes) {
         const alert = createAlert(type)
@@ -62,13 +68,19 @@ describe('SlackNotifier - Block Kit Integration', () => {
 
         // Header text should not contain underscores (SOLD_OUT → SOLD OUT)
         expect(payload.blocks[0].text.text).not.toContain('_')
-        expect(payload.blocks[0].text.text).toMatch(/^[🏒⚡🚫✅]/)
+        expect(payload.blocks[0].text.text).toMatch(/^(🏒|⚡|📈|🚫|✅)/u)
       }
     })
 
     it('produces valid section block for all alert types', () => {
       const notifier = new SlackNotifier('https://hooks.slack.com/test')
-      const alertTypes: AlertType[] = ['OPPORTUNITY', 'FILLING_FAST', 'SOLD_OUT', 'NEWLY_AVAILABLE']
+      const alertTypes: AlertType[] = [
+        'OPPORTUNITY',
+        'FILLING_FAST',
+        'SELLOUT_PREDICTED',
+        'SOLD_OUT',
+        'NEWLY_AVAILABLE',
+      ]
 
       for (const type of alertTypes) {
         const alert = createAlert(type)
@@ -96,7 +108,12 @@ describe('SlackNotifier - Block Kit Integration', () => {
 
     it('includes action block for non-SOLD_OUT alerts', () => {
       const notifier = new SlackNotifier('https://hooks.slack.com/test')
-      const alertTypes: AlertType[] = ['OPPORTUNITY', 'FILLING_FAST', 'NEWLY_AVAILABLE']
+      const alertTypes: AlertType[] = [
+        'OPPORTUNITY',
+        'FILLING_FAST',
+        'SELLOUT_PREDICTED',
+        'NEWLY_AVAILABLE',
+      ]
 
       for (const type of alertTypes) {
         const alert = createAlert(type)
@@ -155,6 +172,30 @@ describe('SlackNotifier - Block Kit Integration', () => {
       expect(elements[0].value).toBeUndefined()
     })
 
+    it('leads the button value with the session id when the session has event ids', () => {
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+      const alert = createAlert('OPPORTUNITY', {
+        venue: 'extremeice',
+        playersEventId: '101',
+        goaliesEventId: '102',
+      })
+      const payload = getPayload(notifier, alert)
+
+      expect(payload.blocks[2].elements[1].value).toBe(
+        'extremeice:101:102|2026-02-20|06:00|(PLAYERS) ADULT Pick Up MORNINGS'
+      )
+    })
+
+    it('leads the button value with the venue when the session has no event ids', () => {
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+      const alert = createAlert('OPPORTUNITY', { venue: 'otherrink' })
+      const payload = getPayload(notifier, alert)
+
+      expect(payload.blocks[2].elements[1].value).toBe(
+        'venue=otherrink|2026-02-20|06:00|(PLAYERS) ADULT Pick Up MORNINGS'
+      )
+    })
+
     it('interactive buttons have no url (they are not link buttons)', () => {
       const notifier = new SlackNotifier('https://hooks.slack.com/test')
       const alert = createAlert('FILLING_FAST')
@@ -187,7 +228,12 @@ describe('SlackNotifier - Block Kit Integration', () => {
       const validStyles = ['primary', 'danger', undefined]
 
       // Test each alert type that has a button
-      const alertTypes: AlertType[] = ['OPPORTUNITY', 'FILLING_FAST', 'NEWLY_AVAILABLE']
+      const alertTypes: AlertType[] = [
+        'OPPORTUNITY',
+        'FILLING_FAST',
+        'SELLOUT_PREDICTED',
+        'NEWLY_AVAILABLE',
+      ]
 
       for (const type of alertTypes) {
         const alert = createAlert(type)
@@ -212,6 +258,16 @@ describe('SlackNotifier - Block Kit Integration', () => {
       expect(button.style).toBe('danger')
     })
 
+    it('uses danger style for SELLOUT_PREDICTED (urgency)', () => {
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+      const alert = createAlert('SELLOUT_PREDICTED')
+      const payload = getPayload(notifier, alert)
+
+      const button = payload.blocks[2].elements[0]
+      expect(button.style).toBe('danger')
+      expect(payload.blocks[0].text.text).toBe('📈 SELLOUT PREDICTED')
+    })
+
     it('uses primary style for OPPORTUNITY and NEWLY_AVAILABLE', () => {
       const notifier = new SlackNotifier('https://hooks.slack.com/test')
 
@@ -234,6 +234,93 @@ describe('SlackNotifier', () => {
       expect(text).toContain('⚡')
     })
 
+    it('renders the projected sell-out time when a forecast is attached', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+      })
+
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+      const alert: Alert = {
+        ...createAlert('OPPORTUNITY'),
+        forecast: {
+          projectedAt: '2026-02-20T01:00:00.000Z', // Thu 8pm ET
+          playersPerHour: 0.5,
+          basis: 'velocity',
+        },
+      }
+
+      await notifier.send(alert)
+
+      const call = (global.fetch as any).mock.calls[0]
+      const body = JSON.parse(call[1].body)
+      expect(body.blocks[1].text.text).toContain('Projected to sell out *~Thu 8pm EST*')
+    })
+
+    it('omits the projection line without a forecast', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+      })
+
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+
+      await notifier.send(createAlert('OPPORTUNITY'))
+
+      const call = (global.fetch as any).mock.calls[0]
+      const body = JSON.parse(call[1].body)
+      expect(body.blocks[1].text.text).not.toContain('Projected to sell out')
+    })
+
+    it('names the venue and rink under the session time', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+      })
+
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+
+      await notifier.send({ ...createAlert('OPPORTUNITY'), location: 'Other Rink - RINK 2' })
+
+      const call = (global.fetch as any).mock.calls[0]
+      const body = JSON.parse(call[1].body)
+      expect(body.blocks[1].text.text).toContain('*\n_Other Rink - RINK 2_\n\n')
+    })
+
+    it("shows a custom rule's message in place of the built-in text", async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+      })
+
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+
+      await notifier.send({
+        ...createAlert('OPPORTUNITY'),
+        template: 'Cheap skate: {spotsLabel} left for ${price}',
+      })
+
+      const call = (global.fetch as any).mock.calls[0]
+      const body = JSON.parse(call[1].body)
+      expect(body.blocks[1].text.text).toContain('Cheap skate:')
+      expect(body.blocks[1].text.text).not.toContain('Worth signing up!')
+    })
+
+    it('mentions the subscribers an alert is for', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+      })
+
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+
+      await notifier.send({ ...createAlert('OPPORTUNITY'), subscribers: ['U1', 'U2'] })
+
+      const call = (global.fetch as any).mock.calls[0]
+      const body = JSON.parse(call[1].body)
+      expect(body.blocks[1].text.text).toContain('<@U1> <@U2>')
+    })
+
     it('uses Block Kit format for rich formatting', async () => {
       ;(global.fetch as any).mockResolvedValueOnce({
         ok: true,
@@ -254,4 +341,67 @@ describe('SlackNotifier', () => {
       expect(body.blocks.length).toBeGreaterThan(0)
     })
   })
+
+  describe('sendDigest', () => {
+    it('posts one message with a section and buttons per session', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({ ok: true, status: 200 })
+
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+      await notifier.sendDigest([
+        createAlert('OPPORTUNITY'),
+        createAlert('SOLD_OUT', { date: '2026-02-21', dayOfWeek: 'Saturday' }),
+      ])
+
+      expect(global.fetch).toHaveBeenCalledTimes(1)
+      const body = JSON.parse((global.fetch as any).mock.calls[0][1].body)
+      expect(body.blocks[0].text.text).toBe('🏒 2 session alerts')
+      expect(body.blocks.filter((b: any) => b.type === 'section')).toHaveLength(2)
+      expect(body.blocks.filter((b: any) => b.type === 'actions')).toEqual([
+        expect.objectContaining({ block_id: 'actions_2026-02-20_06:00' }),
+      ])
+    })
+
+    it('splits long digests to stay within the block limit', async () => {
+      ;(global.fetch as any).mockResolvedValue({ ok: true, status: 200 })
+      const alerts = Array.from({ length: 20 }, (_, i) =>
+        createAlert('OPPORTUNITY', { time: `${String(i + 1).padStart(2, '0')}:00` })
+      )
+
+      await new SlackNotifier('https://hooks.slack.com/test').sendDigest(alerts)
+
+      const bodies = (global.fetch as any).mock.calls.map((c: any) => JSON.parse(c[1].body))
+      expect(bodies.map((b: any) => b.blocks[0].text.text)).toEqual([
+        '🏒 16 session alerts',
+        '🏒 4 session alerts',
+      ])
+      expect(bodies.every((b: any) => b.blocks.length <= 50)).toBe(true)
+    })
+  })
+
+  describe('sendWarning', () => {
+    it('posts a plain-text warning to the webhook', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({ ok: true, status: 200 })
+
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+      await notifier.sendWarning('State file was unreadable')
+
+      const call = (global.fetch as any).mock.calls[0]
+      expect(call[0]).toBe('https://hooks.slack.com/test')
+      expect(JSON.parse(call[1].body)).toEqual({ text: ':warning: State file was unreadable' })
+    })
+
+    it('throws error when webhook returns non-200', async () => {
+      ;(global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 500,
+        statusText: 'Server Error',
+      })
+
+      const notifier = new SlackNotifier('https://hooks.slack.com/test')
+
+      await expect(notifier.sendWarning('oops')).rejects.toThrow(
+        'Slack webhook failed: 500 Server Error'
+      )
+    })
+  })
 })
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  SmsNotifier,
+  buildSmsBody,
+  shortRegistrationLink,
+  SMS_MAX_LENGTH,
+} from '../../src/notifiers/sms'
+import type { Alert } from '../../src/evaluator'
+import type { Session } from '../../src/parser'
+import { FakeTwilioApi } from '../helpers/fake-twilio-api'
+
+const ACCOUNT_SID = 'AC' + '0'.repeat(32)
+
+const createSession = (overrides: Partial<Session> = {}): Session => ({
+  date: '2026-02-20',
+  dayOfWeek: 'Friday',
+  time: '22:00',
+  timeLabel: '10:00pm - 11:10pm',
+  eventName: '(PLAYERS) ADULT Pick Up LATE',
+  playersRegistered: 20,
+  playersMax: 24,
+  goaliesRegistered: 2,
+  goaliesMax: 3,
+  isFull: false,
+  price: 15,
+  ...overrides,
+})
+
+const createAlert = (overrides: Partial<Alert> = {}): Alert => ({
+  type: 'FILLING_FAST',
+  session: createSession(),
+  message:
+    '⚡ FILLING FAST: Friday Feb 20, 10:00pm\nPlayers: 20/24 (4 spots left)\nGoalies: 2/3\nStatus: Act now!',
+  registrationUrl:
+    'https://apps.daysmartrecreation.com/dash/x/#/online/extremeice/event-registration?date=2026-02-20&facility_ids=1',
+  ...overrides,
+})
+
+describe('buildSmsBody', () => {
+  it('condenses the message to one line without emoji and appends the link', () => {
+    const body = buildSmsBody(createAlert(), 'https://hockey.example.com/r/2026-02-20')
+
+    expect(body).toBe(
+      'FILLING FAST: Friday Feb 20, 10:00pm. Players: 20/24 (4 spots left). Goalies: 2/3. Status: Act now! https://hockey.example.com/r/2026-02-20'
+    )
+  })
+
+  it('truncates the text so the full link still fits in 160 characters', () => {
+    const alert = createAlert()
+    const body = buildSmsBody(alert, alert.registrationUrl)
+
+    expect(body.length).toBeLessThanOrEqual(SMS_MAX_LENGTH)
+    expect(body.endsWith(` ${alert.registrationUrl}`)).toBe(true)
+    expect(body).toContain('... ')
+  })
+
+  it('sends sold-out alerts without a link', () => {
+    const body = buildSmsBody(
+      createAlert({
+        type: 'SOLD_OUT',
+        message: '🚫 SOLD OUT: Friday Feb 20, 10:00pm\nSession is now full.',
+      }),
+      'https://hockey.example.com/r/2026-02-20'
+    )
+
+    expect(body).toBe('SOLD OUT: Friday Feb 20, 10:00pm. Session is now full.')
+  })
+})
+
+describe('shortRegistrationLink', () => {
+  it('links through PUBLIC_URL when set', () => {
+    expect(shortRegistrationLink(createAlert(), 'https://hockey.example.com/')).toBe(
+      'https://hockey.example.com/r/2026-02-20'
+    )
+  })
+
+  it("includes the session's venue", () => {
+    const alert = createAlert({ session: createSession({ venue: 'other' }) })
+
+    expect(shortRegistrationLink(alert, 'https://hockey.example.com')).toBe(
+      'https://hockey.example.com/r/other/2026-02-20'
+    )
+  })
+
+  it('falls back to the registration URL', () => {
+    const alert = createAlert()
+    expect(shortRegistrationLink(alert)).toBe(alert.registrationUrl)
+  })
+})
+
+describe('SmsNotifier', () => {
+  let api: FakeTwilioApi
+
+  beforeEach(async () => {
+    api = new FakeTwilioApi()
+    await api.start()
+  })
+
+  afterEach(async () => {
+    await api.stop()
+  })
+
+  const createNotifier = (to: string[] = ['+15555550100'], alertTypes?: Alert['type'][]) =>
+    new SmsNotifier(ACCOUNT_SID, 'secret', '+15555550199', to, {
+      apiUrl: api.url,
+      alertTypes,
+      publicUrl: 'https://hockey.example.com',
+    })
+
+  it('is configured with credentials, a sender and at least one recipient', () => {
+    expect(createNotifier().isConfigured()).toBe(true)
+    expect(createNotifier([]).isConfigured()).toBe(false)
+  })
+
+  it('texts opted-in alerts to every number with basic auth', async () => {
+    await createNotifier(['+15555550100', '+15555550101']).send(createAlert())
+
+    expect(api.messages).toHaveLength(2)
+    expect(api.messages.map((m) => m.to)).toEqual(['+15555550100', '+15555550101'])
+    expect(api.messages[0]).toMatchObject({
+      accountSid: ACCOUNT_SID,
+      auth: `${ACCOUNT_SID}:secret`,
+      from: '+15555550199',
+    })
+    expect(api.messages[0].body).toContain('https://hockey.example.com/r/2026-02-20')
+    expect(api.messages[0].body.length).toBeLessThanOrEqual(SMS_MAX_LENGTH)
+  })
+
+  it('only accepts FILLING_FAST and NEWLY_AVAILABLE by default', () => {
+    const notifier = createNotifier()
+
+    expect(notifier.accepts(createAlert({ type: 'OPPORTUNITY' }))).toBe(false)
+    expect(notifier.accepts(createAlert({ type: 'SOLD_OUT' }))).toBe(false)
+    expect(notifier.accepts(createAlert({ type: 'NEWLY_AVAILABLE' }))).toBe(true)
+  })
+
+  it('accepts the configured alert types', () => {
+    const notifier = createNotifier(undefined, ['OPPORTUNITY'])
+
+    expect(notifier.accepts(createAlert({ type: 'OPPORTUNITY' }))).toBe(true)
+    expect(notifier.accepts(createAlert({ type: 'FILLING_FAST' }))).toBe(false)
+  })
+
+  it('sends warnings regardless of alert types', async () => {
+    await createNotifier().sendWarning('⚠️ State file was corrupted\nRecovered from backup')
+
+    expect(api.messages[0].body).toBe(
+      'Hockey agent warning: State file was corrupted. Recovered from backup'
+    )
+  })
+
+  it('throws when the API rejects the message', async () => {
+    api.failWith(400)
+
+    await expect(createNotifier().send(createAlert())).rejects.toThrow('Twilio SMS failed: 400')
+  })
+})
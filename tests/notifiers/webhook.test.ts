@@ -0,0 +1,184 @@
+import crypto from 'crypto'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  WebhookNotifier,
+  buildAlertPayload,
+  signWebhookBody,
+  WEBHOOK_SCHEMA_VERSION,
+} from '../../src/notifiers/webhook'
+import type { Alert } from '../../src/evaluator'
+import type { Session } from '../../src/parser'
+import { FakeWebhookReceiver } from '../helpers/fake-webhook-receiver'
+
+const SECRET = 'webhook-secret'
+
+const createSession = (overrides: Partial<Session> = {}): Session => ({
+  date: '2026-02-20',
+  dayOfWeek: 'Friday',
+  time: '06:00',
+  timeLabel: '6:00am - 7:10am',
+  eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+  playersRegistered: 20,
+  playersMax: 24,
+  goaliesRegistered: 2,
+  goaliesMax: 3,
+  isFull: false,
+  price: 15,
+  ...overrides,
+})
+
+const createAlert = (overrides: Partial<Alert> = {}): Alert => ({
+  type: 'FILLING_FAST',
+  session: createSession(),
+  message: 'FILLING FAST: Friday Feb 20, 6:00am',
+  registrationUrl: 'https://example.com/register?date=2026-02-20',
+  ...overrides,
+})
+
+describe('buildAlertPayload', () => {
+  it('represents the alert with the full session and a detection time', () => {
+    const payload = buildAlertPayload(
+      createAlert({ subscribers: ['U1'] }),
+      new Date('2026-02-19T22:00:00Z')
+    )
+
+    expect(payload).toEqual({
+      version: WEBHOOK_SCHEMA_VERSION,
+      event: 'alert',
+      id: expect.any(String),
+      detectedAt: '2026-02-19T22:00:00.000Z',
+      alert: {
+        type: 'FILLING_FAST',
+        message: 'FILLING FAST: Friday Feb 20, 6:00am',
+        registrationUrl: 'https://example.com/register?date=2026-02-20',
+        session: createSession(),
+        forecast: null,
+        subscribers: ['U1'],
+      },
+    })
+  })
+
+  it('gives every alert a unique id', () => {
+    expect(buildAlertPayload(createAlert()).id).not.toBe(buildAlertPayload(createAlert()).id)
+  })
+
+  it('keeps the id and detection time assigned when the alert was queued', () => {
+    const alert = createAlert({ id: 'alert-1', detectedAt: '2026-02-19T21:00:00.000Z' })
+
+    expect(buildAlertPayload(alert, new Date('2026-02-19T22:00:00Z'))).toMatchObject({
+      id: 'alert-1',
+      detectedAt: '2026-02-19T21:00:00.000Z',
+    })
+  })
+})
+
+describe('signWebhookBody', () => {
+  it('signs "v1:<timestamp>:<body>" with HMAC-SHA256', () => {
+    const expected = crypto
+      .createHmac('sha256', SECRET)
+      .update('v1:1700000000:{"a":1}')
+      .digest('hex')
+
+    expect(signWebhookBody(SECRET, '1700000000', '{"a":1}')).toBe(`v1=${expected}`)
+  })
+})
+
+describe('WebhookNotifier', () => {
+  let receiver: FakeWebhookReceiver
+
+  beforeEach(async () => {
+    receiver = new FakeWebhookReceiver()
+    await receiver.start()
+  })
+
+  afterEach(async () => {
+    await receiver.stop()
+  })
+
+  const createNotifier = (urls = [`${receiver.url}/hook`]) =>
+    new WebhookNotifier(urls, SECRET, { backoffMs: 0 })
+
+  it('is configured with at least one URL and a secret', () => {
+    expect(createNotifier().isConfigured()).toBe(true)
+    expect(createNotifier([]).isConfigured()).toBe(false)
+    expect(new WebhookNotifier([receiver.url], '').isConfigured()).toBe(false)
+  })
+
+  it('posts a signed JSON payload the receiver can verify', async () => {
+    await createNotifier().send(createAlert())
+
+    expect(receiver.requests).toHaveLength(1)
+    const [request] = receiver.requests
+    expect(request.path).toBe('/hook')
+    expect(request.headers['content-type']).toBe('application/json')
+    expect(request.headers['x-hockey-event']).toBe('alert')
+
+    const timestamp = request.headers['x-hockey-timestamp'] as string
+    expect(request.headers['x-hockey-signature']).toBe(
+      signWebhookBody(SECRET, timestamp, request.body)
+    )
+    expect(JSON.parse(request.body).alert.session.date).toBe('2026-02-20')
+  })
+
+  it('posts to every URL', async () => {
+    await createNotifier([`${receiver.url}/a`, `${receiver.url}/b`]).send(createAlert())
+
+    expect(receiver.requests.map((r) => r.path)).toEqual(['/a', '/b'])
+  })
+
+  it('retries server errors with the same payload', async () => {
+    receiver.respondWith(503, 500)
+
+    await createNotifier().send(createAlert())
+
+    expect(receiver.requests).toHaveLength(3)
+    const ids = receiver.requests.map((r) => JSON.parse(r.body).id)
+    expect(new Set(ids).size).toBe(1)
+  })
+
+  it('gives up after the last attempt', async () => {
+    receiver.respondWith(500, 500, 500)
+
+    await expect(createNotifier().send(createAlert())).rejects.toThrow(
+      'Webhook delivery failed for 1 of 1 URLs'
+    )
+    expect(receiver.requests).toHaveLength(3)
+  })
+
+  it('does not retry payloads the receiver rejects', async () => {
+    receiver.respondWith(400)
+
+    await expect(createNotifier().send(createAlert())).rejects.toThrow('400')
+    expect(receiver.requests).toHaveLength(1)
+  })
+
+  it('still delivers to the remaining URLs when one fails', async () => {
+    receiver.respondWith(404)
+
+    await expect(
+      createNotifier([`${receiver.url}/a`, `${receiver.url}/b`]).send(createAlert())
+    ).rejects.toThrow('1 of 2 URLs')
+    expect(receiver.requests.map((r) => r.path)).toEqual(['/a', '/b'])
+  })
+
+  it('retries network errors', async () => {
+    const notifier = new WebhookNotifier(['http://127.0.0.1:1/hook'], SECRET, {
+      maxAttempts: 2,
+      backoffMs: 0,
+    })
+
+    await expect(notifier.send(createAlert())).rejects.toThrow('after 2 attempts')
+  })
+
+  it('sends warnings as a warning event', async () => {
+    await createNotifier().sendWarning('State file was corrupted')
+
+    const [request] = receiver.requests
+    expect(request.headers['x-hockey-event']).toBe('warning')
+    expect(JSON.parse(request.body)).toMatchObject({
+      version: WEBHOOK_SCHEMA_VERSION,
+      event: 'warning',
+      message: 'State file was corrupted',
+    })
+  })
+})
@@ -0,0 +1,485 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  deliverOutbox,
+  enqueueAlert,
+  loadOutbox,
+  nextAttemptTime,
+  reachedAlerts,
+  saveOutbox,
+  type Outbox,
+  type OutboxEntry,
+} from '../src/outbox'
+import type { Notifier } from '../src/notifiers/interface'
+import type { Alert } from '../src/evaluator'
+import type { Session } from '../src/parser'
+
+describe('outbox', () => {
+  const testDataDir = path.join(__dirname, '../data/test-outbox')
+  const outboxPath = path.join(testDataDir, 'outbox.json')
+
+  // Thursday Feb 19, 2026 2pm ET - the session is the next morning
+  const now = new Date('2026-02-19T19:00:00Z')
+  const options = { maxAttempts: 3, retryMinutes: 5 }
+  const minutesLater = (minutes: number): Date => new Date(now.getTime() + minutes * 60 * 1000)
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-20',
+    dayOfWeek: 'Friday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 20,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const createAlert = (overrides: Partial<Alert> = {}): Alert => ({
+    type: 'FILLING_FAST',
+    session: createSession(),
+    message: 'Test message',
+    registrationUrl: 'https://example.com/register',
+    ...overrides,
+  })
+
+  const createNotifier = (name: string, send: Notifier['send'] = async () => {}): Notifier => ({
+    name,
+    send,
+    isConfigured: () => true,
+  })
+
+  const failing = (name: string): Notifier =>
+    createNotifier(name, async () => {
+      throw new Error(`${name} is down`)
+    })
+
+  const empty: Outbox = { pending: [], deadLetters: [] }
+
+  beforeEach(() => {
+    fs.mkdirSync(testDataDir, { recursive: true })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  describe('loadOutbox / saveOutbox', () => {
+    it('returns an empty outbox when the file does not exist', () => {
+      expect(loadOutbox(outboxPath)).toEqual(empty)
+    })
+
+    it('returns an empty outbox when the file is corrupted', () => {
+      fs.writeFileSync(outboxPath, '{ not json')
+
+      expect(loadOutbox(outboxPath)).toEqual(empty)
+    })
+
+    it('round-trips pending entries and dead letters', () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Slack'], now)
+
+      saveOutbox(outboxPath, outbox)
+
+      expect(loadOutbox(outboxPath)).toEqual(outbox)
+      expect(fs.existsSync(path.join(testDataDir, '.outbox.json.tmp'))).toBe(false)
+    })
+
+    it('creates the parent directory', () => {
+      const nestedPath = path.join(testDataDir, 'nested', 'outbox.json')
+
+      saveOutbox(nestedPath, empty)
+
+      expect(fs.existsSync(nestedPath)).toBe(true)
+    })
+  })
+
+  describe('enqueueAlert', () => {
+    it('adds one entry per notifier, due immediately', () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Console', 'Slack'], now)
+
+      expect(outbox.pending.map((e) => e.notifier)).toEqual(['Console', 'Slack'])
+      expect(outbox.pending[0]).toMatchObject({
+        attempts: 0,
+        enqueuedAt: now.toISOString(),
+        nextAttemptAt: now.toISOString(),
+        lastError: null,
+      })
+      expect(outbox.pending[0].id).not.toBe(outbox.pending[1].id)
+    })
+
+    it('replaces a pending alert for the same session, type and notifier, keeping its backoff', () => {
+      const first = enqueueAlert(empty, createAlert({ message: 'old' }), ['Slack'], now)
+      const retrying: Outbox = {
+        ...first,
+        pending: [
+          { ...first.pending[0], attempts: 2, nextAttemptAt: minutesLater(10).toISOString() },
+        ],
+      }
+
+      const outbox = enqueueAlert(
+        retrying,
+        createAlert({ message: 'new' }),
+        ['Slack'],
+        minutesLater(1)
+      )
+
+      expect(outbox.pending).toHaveLength(1)
+      expect(outbox.pending[0]).toMatchObject({
+        attempts: 2,
+        nextAttemptAt: minutesLater(10).toISOString(),
+      })
+      expect(outbox.pending[0].alert.message).toBe('new')
+      expect(outbox.pending[0].alert).toMatchObject({
+        id: first.pending[0].alert.id,
+        detectedAt: now.toISOString(),
+      })
+    })
+
+    it('gives the alert one id and detection time shared by every notifier', () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Console', 'Slack'], now)
+
+      expect(outbox.pending[0].alert.id).toEqual(expect.any(String))
+      expect(outbox.pending[1].alert.id).toBe(outbox.pending[0].alert.id)
+      expect(outbox.pending[1].alert.detectedAt).toBe(now.toISOString())
+    })
+
+    it('keeps a pending higher-ranked alert when a lower one is queued', () => {
+      let outbox = enqueueAlert(empty, createAlert({ type: 'SOLD_OUT' }), ['Slack'], now)
+      outbox = enqueueAlert(outbox, createAlert(), ['Slack'], now)
+
+      expect(outbox.pending.map((e) => e.alert.type)).toEqual(['SOLD_OUT', 'FILLING_FAST'])
+    })
+
+    it("drops the session's pending lower-ranked alerts for the notifier when one escalates", () => {
+      let outbox = enqueueAlert(
+        empty,
+        createAlert({ type: 'OPPORTUNITY' }),
+        ['Slack', 'Email'],
+        now,
+        {
+          digestWindowMinutes: 60,
+        }
+      )
+      outbox = enqueueAlert(
+        outbox,
+        createAlert({ session: createSession({ date: '2026-02-21' }), type: 'OPPORTUNITY' }),
+        ['Slack'],
+        now,
+        { digestWindowMinutes: 60 }
+      )
+      outbox = enqueueAlert(outbox, createAlert(), ['Slack'], minutesLater(10))
+
+      expect(outbox.pending.map((e) => [e.notifier, e.alert.type, e.alert.session.date])).toEqual([
+        ['Email', 'OPPORTUNITY', '2026-02-20'],
+        ['Slack', 'OPPORTUNITY', '2026-02-21'],
+        ['Slack', 'FILLING_FAST', '2026-02-20'],
+      ])
+    })
+
+    it('holds digest entries for the window', () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Slack'], now, {
+        digestWindowMinutes: 30,
+      })
+
+      expect(outbox.pending[0]).toMatchObject({
+        digest: true,
+        nextAttemptAt: minutesLater(30).toISOString(),
+      })
+    })
+
+    it('adds later digest entries to the open digest', () => {
+      let outbox = enqueueAlert(empty, createAlert(), ['Slack'], now, { digestWindowMinutes: 30 })
+      outbox = enqueueAlert(
+        outbox,
+        createAlert({ session: createSession({ date: '2026-02-21' }) }),
+        ['Slack'],
+        minutesLater(10),
+        { digestWindowMinutes: 30 }
+      )
+
+      expect(outbox.pending.map((e) => e.nextAttemptAt)).toEqual([
+        minutesLater(30).toISOString(),
+        minutesLater(30).toISOString(),
+      ])
+    })
+
+    it('does not mutate the original outbox', () => {
+      enqueueAlert(empty, createAlert(), ['Slack'], now)
+
+      expect(empty.pending).toHaveLength(0)
+    })
+  })
+
+  describe('deliverOutbox', () => {
+    it('delivers due entries and removes them from the outbox', async () => {
+      const send = vi.fn(async () => {})
+      const outbox = enqueueAlert(empty, createAlert(), ['Slack'], now)
+
+      const result = await deliverOutbox(outbox, [createNotifier('Slack', send)], options, now)
+
+      expect(send).toHaveBeenCalledWith(outbox.pending[0].alert)
+      expect(result.delivered).toEqual(outbox.pending)
+      expect(result.outbox.pending).toHaveLength(0)
+    })
+
+    it('reschedules failures with exponential backoff', async () => {
+      let outbox = enqueueAlert(empty, createAlert(), ['Slack'], now)
+
+      let result = await deliverOutbox(outbox, [failing('Slack')], options, now)
+      expect(result.delivered).toHaveLength(0)
+      expect(result.outbox.pending[0]).toMatchObject({
+        attempts: 1,
+        nextAttemptAt: minutesLater(5).toISOString(),
+        lastError: 'Slack is down',
+      })
+
+      outbox = result.outbox
+      result = await deliverOutbox(outbox, [failing('Slack')], options, minutesLater(5))
+      expect(result.outbox.pending[0]).toMatchObject({
+        attempts: 2,
+        nextAttemptAt: minutesLater(15).toISOString(),
+      })
+    })
+
+    it('leaves entries that are not yet due untouched', async () => {
+      const send = vi.fn(async () => {})
+      const failed = await deliverOutbox(
+        enqueueAlert(empty, createAlert(), ['Slack'], now),
+        [failing('Slack')],
+        options,
+        now
+      )
+
+      const result = await deliverOutbox(
+        failed.outbox,
+        [createNotifier('Slack', send)],
+        options,
+        minutesLater(4)
+      )
+
+      expect(send).not.toHaveBeenCalled()
+      expect(result.outbox.pending).toEqual(failed.outbox.pending)
+    })
+
+    it('moves an entry to the dead letters after maxAttempts failures', async () => {
+      let outbox = enqueueAlert(empty, createAlert(), ['Slack'], now)
+
+      for (const at of [now, minutesLater(5), minutesLater(15)]) {
+        outbox = (await deliverOutbox(outbox, [failing('Slack')], options, at)).outbox
+      }
+
+      expect(outbox.pending).toHaveLength(0)
+      expect(outbox.deadLetters).toHaveLength(1)
+      expect(outbox.deadLetters[0]).toMatchObject({
+        notifier: 'Slack',
+        attempts: 3,
+        lastError: 'Slack is down (after 3 attempts)',
+        failedAt: minutesLater(15).toISOString(),
+      })
+    })
+
+    it('only retries the notifier that failed', async () => {
+      const send = vi.fn(async () => {})
+      const outbox = enqueueAlert(empty, createAlert(), ['Console', 'Slack'], now)
+      const notifiers = [createNotifier('Console', send), failing('Slack')]
+
+      const first = await deliverOutbox(outbox, notifiers, options, now)
+      const second = await deliverOutbox(first.outbox, notifiers, options, minutesLater(5))
+
+      expect(send).toHaveBeenCalledTimes(1)
+      expect(first.delivered.map((e) => e.notifier)).toEqual(['Console'])
+      expect(second.outbox.pending.map((e) => e.notifier)).toEqual(['Slack'])
+    })
+
+    it('dead-letters entries for sessions that have started', async () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Slack'], now)
+      const send = vi.fn(async () => {})
+
+      // 6:30am ET on the session day
+      const result = await deliverOutbox(
+        outbox,
+        [createNotifier('Slack', send)],
+        options,
+        new Date('2026-02-20T11:30:00Z')
+      )
+
+      expect(send).not.toHaveBeenCalled()
+      expect(result.outbox.pending).toHaveLength(0)
+      expect(result.outbox.deadLetters[0].lastError).toBe('session started')
+    })
+
+    it('dead-letters entries for notifiers that are no longer configured', async () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Email'], now)
+
+      const result = await deliverOutbox(outbox, [createNotifier('Slack')], options, now)
+
+      expect(result.outbox.pending).toHaveLength(0)
+      expect(result.outbox.deadLetters[0].lastError).toBe('Email is not configured')
+    })
+
+    it('keeps only the most recent 100 dead letters', async () => {
+      const entry: OutboxEntry = enqueueAlert(empty, createAlert(), ['Email'], now).pending[0]
+      const deadLetters = Array.from({ length: 100 }, (_, i) => ({
+        ...entry,
+        id: `old-${i}`,
+        failedAt: now.toISOString(),
+      }))
+
+      const result = await deliverOutbox(
+        { pending: [entry], deadLetters },
+        [createNotifier('Slack')],
+        options,
+        now
+      )
+
+      expect(result.outbox.deadLetters).toHaveLength(100)
+      expect(result.outbox.deadLetters[0].id).toBe('old-1')
+      expect(result.outbox.deadLetters[99].id).toBe(entry.id)
+    })
+  })
+
+  describe('digests', () => {
+    const saturday = createAlert({ session: createSession({ date: '2026-02-21' }) })
+    const digestOf = (alerts: Alert[], notifierNames: string[]): Outbox =>
+      alerts.reduce(
+        (outbox, alert) =>
+          enqueueAlert(outbox, alert, notifierNames, now, { digestWindowMinutes: 0 }),
+        empty
+      )
+
+    const createDigestNotifier = (name: string) => {
+      const notifier = {
+        ...createNotifier(
+          name,
+          vi.fn(async () => {})
+        ),
+        sendDigest: vi.fn(async (_alerts: Alert[]) => {}),
+      }
+      return notifier
+    }
+
+    it('sends due digest entries for a notifier as one digest in evaluation order', async () => {
+      const slack = createDigestNotifier('Slack')
+      const friday = createAlert()
+
+      const result = await deliverOutbox(
+        digestOf([saturday, friday], ['Slack']),
+        [slack],
+        options,
+        now
+      )
+
+      expect(slack.sendDigest).toHaveBeenCalledWith([
+        expect.objectContaining(friday),
+        expect.objectContaining(saturday),
+      ])
+      expect(slack.send).not.toHaveBeenCalled()
+      expect(result.delivered).toHaveLength(2)
+    })
+
+    it('sends a lone digest entry as a normal alert', async () => {
+      const slack = createDigestNotifier('Slack')
+
+      await deliverOutbox(digestOf([saturday], ['Slack']), [slack], options, now)
+
+      expect(slack.send).toHaveBeenCalledWith(expect.objectContaining(saturday))
+      expect(slack.sendDigest).not.toHaveBeenCalled()
+    })
+
+    it('sends alerts one by one through notifiers without digest support', async () => {
+      const send = vi.fn(async () => {})
+
+      await deliverOutbox(
+        digestOf([createAlert(), saturday], ['SMS']),
+        [createNotifier('SMS', send)],
+        options,
+        now
+      )
+
+      expect(send).toHaveBeenCalledTimes(2)
+    })
+
+    it('keeps immediate entries out of the digest', async () => {
+      const slack = createDigestNotifier('Slack')
+      const urgent = createAlert({ type: 'SOLD_OUT', session: createSession({ time: '22:00' }) })
+      const outbox = enqueueAlert(
+        digestOf([createAlert(), saturday], ['Slack']),
+        urgent,
+        ['Slack'],
+        now
+      )
+
+      await deliverOutbox(outbox, [slack], options, now)
+
+      expect(slack.send).toHaveBeenCalledWith(expect.objectContaining(urgent))
+      expect(slack.sendDigest).toHaveBeenCalledTimes(1)
+    })
+
+    it('reschedules every entry of a failed digest together', async () => {
+      const slack = createDigestNotifier('Slack')
+      slack.sendDigest.mockRejectedValueOnce(new Error('Slack is down'))
+
+      const result = await deliverOutbox(
+        digestOf([createAlert(), saturday], ['Slack']),
+        [slack],
+        options,
+        now
+      )
+
+      expect(result.delivered).toHaveLength(0)
+      expect(result.outbox.pending.map((e) => [e.attempts, e.nextAttemptAt])).toEqual([
+        [1, minutesLater(5).toISOString()],
+        [1, minutesLater(5).toISOString()],
+      ])
+    })
+  })
+
+  describe('reachedAlerts', () => {
+    const notifiers = [createNotifier('Console'), createNotifier('Slack')]
+
+    it('ignores console-only deliveries when another notifier is configured', () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Console'], now)
+
+      expect(reachedAlerts(outbox.pending, notifiers)).toEqual([])
+    })
+
+    it('counts console deliveries when the console is the only notifier', () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Console'], now)
+
+      expect(reachedAlerts(outbox.pending, [createNotifier('Console')])).toHaveLength(1)
+    })
+
+    it('counts console deliveries of alerts routed away from every other notifier', () => {
+      const outbox = enqueueAlert(empty, createAlert(), ['Console'], now)
+
+      expect(reachedAlerts(outbox.pending, notifiers, () => true)).toHaveLength(1)
+    })
+
+    it('returns each alert once however many notifiers delivered it', () => {
+      const alert = createAlert()
+      const outbox = enqueueAlert(empty, alert, ['Console', 'Slack', 'Email'], now)
+
+      expect(reachedAlerts(outbox.pending, notifiers)).toEqual([outbox.pending[0].alert])
+    })
+  })
+
+  describe('nextAttemptTime', () => {
+    it('is the earliest retry or digest due time', () => {
+      let outbox = enqueueAlert(empty, createAlert(), ['Slack'], minutesLater(10))
+      const saturday = createAlert({ session: createSession({ date: '2026-02-21' }) })
+      outbox = enqueueAlert(outbox, saturday, ['Email'], now, { digestWindowMinutes: 5 })
+
+      expect(nextAttemptTime(outbox)).toEqual(minutesLater(5))
+    })
+
+    it('is null when nothing is pending', () => {
+      expect(nextAttemptTime(empty)).toBeNull()
+    })
+  })
+})
@@ -1,7 +1,14 @@
 import { describe, it, expect } from 'vitest'
 import { readFile } from 'fs/promises'
 import { join } from 'path'
-import { parseEvents, type Session } from '../src/parser.js'
+import {
+  isSameSession,
+  matchesSessionRef,
+  parseEvents,
+  sessionId,
+  sessionKey,
+  type Session,
+} from '../src/parser.js'
 
 describe('Parser', () => {
   it('should parse Friday fixture with ADULT Pick Up sessions', async () => {
@@ -155,4 +162,136 @@ describe('Parser', () => {
     const uniqueTimes = new Set(sessions.map((s) => s.time))
     expect(uniqueTimes.size).toBeGreaterThan(1)
   })
+
+  describe('rinks', () => {
+    const event = (id: string, team: 'p' | 'g', resourceId?: string) => ({
+      id,
+      type: 'events',
+      attributes: { start: '2026-02-20T06:00:00', end: '2026-02-20T07:10:00' },
+      relationships: {
+        homeTeam: { data: { type: 'teams', id: team } },
+        summary: { data: { type: 'event-summaries', id } },
+        ...(resourceId && { resource: { data: { type: 'resources', id: resourceId } } }),
+      },
+    })
+
+    const included = [
+      { id: 'p', type: 'teams', attributes: { name: '(PLAYERS) ADULT Pick Up' } },
+      { id: 'g', type: 'teams', attributes: { name: '(GOALIES) ADULT Pick Up' } },
+      ...['1', '2', '3', '4'].map((id) => ({
+        id,
+        type: 'event-summaries',
+        attributes: { registered_count: Number(id), composite_capacity: 20 },
+      })),
+      { id: 'r1', type: 'resources', attributes: { name: 'MAIN RINK' } },
+      { id: 'r2', type: 'resources', attributes: { name: 'TRAINING RINK' } },
+    ]
+
+    it('keeps simultaneous sessions on different rinks apart and names the rink', () => {
+      const sessions = parseEvents({
+        data: [
+          event('1', 'p', 'r1'),
+          event('2', 'g', 'r1'),
+          event('3', 'p', 'r2'),
+          event('4', 'g', 'r2'),
+        ],
+        included,
+      } as any)
+
+      expect(sessions).toHaveLength(2)
+      expect(sessions.map((s) => [s.playersEventId, s.goaliesEventId])).toEqual([
+        ['1', '2'],
+        ['3', '4'],
+      ])
+      expect(sessions.map((s) => [s.rink, s.playersRegistered, s.goaliesRegistered])).toEqual([
+        ['MAIN RINK', 1, 2],
+        ['TRAINING RINK', 3, 4],
+      ])
+    })
+
+    it('leaves the rink unset when DASH does not include the resource', () => {
+      const sessions = parseEvents({ data: [event('1', 'p'), event('2', 'g')], included } as any)
+
+      expect(sessions).toHaveLength(1)
+      expect(sessions[0].rink).toBeUndefined()
+    })
+  })
+
+  describe('session identity', () => {
+    const session = (overrides: Partial<Session> = {}): Session => ({
+      date: '2026-02-20',
+      dayOfWeek: 'Friday',
+      time: '06:00',
+      timeLabel: '6:00am - 7:10am',
+      eventName: '(PLAYERS) ADULT Pick Up',
+      playersRegistered: 10,
+      playersMax: 20,
+      goaliesRegistered: 1,
+      goaliesMax: 3,
+      isFull: false,
+      price: 0,
+      ...overrides,
+    })
+
+    it('keys sessions by venue, rink, date and time', () => {
+      expect(sessionKey(session({ venue: 'a', rink: 'MAIN RINK' }))).toBe(
+        'a:MAIN RINK:2026-02-20:06:00'
+      )
+      expect(sessionKey(session())).toBe('::2026-02-20:06:00')
+    })
+
+    it('tells sessions at the same time at different venues or rinks apart', () => {
+      expect(isSameSession(session({ venue: 'a' }), session({ venue: 'b' }))).toBe(false)
+      expect(
+        isSameSession(session({ rink: 'MAIN RINK' }), session({ rink: 'TRAINING RINK' }))
+      ).toBe(false)
+      expect(
+        isSameSession(session({ venue: 'a', rink: 'X' }), session({ venue: 'a', rink: 'X' }))
+      ).toBe(true)
+    })
+
+    it('identifies sessions by venue and event ids when known', () => {
+      const withIds = session({ venue: 'a', playersEventId: '1', goaliesEventId: '2' })
+
+      expect(sessionId(withIds)).toBe('a:1:2')
+      expect(sessionKey(withIds)).toBe('a:1:2')
+      expect(sessionId(session())).toBeUndefined()
+    })
+
+    it('matches a rescheduled session by its event ids', () => {
+      const before = session({ playersEventId: '1', goaliesEventId: '2' })
+      const after = session({ time: '06:15', playersEventId: '1', goaliesEventId: '2' })
+
+      expect(isSameSession(before, after)).toBe(true)
+      expect(isSameSession(before, { ...before, playersEventId: '3', goaliesEventId: '4' })).toBe(
+        false
+      )
+    })
+
+    it('matches refs by id when they have one, otherwise by date and time', () => {
+      const withIds = session({ venue: 'a', playersEventId: '1', goaliesEventId: '2' })
+
+      expect(matchesSessionRef(withIds, { id: 'a:1:2', date: '2026-02-19', time: '21:00' })).toBe(
+        true
+      )
+      expect(matchesSessionRef(withIds, { id: 'a:3:4', date: '2026-02-20', time: '06:00' })).toBe(
+        false
+      )
+      expect(matchesSessionRef(withIds, { date: '2026-02-20', time: '06:00' })).toBe(true)
+    })
+
+    it('compares the venue of refs without an id when both sides have one', () => {
+      const here = session({ venue: 'a' })
+      const ref = { date: '2026-02-20', time: '06:00' }
+
+      expect(matchesSessionRef(here, { ...ref, venue: 'a' })).toBe(true)
+      expect(matchesSessionRef(here, { ...ref, venue: 'b' })).toBe(false)
+      expect(matchesSessionRef(session(), { ...ref, venue: 'b' })).toBe(true)
+    })
+
+    it('matches sessions saved without a venue or rink by date and time', () => {
+      expect(isSameSession(session(), session({ venue: 'a', rink: 'MAIN RINK' }))).toBe(true)
+      expect(isSameSession(session(), session({ venue: 'a', time: '21:00' }))).toBe(false)
+    })
+  })
 })
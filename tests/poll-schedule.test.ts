@@ -2,7 +2,10 @@ import { describe, it, expect } from 'vitest'
 import {
   calculateNextPollDelay,
   getNextSessionTime,
+  parseSessionTime,
   parseSessionTimeET,
+  sessionStartTime,
+  wakeForPendingDelivery,
 } from '../src/poll-schedule'
 import type { SessionState } from '../src/evaluator'
 import type { Session } from '../src/parser'
@@ -87,6 +90,28 @@ describe('parseSessionTimeET', () => {
   })
 })
 
+describe('parseSessionTime', () => {
+  it('converts wall-clock time in another zone to UTC', () => {
+    // Feb 20, 2026 9:00 PM CT (CST, UTC-6) = Feb 21, 2026 03:00 UTC
+    expect(parseSessionTime('2026-02-20', '21:00', 'America/Chicago').toISOString()).toBe(
+      '2026-02-21T03:00:00.000Z'
+    )
+    // Jul 15, 2026 9:00 PM PT (PDT, UTC-7) = Jul 16, 2026 04:00 UTC
+    expect(parseSessionTime('2026-07-15', '21:00', 'America/Los_Angeles').toISOString()).toBe(
+      '2026-07-16T04:00:00.000Z'
+    )
+  })
+
+  it("uses the session's venue time zone, ET when it has none", () => {
+    const session = makeSession('2026-02-20', '06:00')
+
+    expect(sessionStartTime(session).toISOString()).toBe('2026-02-20T11:00:00.000Z')
+    expect(sessionStartTime({ ...session, timezone: 'America/Denver' }).toISOString()).toBe(
+      '2026-02-20T13:00:00.000Z'
+    )
+  })
+})
+
 describe('getNextSessionTime', () => {
   it('returns null when no sessions', () => {
     const now = new Date('2026-02-20T15:00:00Z')
@@ -332,3 +357,29 @@ describe('calculateNextPollDelay', () => {
     })
   })
 })
+
+describe('wakeForPendingDelivery', () => {
+  const now = new Date('2026-02-20T15:00:00Z') // 10 AM ET
+  const sleep = calculateNextPollDelay(now, null, defaultConfig, false) // 12h
+
+  it('keeps the schedule when nothing is queued', () => {
+    expect(wakeForPendingDelivery(sleep, now, null)).toBe(sleep)
+  })
+
+  it('wakes for a retry or digest due before the next poll', () => {
+    const result = wakeForPendingDelivery(sleep, now, new Date('2026-02-20T15:20:00Z'))
+
+    expect(result.delayMs).toBe(20 * 60 * 1000)
+    expect(result.reason).toBe('delivery')
+  })
+
+  it('keeps the schedule when the next poll comes first', () => {
+    expect(wakeForPendingDelivery(sleep, now, new Date('2026-02-21T15:00:00Z'))).toBe(sleep)
+  })
+
+  it('waits at least a minute for overdue entries', () => {
+    const result = wakeForPendingDelivery(sleep, now, new Date('2026-02-20T14:00:00Z'))
+
+    expect(result.delayMs).toBe(60 * 1000)
+  })
+})
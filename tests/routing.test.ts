@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  allowsAlert,
+  isRoutedAway,
+  loadRoutes,
+  routeAlert,
+  type NotifierRoute,
+} from '../src/routing'
+import type { Notifier } from '../src/notifiers/interface'
+import type { Alert } from '../src/evaluator'
+import type { Session } from '../src/parser'
+
+describe('routing', () => {
+  const testDataDir = path.join(__dirname, '../data/test-routing')
+  const routesPath = path.join(testDataDir, 'routes.json')
+
+  // Thursday Feb 19, 2026: 2pm and 10:30pm ET (EST, UTC-5)
+  const afternoon = new Date('2026-02-19T19:00:00Z')
+  const lateEvening = new Date('2026-02-20T03:30:00Z')
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-20',
+    dayOfWeek: 'Friday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 20,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const createAlert = (overrides: Partial<Alert> = {}): Alert => ({
+    type: 'FILLING_FAST',
+    session: createSession(),
+    message: 'Test message',
+    registrationUrl: 'https://example.com/register',
+    ...overrides,
+  })
+
+  const createNotifier = (name: string): Notifier => ({
+    name,
+    send: async () => {},
+    isConfigured: () => true,
+  })
+
+  const writeRoutes = (routes: unknown[]): void => {
+    fs.writeFileSync(routesPath, JSON.stringify({ routes }))
+  }
+
+  beforeEach(() => {
+    fs.mkdirSync(testDataDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+  })
+
+  describe('loadRoutes', () => {
+    it('loads valid routes', () => {
+      writeRoutes([
+        {
+          notifier: 'SMS',
+          alertTypes: ['FILLING_FAST', 'NEWLY_AVAILABLE'],
+          daysOfWeek: ['friday'],
+          minPriority: 200,
+          quietHours: {
+            from: '22:00',
+            to: '06:00',
+            allow: { alertTypes: ['NEWLY_AVAILABLE'], sessionWithinHours: 12 },
+          },
+        },
+        { notifier: 'console' },
+      ])
+
+      const routes = loadRoutes(routesPath)
+
+      expect(routes).toHaveLength(2)
+      expect(routes[0].quietHours?.allow).toEqual({
+        alertTypes: ['NEWLY_AVAILABLE'],
+        sessionWithinHours: 12,
+      })
+    })
+
+    it('throws when the file is missing', () => {
+      expect(() => loadRoutes(path.join(testDataDir, 'missing.json'))).toThrow(
+        'Cannot read routes file'
+      )
+    })
+
+    it('throws without a routes array', () => {
+      fs.writeFileSync(routesPath, '[]')
+
+      expect(() => loadRoutes(routesPath)).toThrow('must contain { "routes": [...] }')
+    })
+
+    it('rejects unknown notifiers', () => {
+      writeRoutes([{ notifier: 'Telegram' }])
+
+      expect(() => loadRoutes(routesPath)).toThrow('Invalid route for "Telegram"')
+    })
+
+    it('rejects duplicate routes for a notifier', () => {
+      writeRoutes([{ notifier: 'SMS' }, { notifier: 'sms' }])
+
+      expect(() => loadRoutes(routesPath)).toThrow('Duplicate route for notifier "sms"')
+    })
+
+    it('rejects unknown alert types', () => {
+      writeRoutes([{ notifier: 'SMS', alertTypes: ['FILLING_SLOW'] }])
+
+      expect(() => loadRoutes(routesPath)).toThrow('"alertTypes" must be a list of')
+    })
+
+    it('rejects invalid quiet hours', () => {
+      writeRoutes([{ notifier: 'SMS', quietHours: { from: '10pm', to: '06:00' } }])
+
+      expect(() => loadRoutes(routesPath)).toThrow('"quietHours" must be')
+    })
+
+    it('rejects a non-positive sessionWithinHours', () => {
+      writeRoutes([
+        {
+          notifier: 'SMS',
+          quietHours: { from: '22:00', to: '06:00', allow: { sessionWithinHours: 0 } },
+        },
+      ])
+
+      expect(() => loadRoutes(routesPath)).toThrow('"quietHours.allow.sessionWithinHours"')
+    })
+  })
+
+  describe('allowsAlert', () => {
+    it('filters by alert type', () => {
+      const route: NotifierRoute = { notifier: 'SMS', alertTypes: ['NEWLY_AVAILABLE'] }
+
+      expect(allowsAlert(route, createAlert({ type: 'NEWLY_AVAILABLE' }), afternoon)).toBe(true)
+      expect(allowsAlert(route, createAlert({ type: 'FILLING_FAST' }), afternoon)).toBe(false)
+    })
+
+    it('filters by session day', () => {
+      const route: NotifierRoute = { notifier: 'SMS', daysOfWeek: ['Friday', 'saturday'] }
+
+      expect(allowsAlert(route, createAlert(), afternoon)).toBe(true)
+      expect(
+        allowsAlert(
+          route,
+          createAlert({ session: createSession({ dayOfWeek: 'Monday' }) }),
+          afternoon
+        )
+      ).toBe(false)
+    })
+
+    it('filters by minimum priority, using the rule priority when present', () => {
+      const route: NotifierRoute = { notifier: 'SMS', minPriority: 300 }
+
+      expect(allowsAlert(route, createAlert({ type: 'FILLING_FAST' }), afternoon)).toBe(false)
+      expect(allowsAlert(route, createAlert({ type: 'SOLD_OUT' }), afternoon)).toBe(true)
+      expect(
+        allowsAlert(route, createAlert({ type: 'FILLING_FAST', priority: 350 }), afternoon)
+      ).toBe(true)
+    })
+
+    it('blocks alerts during quiet hours that wrap midnight', () => {
+      const route: NotifierRoute = { notifier: 'SMS', quietHours: { from: '22:00', to: '06:00' } }
+
+      expect(allowsAlert(route, createAlert(), afternoon)).toBe(true)
+      expect(allowsAlert(route, createAlert(), lateEvening)).toBe(false)
+      // 6:00am ET is the end of the window
+      expect(allowsAlert(route, createAlert(), new Date('2026-02-20T11:00:00Z'))).toBe(true)
+    })
+
+    it('blocks alerts during same-day quiet hours', () => {
+      const route: NotifierRoute = { notifier: 'SMS', quietHours: { from: '13:00', to: '17:00' } }
+
+      expect(allowsAlert(route, createAlert(), afternoon)).toBe(false)
+      expect(allowsAlert(route, createAlert(), lateEvening)).toBe(true)
+    })
+
+    it('lets allowed alerts for imminent sessions through quiet hours', () => {
+      const route: NotifierRoute = {
+        notifier: 'SMS',
+        quietHours: {
+          from: '22:00',
+          to: '06:00',
+          allow: { alertTypes: ['NEWLY_AVAILABLE'], sessionWithinHours: 12 },
+        },
+      }
+
+      // Friday 6am session is 7.5 hours away
+      expect(allowsAlert(route, createAlert({ type: 'NEWLY_AVAILABLE' }), lateEvening)).toBe(true)
+      expect(allowsAlert(route, createAlert({ type: 'FILLING_FAST' }), lateEvening)).toBe(false)
+
+      const nextWeek = createSession({ date: '2026-02-27' })
+      expect(
+        allowsAlert(route, createAlert({ type: 'NEWLY_AVAILABLE', session: nextWeek }), lateEvening)
+      ).toBe(false)
+    })
+  })
+
+  describe('routeAlert', () => {
+    const notifiers = ['Console', 'Slack', 'SMS'].map(createNotifier)
+
+    it('sends every alert to every notifier without routes', () => {
+      expect(routeAlert(createAlert(), notifiers, [], lateEvening)).toEqual(notifiers)
+    })
+
+    it('only applies a route to its own notifier', () => {
+      const routes: NotifierRoute[] = [
+        { notifier: 'sms', quietHours: { from: '22:00', to: '06:00' } },
+      ]
+
+      const routed = routeAlert(createAlert(), notifiers, routes, lateEvening)
+
+      expect(routed.map((n) => n.name)).toEqual(['Console', 'Slack'])
+    })
+
+    it('skips notifiers that have not opted into the alert type', () => {
+      const sms: Notifier = {
+        ...createNotifier('SMS'),
+        accepts: (alert) => alert.type === 'NEWLY_AVAILABLE',
+      }
+
+      const routed = routeAlert(createAlert(), [notifiers[0], sms], [], afternoon)
+
+      expect(routed.map((n) => n.name)).toEqual(['Console'])
+    })
+  })
+
+  describe('isRoutedAway', () => {
+    const notifiers = ['Console', 'Slack', 'SMS'].map(createNotifier)
+    const slackOnlyUrgent: NotifierRoute[] = [
+      { notifier: 'Slack', alertTypes: ['FILLING_FAST'] },
+      { notifier: 'SMS', minPriority: 400 },
+    ]
+
+    it('is true when route filters and opt-ins leave only the console', () => {
+      const sms: Notifier = { ...createNotifier('SMS'), accepts: () => false }
+
+      expect(isRoutedAway(createAlert({ type: 'OPPORTUNITY' }), notifiers, slackOnlyUrgent)).toBe(
+        true
+      )
+      expect(
+        isRoutedAway(createAlert(), [notifiers[0], sms], [{ notifier: 'Slack', minPriority: 1 }])
+      ).toBe(true)
+    })
+
+    it('is false when any other notifier would take the alert', () => {
+      expect(isRoutedAway(createAlert(), notifiers, slackOnlyUrgent)).toBe(false)
+      expect(isRoutedAway(createAlert({ type: 'OPPORTUNITY' }), notifiers, [])).toBe(false)
+    })
+
+    it('is false for alerts only held back by quiet hours', () => {
+      const quiet: NotifierRoute[] = [
+        { notifier: 'Slack', quietHours: { from: '22:00', to: '06:00' } },
+        { notifier: 'SMS', quietHours: { from: '22:00', to: '06:00' } },
+      ]
+
+      expect(routeAlert(createAlert(), notifiers, quiet, lateEvening)).toEqual([notifiers[0]])
+      expect(isRoutedAway(createAlert(), notifiers, quiet)).toBe(false)
+    })
+  })
+})
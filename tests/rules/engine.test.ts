@@ -0,0 +1,299 @@
+import { describe, it, expect } from 'vitest'
+import { selectRule, matchesConditions, renderMessage } from '../../src/rules/engine'
+import { builtInRules } from '../../src/rules/builtin'
+import type { AlertRule } from '../../src/rules/interface'
+import type { Config } from '../../src/config'
+import type { SessionState } from '../../src/evaluator'
+import type { SelloutForecast } from '../../src/forecast'
+import type { Session } from '../../src/parser'
+
+describe('rule engine', () => {
+  const now = new Date('2026-02-18T12:00:00Z')
+
+  const config = {
+    minGoalies: 1,
+    minPlayersRegistered: 10,
+    playerSpotsUrgent: 4,
+    selloutLeadHours: 12,
+  } as Config
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-20',
+    dayOfWeek: 'Friday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 14,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const createState = (
+    session: Session,
+    overrides: Partial<Omit<SessionState, 'session'>> = {}
+  ): SessionState => ({
+    session,
+    lastAlertType: null,
+    lastAlertAt: null,
+    lastPlayerCount: null,
+    isRegistered: false,
+    userResponse: null,
+    userRespondedAt: null,
+    remindAfter: null,
+    ...overrides,
+  })
+
+  const createRule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+    id: 'custom',
+    alertType: 'OPPORTUNITY',
+    priority: 150,
+    conditions: {},
+    suppression: { minNewRegistrations: 1, afterHigherPriority: 'suppress' },
+    message: '{dayOfWeek} {time}',
+    ...overrides,
+  })
+
+  const context = (
+    session: Session,
+    prevState?: SessionState,
+    forecast: SelloutForecast | null = null
+  ) => ({ session, prevState, forecast, now })
+
+  describe('matchesConditions', () => {
+    it('matches an empty condition set', () => {
+      expect(matchesConditions({}, context(createSession()))).toBe(true)
+    })
+
+    it('filters by day of week, case-insensitively', () => {
+      const session = createSession({ dayOfWeek: 'Friday' })
+
+      expect(matchesConditions({ daysOfWeek: ['friday'] }, context(session))).toBe(true)
+      expect(matchesConditions({ daysOfWeek: ['Tuesday'] }, context(session))).toBe(false)
+    })
+
+    it('filters by inclusive time range', () => {
+      const session = createSession({ time: '21:00' })
+
+      expect(matchesConditions({ timeRange: { from: '21:00' } }, context(session))).toBe(true)
+      expect(matchesConditions({ timeRange: { to: '20:59' } }, context(session))).toBe(false)
+      expect(
+        matchesConditions({ timeRange: { from: '18:00', to: '22:00' } }, context(session))
+      ).toBe(true)
+    })
+
+    it('filters by spots remaining, goalies and price', () => {
+      const session = createSession({ playersRegistered: 20, goaliesRegistered: 3, price: 20 })
+
+      expect(matchesConditions({ spotsRemaining: { max: 4 } }, context(session))).toBe(true)
+      expect(matchesConditions({ spotsRemaining: { min: 5 } }, context(session))).toBe(false)
+      expect(matchesConditions({ goaliesRegistered: { min: 3 } }, context(session))).toBe(true)
+      expect(matchesConditions({ price: { max: 15 } }, context(session))).toBe(false)
+    })
+
+    it('filters by event name pattern', () => {
+      const session = createSession({ eventName: '(PLAYERS) ADULT Pick Up MORNINGS' })
+
+      expect(matchesConditions({ eventNamePattern: 'mornings' }, context(session))).toBe(true)
+      expect(matchesConditions({ eventNamePattern: '^LEARN' }, context(session))).toBe(false)
+    })
+
+    it('requires a previous state for transitions', () => {
+      const full = createSession({ isFull: true, playersRegistered: 24 })
+
+      expect(matchesConditions({ transition: 'becameFull' }, context(full))).toBe(false)
+      expect(
+        matchesConditions({ transition: 'becameFull' }, context(full, createState(createSession())))
+      ).toBe(true)
+    })
+
+    it('requires a velocity forecast for selloutWithinHours', () => {
+      const session = createSession({ playersRegistered: 18 }) // 6 spots
+      const forecast: SelloutForecast = {
+        projectedAt: '2026-02-18T18:00:00.000Z',
+        playersPerHour: 1,
+        basis: 'velocity',
+      }
+
+      expect(
+        matchesConditions({ selloutWithinHours: 6 }, context(session, undefined, forecast))
+      ).toBe(true)
+      expect(
+        matchesConditions({ selloutWithinHours: 5 }, context(session, undefined, forecast))
+      ).toBe(false)
+      expect(
+        matchesConditions(
+          { selloutWithinHours: 6 },
+          context(session, undefined, { ...forecast, playersPerHour: null, basis: 'historical' })
+        )
+      ).toBe(false)
+    })
+  })
+
+  describe('selectRule', () => {
+    it('picks the highest-priority matching rule', () => {
+      const session = createSession({ playersRegistered: 21 })
+
+      const rule = selectRule(builtInRules(config), context(session))
+
+      expect(rule?.id).toBe('filling-fast')
+    })
+
+    it('returns null when nothing matches', () => {
+      const session = createSession({ playersRegistered: 5, goaliesRegistered: 0 })
+
+      expect(selectRule(builtInRules(config), context(session))).toBeNull()
+    })
+
+    it('lets a user rule outrank a built-in rule', () => {
+      const rules = [
+        ...builtInRules(config),
+        createRule({ id: 'friday-mornings', conditions: { daysOfWeek: ['Friday'] } }),
+      ]
+
+      expect(selectRule(rules, context(createSession()))?.id).toBe('friday-mornings')
+    })
+
+    it('skips non-transition rules for dismissed sessions', () => {
+      const session = createSession()
+      const prev = createState(session, { userResponse: 'not_interested' })
+
+      expect(selectRule([createRule({ suppression: null })], context(session, prev))).toBeNull()
+    })
+
+    it('still fires transition rules for registered sessions', () => {
+      const session = createSession({ isFull: true, playersRegistered: 24 })
+      const prev = createState(createSession(), { isRegistered: true })
+
+      expect(selectRule(builtInRules(config), context(session, prev))?.id).toBe('sold-out')
+    })
+
+    it('re-fires the same alert type only after enough new registrations', () => {
+      const rule = createRule({
+        suppression: { minNewRegistrations: 3, afterHigherPriority: 'suppress' },
+      })
+      const prev = createState(createSession(), {
+        lastAlertType: 'OPPORTUNITY',
+        lastPlayerCount: 14,
+      })
+
+      expect(selectRule([rule], context(createSession({ playersRegistered: 16 }), prev))).toBeNull()
+      expect(selectRule([rule], context(createSession({ playersRegistered: 17 }), prev))).toBe(rule)
+    })
+
+    it('does not downgrade from a higher-priority alert type', () => {
+      const rule = createRule()
+      const prev = createState(createSession(), {
+        lastAlertType: 'FILLING_FAST',
+        lastPlayerCount: 10,
+      })
+
+      expect(selectRule([...builtInRules(config), rule], context(createSession(), prev))).toBeNull()
+    })
+
+    it('ranks a previous alert type by the rules currently producing it', () => {
+      // User raised OPPORTUNITY above FILLING_FAST - a previous OPPORTUNITY now outranks it
+      const rules = [
+        ...builtInRules(config).filter((r) => r.id !== 'opportunity'),
+        createRule({ id: 'opportunity', priority: 250 }),
+      ]
+      const prev = createState(createSession(), {
+        lastAlertType: 'OPPORTUNITY',
+        lastPlayerCount: 21,
+      })
+
+      const rule = selectRule(rules, context(createSession({ playersRegistered: 21 }), prev))
+
+      expect(rule).toBeNull()
+    })
+
+    describe('forecast-keyed suppression', () => {
+      const forecast = (projectedAt: string): SelloutForecast => ({
+        projectedAt,
+        playersPerHour: 2,
+        basis: 'velocity',
+      })
+      const filling = createSession({ playersRegistered: 16 })
+      const prev = createState(createSession(), {
+        lastAlertType: 'SELLOUT_PREDICTED',
+        lastPlayerCount: 14,
+        lastProjectedSellout: '2026-02-18T18:00:00.000Z',
+      })
+
+      it('suppresses a repeat SELLOUT_PREDICTED unless the sell-out moves an hour earlier', () => {
+        const rules = builtInRules(config)
+
+        expect(
+          selectRule(rules, context(filling, prev, forecast('2026-02-18T17:30:00.000Z')))
+        ).toBeNull()
+        expect(
+          selectRule(rules, context(filling, prev, forecast('2026-02-18T17:00:00.000Z')))?.id
+        ).toBe('sellout-predicted')
+      })
+
+      it('still needs new registrations when the forecast moves', () => {
+        const unchanged = createSession({ playersRegistered: 14 })
+
+        expect(
+          selectRule(
+            builtInRules(config),
+            context(unchanged, prev, forecast('2026-02-18T14:00:00.000Z'))
+          )
+        ).toBeNull()
+      })
+
+      it('fires when escalating from a lower alert type', () => {
+        const escalating = { ...prev, lastAlertType: 'OPPORTUNITY' as const }
+
+        expect(
+          selectRule(
+            builtInRules(config),
+            context(filling, escalating, forecast('2026-02-18T18:00:00.000Z'))
+          )?.id
+        ).toBe('sellout-predicted')
+      })
+
+      it('falls back to registrations for state without a recorded forecast', () => {
+        const legacy = createState(createSession(), {
+          lastAlertType: 'SELLOUT_PREDICTED',
+          lastPlayerCount: 14,
+        })
+
+        expect(
+          selectRule(
+            builtInRules(config),
+            context(filling, legacy, forecast('2026-02-18T18:00:00.000Z'))
+          )?.id
+        ).toBe('sellout-predicted')
+      })
+    })
+
+    it('fires every time when suppression is null', () => {
+      const rule = createRule({ suppression: null })
+      const prev = createState(createSession(), {
+        lastAlertType: 'OPPORTUNITY',
+        lastPlayerCount: 14,
+      })
+
+      expect(selectRule([rule], context(createSession(), prev))).toBe(rule)
+    })
+  })
+
+  describe('renderMessage', () => {
+    it('fills in session placeholders', () => {
+      const text = renderMessage(
+        '{dayOfWeek} {date}, {time}: {playersRegistered}/{playersMax}, {spotsLabel}, ${price}',
+        createSession({ playersRegistered: 23 })
+      )
+
+      expect(text).toBe('Friday Feb 20, 6:00am: 23/24, 1 spot, $15')
+    })
+
+    it('leaves unknown placeholders untouched', () => {
+      expect(renderMessage('{nope}', createSession())).toBe('{nope}')
+    })
+  })
+})
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { loadRulesFile, mergeRules, resolveRules } from '../../src/rules/loader'
+import { builtInRules, DEFAULT_MESSAGES } from '../../src/rules/builtin'
+import type { Config } from '../../src/config'
+
+describe('rule loader', () => {
+  const testDataDir = path.join(__dirname, '../../data/test-rules')
+  const rulesPath = path.join(testDataDir, 'rules.json')
+
+  const config = {
+    minGoalies: 1,
+    minPlayersRegistered: 10,
+    playerSpotsUrgent: 4,
+    selloutLeadHours: 12,
+  } as Config
+
+  const writeRules = (rules: unknown[]): void => {
+    fs.writeFileSync(rulesPath, JSON.stringify({ rules }))
+  }
+
+  beforeEach(() => {
+    fs.mkdirSync(testDataDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+  })
+
+  describe('resolveRules', () => {
+    it('returns the built-in rules when no rules file is configured', () => {
+      expect(resolveRules(config)).toEqual(builtInRules(config))
+    })
+
+    it('builds built-in thresholds from config', () => {
+      const rules = resolveRules({ ...config, playerSpotsUrgent: 6 })
+
+      const fillingFast = rules.find((r) => r.id === 'filling-fast')
+      expect(fillingFast?.conditions.spotsRemaining).toEqual({ max: 6 })
+    })
+
+    it('adds, replaces and disables rules from the rules file', () => {
+      writeRules([
+        {
+          id: 'late-tuesdays',
+          alertType: 'OPPORTUNITY',
+          priority: 150,
+          conditions: { daysOfWeek: ['Tuesday'], timeRange: { from: '20:00' } },
+        },
+        {
+          id: 'filling-fast',
+          alertType: 'FILLING_FAST',
+          priority: 200,
+          conditions: { spotsRemaining: { max: 2 } },
+        },
+        { id: 'opportunity', enabled: false },
+      ])
+
+      const rules = resolveRules({ ...config, rulesPath })
+
+      expect(rules.map((r) => r.id)).toEqual([
+        'sold-out',
+        'newly-available',
+        'sellout-predicted',
+        'late-tuesdays',
+        'filling-fast',
+      ])
+      expect(rules.find((r) => r.id === 'filling-fast')?.conditions.spotsRemaining).toEqual({
+        max: 2,
+      })
+    })
+
+    it('uses already-loaded rule file entries instead of reading the file', () => {
+      writeRules([{ id: 'opportunity', enabled: false }])
+      const ruleFile = loadRulesFile(rulesPath)
+      fs.writeFileSync(rulesPath, 'not json')
+
+      const rules = resolveRules({ ...config, rulesPath }, ruleFile)
+
+      expect(rules.map((r) => r.id)).not.toContain('opportunity')
+    })
+  })
+
+  describe('loadRulesFile', () => {
+    it('applies defaults for suppression and message', () => {
+      writeRules([{ id: 'cheap', alertType: 'OPPORTUNITY', priority: 120 }])
+
+      const [entry] = loadRulesFile(rulesPath)
+
+      expect(entry.rule).toEqual({
+        id: 'cheap',
+        alertType: 'OPPORTUNITY',
+        priority: 120,
+        conditions: {},
+        suppression: { minNewRegistrations: 1, afterHigherPriority: 'suppress' },
+        message: DEFAULT_MESSAGES.OPPORTUNITY,
+      })
+    })
+
+    it('accepts a null suppression policy', () => {
+      writeRules([{ id: 'every-poll', alertType: 'OPPORTUNITY', priority: 1, suppression: null }])
+
+      expect(loadRulesFile(rulesPath)[0].rule?.suppression).toBeNull()
+    })
+
+    it('accepts a forecast shift in the suppression policy', () => {
+      const suppression = {
+        minNewRegistrations: 1,
+        afterHigherPriority: 'minNewRegistrations',
+        minForecastShiftMinutes: 90,
+      }
+      writeRules([{ id: 'sellout', alertType: 'SELLOUT_PREDICTED', priority: 310, suppression }])
+
+      expect(loadRulesFile(rulesPath)[0].rule?.suppression).toEqual(suppression)
+    })
+
+    it('throws when the file is missing or not JSON', () => {
+      expect(() => loadRulesFile(rulesPath)).toThrow(/Cannot read rules file/)
+
+      fs.writeFileSync(rulesPath, '{rules: ')
+      expect(() => loadRulesFile(rulesPath)).toThrow(/Cannot read rules file/)
+    })
+
+    it('throws when the file has no rules array', () => {
+      fs.writeFileSync(rulesPath, '[]')
+
+      expect(() => loadRulesFile(rulesPath)).toThrow('must contain { "rules": [...] }')
+    })
+
+    it('throws on duplicate ids', () => {
+      writeRules([
+        { id: 'a', alertType: 'OPPORTUNITY', priority: 1 },
+        { id: 'a', enabled: false },
+      ])
+
+      expect(() => loadRulesFile(rulesPath)).toThrow('Duplicate rule id "a"')
+    })
+
+    it.each([
+      [{ alertType: 'MAYBE', priority: 1 }, /"alertType" must be one of/],
+      [{ alertType: 'OPPORTUNITY' }, /"priority" must be a number/],
+      [
+        { alertType: 'OPPORTUNITY', priority: 1, conditions: { weather: 'cold' } },
+        /unknown condition "weather"/,
+      ],
+      [
+        { alertType: 'OPPORTUNITY', priority: 1, conditions: { daysOfWeek: ['Funday'] } },
+        /"daysOfWeek"/,
+      ],
+      [
+        { alertType: 'OPPORTUNITY', priority: 1, conditions: { timeRange: { from: '9pm' } } },
+        /"timeRange"/,
+      ],
+      [
+        { alertType: 'OPPORTUNITY', priority: 1, conditions: { spotsRemaining: { max: '4' } } },
+        /"spotsRemaining"/,
+      ],
+      [
+        { alertType: 'OPPORTUNITY', priority: 1, conditions: { eventNamePattern: '(' } },
+        /not a valid regular expression/,
+      ],
+      [
+        { alertType: 'OPPORTUNITY', priority: 1, suppression: { minNewRegistrations: 1 } },
+        /"suppression"/,
+      ],
+      [
+        {
+          alertType: 'OPPORTUNITY',
+          priority: 1,
+          suppression: {
+            minNewRegistrations: 1,
+            afterHigherPriority: 'suppress',
+            minForecastShiftMinutes: '1h',
+          },
+        },
+        /"suppression"/,
+      ],
+      [
+        { alertType: 'OPPORTUNITY', priority: 1, message: 'Hi {name}' },
+        /unknown message placeholder \{name\}/,
+      ],
+    ])('rejects invalid rule %j', (rule, error) => {
+      writeRules([{ id: 'bad', ...rule }])
+
+      expect(() => loadRulesFile(rulesPath)).toThrow(error)
+    })
+
+    it('includes the rule id in validation errors', () => {
+      writeRules([{ id: 'bad', alertType: 'OPPORTUNITY' }])
+
+      expect(() => loadRulesFile(rulesPath)).toThrow('Invalid rule "bad"')
+    })
+  })
+
+  describe('mergeRules', () => {
+    it('ignores disabling an unknown rule', () => {
+      const rules = builtInRules(config)
+
+      expect(mergeRules(rules, [{ id: 'nope', enabled: false, rule: null }])).toEqual(rules)
+    })
+  })
+})
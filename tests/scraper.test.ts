@@ -1,13 +1,31 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { scrapeEvents, calculateTargetDates, isMonWedFri, extractEventIds } from '../src/scraper'
+import {
+  scrapeEvents,
+  calculateTargetDates,
+  isMonWedFri,
+  extractEventIds,
+  fetchAllPages,
+  mergeEventResponses,
+  filterByFacility,
+  dashClientFor,
+  dashStatuses,
+} from '../src/scraper'
 import type { Session } from '../src/parser'
+import { DashClient } from '../src/dash-client'
+import { DEFAULT_VENUE } from '../src/venue'
 
 // Mock fetch globally
 global.fetch = vi.fn()
 
 describe('scraper', () => {
+  let client: DashClient
+
   beforeEach(() => {
     vi.clearAllMocks()
+    ;(global.fetch as any).mockReset()
+    // A fresh circuit breaker per test, and no real backoff waits
+    client = new DashClient({ sleep: async () => {} })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
   })
 
   afterEach(() => {
@@ -96,6 +114,18 @@ describe('scraper', () => {
       }
     })
 
+    it("uses the venue's session days", () => {
+      const today = new Date('2026-02-15T12:00:00Z') // Sunday
+      const venue = { ...DEFAULT_VENUE, days: ['tuesday', 'Saturday'] }
+
+      expect(calculateTargetDates(today, 7, venue)).toEqual(['2026-02-17', '2026-02-21'])
+      expect(calculateTargetDates(today, 2, { ...DEFAULT_VENUE, days: [] })).toEqual([
+        '2026-02-15',
+        '2026-02-16',
+        '2026-02-17',
+      ])
+    })
+
     it('handles default forward window of 5 days', () => {
       const today = new Date('2026-02-16T12:00:00Z') // Monday
 
@@ -267,7 +297,7 @@ describe('scraper', () => {
         })
 
       const today = new Date('2026-02-20T12:00:00Z')
-      const sessions = await scrapeEvents(today, 5)
+      const sessions = await scrapeEvents(today, 5, DEFAULT_VENUE, client)
 
       expect(global.fetch).toHaveBeenCalledTimes(2)
       expect(sessions).toHaveLength(1)
@@ -276,7 +306,7 @@ describe('scraper', () => {
 
     it('returns empty array when no Mon/Wed/Fri dates in window', async () => {
       const today = new Date('2026-02-14T12:00:00Z') // Saturday
-      const sessions = await scrapeEvents(today, 1) // Only includes Sunday
+      const sessions = await scrapeEvents(today, 1, DEFAULT_VENUE, client) // Only includes Sunday
 
       expect(global.fetch).not.toHaveBeenCalled()
       expect(sessions).toEqual([])
@@ -298,22 +328,23 @@ describe('scraper', () => {
       })
 
       const today = new Date('2026-02-20T12:00:00Z')
-      const sessions = await scrapeEvents(today, 5)
+      const sessions = await scrapeEvents(today, 5, DEFAULT_VENUE, client)
 
       expect(global.fetch).toHaveBeenCalledTimes(1) // Only date-availabilities
       expect(sessions).toEqual([])
     })
 
     it('throws error when date-availabilities request fails', async () => {
-      ;(global.fetch as any).mockResolvedValueOnce({
+      ;(global.fetch as any).mockResolvedValue({
         ok: false,
         status: 500,
         statusText: 'Internal Server Error',
+        headers: new Headers(),
       })
 
       const today = new Date('2026-02-20T12:00:00Z')
 
-      await expect(scrapeEvents(today, 5)).rejects.toThrow(
+      await expect(scrapeEvents(today, 5, DEFAULT_VENUE, client)).rejects.toThrow(
         'Failed to fetch date-availabilities: 500 Internal Server Error'
       )
     })
@@ -341,7 +372,9 @@ describe('scraper', () => {
 
       const today = new Date('2026-02-20T12:00:00Z')
 
-      await expect(scrapeEvents(today, 5)).rejects.toThrow('Failed to fetch events: 404 Not Found')
+      await expect(scrapeEvents(today, 5, DEFAULT_VENUE, client)).rejects.toThrow(
+        'Failed to fetch events: 404 Not Found'
+      )
     })
 
     it('builds correct date-availabilities URL', async () => {
@@ -355,7 +388,7 @@ describe('scraper', () => {
       })
 
       const today = new Date('2026-02-20T12:00:00Z')
-      await scrapeEvents(today, 5)
+      await scrapeEvents(today, 5, DEFAULT_VENUE, client)
 
       const call = (global.fetch as any).mock.calls[0]
       const url = call[0]
@@ -391,7 +424,7 @@ describe('scraper', () => {
         })
 
       const today = new Date('2026-02-20T12:00:00Z')
-      await scrapeEvents(today, 5)
+      await scrapeEvents(today, 5, DEFAULT_VENUE, client)
 
       const call = (global.fetch as any).mock.calls[1]
       const url = call[0]
@@ -405,11 +438,11 @@ describe('scraper', () => {
     })
 
     it('handles network timeout gracefully', async () => {
-      ;(global.fetch as any).mockRejectedValueOnce(new Error('Network timeout'))
+      ;(global.fetch as any).mockRejectedValue(new Error('Network timeout'))
 
       const today = new Date('2026-02-20T12:00:00Z')
 
-      await expect(scrapeEvents(today, 5)).rejects.toThrow('Network timeout')
+      await expect(scrapeEvents(today, 5, DEFAULT_VENUE, client)).rejects.toThrow('Network timeout')
     })
 
     it('handles malformed JSON response', async () => {
@@ -422,7 +455,7 @@ describe('scraper', () => {
 
       const today = new Date('2026-02-20T12:00:00Z')
 
-      await expect(scrapeEvents(today, 5)).rejects.toThrow()
+      await expect(scrapeEvents(today, 5, DEFAULT_VENUE, client)).rejects.toThrow()
     })
 
     it('passes events response to parser and returns sessions', async () => {
@@ -508,7 +541,7 @@ describe('scraper', () => {
         })
 
       const today = new Date('2026-02-20T12:00:00Z')
-      const sessions = await scrapeEvents(today, 5)
+      const sessions = await scrapeEvents(today, 5, DEFAULT_VENUE, client)
 
       // Should get paired session (PLAYERS + GOALIES combined)
       expect(sessions).toHaveLength(1)
@@ -518,4 +551,254 @@ describe('scraper', () => {
       expect(sessions[0].goaliesRegistered).toBe(2)
     })
   })
+
+  describe('pagination', () => {
+    const ok = (body: unknown) => ({ ok: true, json: async () => body })
+
+    const event = (id: string, teamId: string) => ({
+      id,
+      type: 'events',
+      attributes: { start: '2026-02-20T06:00:00', end: '2026-02-20T07:10:00' },
+      relationships: {
+        homeTeam: { data: { type: 'teams', id: teamId } },
+        summary: { data: { type: 'event-summaries', id } },
+      },
+    })
+
+    const summary = (id: string, registered: number, capacity: number) => ({
+      id,
+      type: 'event-summaries',
+      attributes: { registered_count: registered, composite_capacity: capacity },
+    })
+
+    it('follows links.next on date-availabilities', async () => {
+      ;(global.fetch as any)
+        .mockResolvedValueOnce(
+          ok({
+            data: [{ id: '2026-02-20', attributes: { events: [1] } }],
+            links: { next: '/dash/jsonapi/api/v1/date-availabilities?page[number]=2' },
+          })
+        )
+        .mockResolvedValueOnce(
+          ok({ data: [{ id: '2026-02-23', attributes: { events: [2] } }], links: { next: null } })
+        )
+        .mockResolvedValueOnce(ok({ data: [] }))
+
+      await scrapeEvents(new Date('2026-02-20T12:00:00Z'), 5, DEFAULT_VENUE, client)
+
+      const urls = (global.fetch as any).mock.calls.map((call: any[]) => call[0])
+      expect(urls[1]).toBe(
+        'https://apps.daysmartrecreation.com/dash/jsonapi/api/v1/date-availabilities?page[number]=2'
+      )
+      expect(urls[2]).toContain('filter[id__in]=1,2')
+    })
+
+    it('requests large event ID lists in chunks of 50', async () => {
+      const ids = Array.from({ length: 120 }, (_, i) => i + 1)
+      ;(global.fetch as any)
+        .mockResolvedValueOnce(ok({ data: [{ id: '2026-02-20', attributes: { events: ids } }] }))
+        .mockResolvedValue(ok({ data: [] }))
+
+      await scrapeEvents(new Date('2026-02-20T12:00:00Z'), 5, DEFAULT_VENUE, client)
+
+      const eventUrls: string[] = (global.fetch as any).mock.calls
+        .slice(1)
+        .map((call: any[]) => decodeURIComponent(call[0]))
+      expect(
+        eventUrls.map((url) => url.match(/filter\[id__in\]=([\d,]+)/)?.[1].split(',').length)
+      ).toEqual([50, 50, 20])
+    })
+
+    it('merges events and included resources across pages before parsing', async () => {
+      ;(global.fetch as any)
+        .mockResolvedValueOnce(
+          ok({ data: [{ id: '2026-02-20', attributes: { events: [213364, 213376] } }] })
+        )
+        .mockResolvedValueOnce(
+          ok({
+            data: [event('213364', '5421')],
+            included: [
+              {
+                id: '5421',
+                type: 'teams',
+                attributes: { name: '(PLAYERS) ADULT Pick Up MORNINGS' },
+              },
+              summary('213364', 14, 24),
+            ],
+            links: {
+              next: 'https://apps.daysmartrecreation.com/dash/jsonapi/api/v1/events?page=2',
+            },
+          })
+        )
+        .mockResolvedValueOnce(
+          ok({
+            data: [event('213376', '5422')],
+            included: [
+              {
+                id: '5422',
+                type: 'teams',
+                attributes: { name: '(GOALIES) Adult Pick Up MORNINGS' },
+              },
+              summary('213376', 2, 3),
+            ],
+          })
+        )
+
+      const sessions = await scrapeEvents(
+        new Date('2026-02-20T12:00:00Z'),
+        5,
+        DEFAULT_VENUE,
+        client
+      )
+
+      expect(sessions).toHaveLength(1)
+      expect(sessions[0]).toMatchObject({ playersRegistered: 14, goaliesRegistered: 2 })
+    })
+
+    it('throws when pagination loops', async () => {
+      ;(global.fetch as any).mockResolvedValue(
+        ok({ data: [], links: { next: 'https://apps.daysmartrecreation.com/page?n=2' } })
+      )
+
+      await expect(
+        fetchAllPages(client, 'https://apps.daysmartrecreation.com/page?n=1', 'events')
+      ).rejects.toThrow('DASH events pagination did not end after 2 pages')
+    })
+
+    it('keeps one copy of events and included resources shared between responses', () => {
+      const team = { id: '5421', type: 'teams', attributes: { name: 'PLAYERS' } }
+
+      const merged = mergeEventResponses([
+        { data: [event('1', '5421')] as any, included: [team, summary('1', 1, 24)] },
+        { data: [event('1', '5421'), event('2', '5421')] as any, included: [team] },
+      ])
+
+      expect(merged.data.map((e) => e.id)).toEqual(['1', '2'])
+      expect(merged.included).toHaveLength(2)
+    })
+  })
+
+  describe('venue', () => {
+    const ok = (body: unknown) => ({ ok: true, json: async () => body })
+
+    const venue = {
+      id: 'other',
+      name: 'Other Rink',
+      baseUrl: 'https://dash.example.com',
+      company: 'otherrink',
+      facilityIds: ['2'],
+      timezone: 'America/Chicago',
+      days: ['Friday'],
+    }
+
+    const event = (id: string, teamId: string, resourceId: string, hour = '06') => ({
+      id,
+      type: 'events',
+      attributes: { start: `2026-02-20T${hour}:00:00`, end: `2026-02-20T${hour}:50:00` },
+      relationships: {
+        homeTeam: { data: { type: 'teams', id: teamId } },
+        summary: { data: { type: 'event-summaries', id } },
+        resource: { data: { type: 'resources', id: resourceId } },
+      },
+    })
+
+    it('sends every DASH request to the venue host and company', async () => {
+      ;(global.fetch as any)
+        .mockResolvedValueOnce(ok({ data: [{ id: '2026-02-20', attributes: { events: [1] } }] }))
+        .mockResolvedValueOnce(ok({ data: [] }))
+
+      await scrapeEvents(new Date('2026-02-20T12:00:00Z'), 5, venue, client)
+
+      const urls: string[] = (global.fetch as any).mock.calls.map((call: any[]) => call[0])
+      expect(urls).toHaveLength(2)
+      for (const url of urls) {
+        expect(url.startsWith('https://dash.example.com/dash/jsonapi/api/v1/')).toBe(true)
+        expect(url).toContain('company=otherrink')
+      }
+    })
+
+    it("keeps only the venue's facilities and tags sessions with the venue, rink and time zone", async () => {
+      ;(global.fetch as any)
+        .mockResolvedValueOnce(
+          ok({ data: [{ id: '2026-02-20', attributes: { events: [1, 2, 3, 4] } }] })
+        )
+        .mockResolvedValueOnce(
+          ok({
+            data: [
+              event('1', 'p', 'r2'),
+              event('2', 'g', 'r2'),
+              event('3', 'p', 'r1', '21'),
+              event('4', 'g', 'r1', '21'),
+            ],
+            included: [
+              { id: 'p', type: 'teams', attributes: { name: '(PLAYERS) ADULT Pick Up' } },
+              { id: 'g', type: 'teams', attributes: { name: '(GOALIES) ADULT Pick Up' } },
+              ...['1', '2', '3', '4'].map((id) => ({
+                id,
+                type: 'event-summaries',
+                attributes: { registered_count: 5, composite_capacity: 20 },
+              })),
+              {
+                id: 'r1',
+                type: 'resources',
+                attributes: { name: 'MAIN RINK' },
+                relationships: { facility: { data: { type: 'facilities', id: '1' } } },
+              },
+              { id: 'r2', type: 'resources', attributes: { name: 'RINK 2', facility_id: 2 } },
+            ],
+          })
+        )
+
+      const sessions = await scrapeEvents(new Date('2026-02-20T12:00:00Z'), 5, venue, client)
+
+      expect(sessions).toHaveLength(1)
+      expect(sessions[0]).toMatchObject({
+        time: '06:00',
+        venue: 'other',
+        rink: 'RINK 2',
+        timezone: 'America/Chicago',
+      })
+    })
+
+    it('keeps every event when no facilities are configured', () => {
+      const response = {
+        data: [event('1', 'p', 'r1')] as any,
+        included: [
+          {
+            id: 'r1',
+            type: 'resources',
+            attributes: {},
+            relationships: { facility: { data: { type: 'facilities', id: '9' } } },
+          },
+        ],
+      }
+
+      expect(filterByFacility(response, [])).toBe(response)
+      expect(filterByFacility(response, ['1']).data).toEqual([])
+    })
+
+    it('keeps events whose facility is unknown', () => {
+      const response = { data: [event('1', 'p', 'missing')] as any, included: [] }
+
+      expect(filterByFacility(response, ['1']).data).toHaveLength(1)
+    })
+  })
+
+  describe('dashClientFor', () => {
+    it('shares one client per DASH host', () => {
+      const client = dashClientFor('https://dash-a.example.com')
+
+      expect(dashClientFor('https://dash-a.example.com/')).toBe(client)
+      expect(dashClientFor('https://dash-b.example.com')).not.toBe(client)
+    })
+
+    it('reports each host circuit breaker separately', () => {
+      dashClientFor('https://dash-c.example.com').breaker.recordFailure('503 Service Unavailable')
+
+      const statuses = dashStatuses()
+
+      expect(statuses['dash-c.example.com'].consecutiveFailures).toBe(1)
+      expect(statuses['dash-a.example.com'].consecutiveFailures).toBe(0)
+    })
+  })
 })
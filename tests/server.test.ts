@@ -6,6 +6,10 @@ import path from 'path'
 
 // Import the server factory function
 import { createServer } from '../src/server.js'
+import { createStateStore } from '../src/stores/factory.js'
+import type { StateStore } from '../src/stores/interface'
+import type { CircuitStatus } from '../src/dash-client'
+import { DEFAULT_VENUE } from '../src/venue'
 
 describe('Health Endpoint', () => {
   let app: Express
@@ -38,7 +42,7 @@ describe('Health Endpoint', () => {
   )
 
   async function startTestServer(): Promise<void> {
-    app = createServer({ statePath: TEST_STATE_PATH })
+    app = createServer({ store: createStateStore('json', TEST_STATE_PATH) })
     return new Promise((resolve) => {
       server = app.listen(TEST_PORT, () => {
         resolve()
@@ -54,6 +58,26 @@ describe('Health Endpoint', () => {
     expect(response.status).toBe(200)
   })
 
+  it('reads the state store it is given', async () => {
+    const store: StateStore = {
+      name: 'stub',
+      load: () => [],
+      save: () => {},
+      update: (mutate) => mutate([]),
+      lastModified: () => '2026-02-19T19:00:00.000Z',
+      close: () => {},
+    }
+    app = createServer({ store })
+    await new Promise<void>((resolve) => {
+      server = app.listen(TEST_PORT, () => resolve())
+    })
+
+    const response = await fetch(`http://localhost:${TEST_PORT}/health`)
+    const data = await response.json()
+
+    expect(data.lastPoll).toBe('2026-02-19T19:00:00.000Z')
+  })
+
   it('should return JSON with required fields', async () => {
     await startTestServer()
 
@@ -226,3 +250,117 @@ describe('Health Endpoint', () => {
     expect(lastPollDate.getTime()).toBeLessThanOrEqual(afterWrite.getTime() + 1000)
   })
 })
+
+describe('Short registration links', () => {
+  let server: Server
+  let baseUrl: string
+
+  beforeEach(async () => {
+    const app = createServer({
+      store: createStateStore('json', './data/test-state-links.json'),
+      venues: [DEFAULT_VENUE, { ...DEFAULT_VENUE, id: 'other', company: 'otherrink' }],
+    })
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, () => resolve())
+    })
+    const address = server.address() as { port: number }
+    baseUrl = `http://localhost:${address.port}`
+  })
+
+  afterEach(
+    () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve())
+      })
+  )
+
+  it('redirects /r/<date> to the DASH registration page', async () => {
+    const response = await fetch(`${baseUrl}/r/2026-02-20`, { redirect: 'manual' })
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('location')).toBe(
+      'https://apps.daysmartrecreation.com/dash/x/#/online/extremeice/event-registration?date=2026-02-20&facility_ids=1'
+    )
+  })
+
+  it('returns 404 for anything but a date', async () => {
+    const response = await fetch(`${baseUrl}/r/not-a-date`, { redirect: 'manual' })
+
+    expect(response.status).toBe(404)
+  })
+
+  it('redirects /r/<venue>/<date> to that venue', async () => {
+    const response = await fetch(`${baseUrl}/r/other/2026-02-20`, { redirect: 'manual' })
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('location')).toBe(
+      'https://apps.daysmartrecreation.com/dash/x/#/online/otherrink/event-registration?date=2026-02-20&facility_ids=1'
+    )
+  })
+
+  it('returns 404 for an unknown venue', async () => {
+    const response = await fetch(`${baseUrl}/r/nowhere/2026-02-20`, { redirect: 'manual' })
+
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('Health endpoint DASH status', () => {
+  let server: Server
+
+  afterEach(
+    () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve())
+      })
+  )
+
+  async function health(
+    dashStatus: () => Record<string, CircuitStatus>
+  ): Promise<Record<string, unknown>> {
+    const app = createServer({
+      store: createStateStore('json', './data/test-state-dash.json'),
+      dashStatus,
+    })
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, () => resolve())
+    })
+    const address = server.address() as { port: number }
+    const response = await fetch(`http://localhost:${address.port}/health`)
+    return (await response.json()) as Record<string, unknown>
+  }
+
+  const status = (overrides: Partial<CircuitStatus> = {}): CircuitStatus => ({
+    state: 'closed',
+    consecutiveFailures: 0,
+    lastError: null,
+    lastSuccessAt: '2026-02-19T19:00:00.000Z',
+    retryAt: null,
+    ...overrides,
+  })
+
+  it('reports the circuit breaker state per DASH host', async () => {
+    const data = await health(() => ({ 'apps.daysmartrecreation.com': status() }))
+
+    expect(data.status).toBe('ok')
+    expect(data.dash).toEqual({ 'apps.daysmartrecreation.com': status() })
+  })
+
+  it('is degraded while any host circuit is open', async () => {
+    const data = await health(() => ({
+      'apps.daysmartrecreation.com': status(),
+      'dash.example.com': status({
+        state: 'open',
+        consecutiveFailures: 5,
+        lastError: 'Failed to fetch events: 503 Service Unavailable',
+        retryAt: '2026-02-19T19:05:00.000Z',
+      }),
+    }))
+
+    expect(data.status).toBe('degraded')
+    expect(data.dash).toMatchObject({
+      'apps.daysmartrecreation.com': { state: 'closed' },
+      'dash.example.com': { state: 'open', consecutiveFailures: 5 },
+    })
+  })
+})
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import * as fs from 'fs'
+import * as os from 'os'
 import * as path from 'path'
 import {
   loadState,
@@ -8,9 +9,16 @@ import {
   updateRegistrationStatus,
   updateSessionState,
   updateUserResponse,
-  mergeUserResponses,
+  updateSubscriberAlert,
+  isSupersededAlert,
+  recordSlackMessage,
+  subscriberView,
+  readStateFile,
+  updateStateFile,
+  stateBackupPath,
 } from '../src/state'
-import type { SessionState } from '../src/evaluator'
+import { CURRENT_STATE_VERSION } from '../src/migrations'
+import type { Alert, SessionState } from '../src/evaluator'
 import type { Session } from '../src/parser'
 
 describe('state', () => {
@@ -55,9 +63,11 @@ describe('state', () => {
   })
 
   afterEach(() => {
-    // Clean up test state file
-    if (fs.existsSync(testStatePath)) {
-      fs.unlinkSync(testStatePath)
+    // Clean up test state file, backups and quarantined files
+    for (const file of fs.readdirSync(testDataDir)) {
+      if (file.startsWith('state.json')) {
+        fs.unlinkSync(path.join(testDataDir, file))
+      }
     }
   })
 
@@ -72,7 +82,10 @@ describe('state', () => {
       const session = createSession()
       const expectedState = [createState(session)]
 
-      fs.writeFileSync(testStatePath, JSON.stringify(expectedState, null, 2))
+      fs.writeFileSync(
+        testStatePath,
+        JSON.stringify({ version: CURRENT_STATE_VERSION, sessions: expectedState }, null, 2)
+      )
 
       const state = loadState(testStatePath)
 
@@ -87,7 +100,7 @@ describe('state', () => {
       expect(state).toEqual([])
     })
 
-    it('returns empty array when state file contains invalid JSON', () => {
+    it('returns empty array when state file contains invalid JSON and there is no backup', () => {
       fs.writeFileSync(testStatePath, '{invalid json}')
 
       const state = loadState(testStatePath)
@@ -95,16 +108,138 @@ describe('state', () => {
       expect(state).toEqual([])
     })
 
-    it('handles corrupted state file gracefully', () => {
+    it('throws when state was written by a newer schema version', () => {
+      fs.writeFileSync(
+        testStatePath,
+        JSON.stringify({ version: CURRENT_STATE_VERSION + 1, sessions: [] })
+      )
+
+      expect(() => loadState(testStatePath)).toThrow(/newer than supported/)
+    })
+  })
+
+  describe('corrupted state recovery', () => {
+    const quarantined = (): string[] =>
+      fs.readdirSync(testDataDir).filter((f) => f.startsWith('state.json.corrupt-'))
+
+    it('moves the corrupted file aside instead of overwriting it', () => {
       fs.writeFileSync(testStatePath, '{"data": [partially written')
 
-      const state = loadState(testStatePath)
+      loadState(testStatePath)
 
-      expect(state).toEqual([])
+      expect(quarantined()).toHaveLength(1)
+      const contents = fs.readFileSync(path.join(testDataDir, quarantined()[0]), 'utf-8')
+      expect(contents).toBe('{"data": [partially written')
+    })
+
+    it('treats valid JSON that is not a state file as corrupted', () => {
+      fs.writeFileSync(testStatePath, '{"data": []}')
+
+      expect(loadState(testStatePath)).toEqual([])
+      expect(quarantined()).toHaveLength(1)
+    })
+
+    it('restores the most recent backup and reports the recovery', () => {
+      const registered = createState(createSession(), {
+        isRegistered: true,
+        userResponse: 'registered',
+      })
+      saveState(testStatePath, [createState(createSession())])
+      saveState(testStatePath, [registered])
+      saveState(testStatePath, [registered]) // newest backup now holds the registered entry
+      fs.writeFileSync(testStatePath, '{"version": 1, "sess')
+      const onRecovered = vi.fn()
+
+      const state = loadState(testStatePath, { onRecovered })
+
+      expect(state).toEqual([registered])
+      expect(loadState(testStatePath)).toEqual([registered]) // restored file is readable
+      expect(onRecovered).toHaveBeenCalledWith({
+        error: expect.stringContaining('Cannot load state'),
+        quarantinedPath: expect.stringContaining(`${testStatePath}.corrupt-`),
+        restoredFrom: `${testStatePath}.1.bak`,
+        sessionCount: 1,
+      })
+    })
+
+    it('skips unreadable backups', () => {
+      saveState(testStatePath, [createState(createSession())])
+      saveState(testStatePath, [createState(createSession())])
+      saveState(testStatePath, [createState(createSession())])
+      fs.writeFileSync(`${testStatePath}.1.bak`, 'garbage')
+      fs.writeFileSync(testStatePath, 'garbage')
+      const onRecovered = vi.fn()
+
+      const state = loadState(testStatePath, { onRecovered })
+
+      expect(state).toHaveLength(1)
+      expect(onRecovered.mock.calls[0][0].restoredFrom).toBe(`${testStatePath}.2.bak`)
+    })
+
+    it('reports when no backup could be restored', () => {
+      fs.writeFileSync(testStatePath, 'garbage')
+      const onRecovered = vi.fn()
+
+      loadState(testStatePath, { onRecovered })
+
+      expect(onRecovered.mock.calls[0][0]).toMatchObject({ restoredFrom: null, sessionCount: 0 })
+    })
+
+    it('only recovers while holding the lock', () => {
+      fs.writeFileSync(testStatePath, 'garbage')
+      fs.writeFileSync(
+        `${testStatePath}.lock`,
+        JSON.stringify({ pid: process.pid, hostname: os.hostname(), token: 'writer' })
+      )
+
+      expect(() => loadState(testStatePath, { lock: { timeoutMs: 50 } })).toThrow(
+        /Timed out waiting for lock/
+      )
+      expect(quarantined()).toEqual([])
+
+      fs.unlinkSync(`${testStatePath}.lock`)
+      expect(loadState(testStatePath)).toEqual([])
+      expect(quarantined()).toHaveLength(1)
+    })
+
+    it('keeps user responses through a read-modify-write of a corrupted file', () => {
+      const dismissed = createState(createSession(), { userResponse: 'not_interested' })
+      saveState(testStatePath, [dismissed])
+      saveState(testStatePath, [dismissed])
+      fs.writeFileSync(testStatePath, '[{"session": ')
+
+      updateStateFile(testStatePath, (state) =>
+        state.map((s) => ({ ...s, lastAlertType: 'OPPORTUNITY' as const }))
+      )
+
+      const [entry] = loadState(testStatePath)
+      expect(entry.userResponse).toBe('not_interested')
+      expect(entry.lastAlertType).toBe('OPPORTUNITY')
     })
   })
 
   describe('saveState', () => {
+    it('keeps rotating backups of the replaced file', () => {
+      for (let i = 1; i <= 5; i++) {
+        saveState(testStatePath, [createState(createSession({ playersRegistered: i }))], {
+          backupCount: 3,
+        })
+      }
+
+      const backupCounts = [1, 2, 3].map(
+        (n) => loadState(stateBackupPath(testStatePath, n))[0].session.playersRegistered
+      )
+      expect(backupCounts).toEqual([4, 3, 2])
+      expect(fs.existsSync(stateBackupPath(testStatePath, 4))).toBe(false)
+    })
+
+    it('does not keep backups when backupCount is 0', () => {
+      saveState(testStatePath, [], { backupCount: 0 })
+      saveState(testStatePath, [], { backupCount: 0 })
+
+      expect(fs.readdirSync(testDataDir).filter((f) => f.endsWith('.bak'))).toHaveLength(0)
+    })
+
     it('creates new state file with data', () => {
       const session = createSession()
       const state = [createState(session)]
@@ -113,7 +248,7 @@ describe('state', () => {
 
       expect(fs.existsSync(testStatePath)).toBe(true)
       const saved = JSON.parse(fs.readFileSync(testStatePath, 'utf-8'))
-      expect(saved).toEqual(state)
+      expect(saved).toEqual({ version: CURRENT_STATE_VERSION, sessions: state })
     })
 
     it('overwrites existing state file', () => {
@@ -125,7 +260,7 @@ describe('state', () => {
       saveState(testStatePath, initialState)
       saveState(testStatePath, newState)
 
-      const saved = JSON.parse(fs.readFileSync(testStatePath, 'utf-8'))
+      const saved = JSON.parse(fs.readFileSync(testStatePath, 'utf-8')).sessions
       expect(saved).toEqual(newState)
       expect(saved).toHaveLength(1)
       expect(saved[0].session.time).toBe('18:30')
@@ -135,7 +270,7 @@ describe('state', () => {
       saveState(testStatePath, [])
 
       const saved = JSON.parse(fs.readFileSync(testStatePath, 'utf-8'))
-      expect(saved).toEqual([])
+      expect(saved).toEqual({ version: CURRENT_STATE_VERSION, sessions: [] })
     })
 
     it('creates parent directory if it does not exist', () => {
@@ -236,7 +371,7 @@ describe('state', () => {
       const session = createSession()
       const state = [createState(session)]
 
-      const updated = updateRegistrationStatus(state, '2026-02-20', '06:00', true)
+      const updated = updateRegistrationStatus(state, { date: '2026-02-20', time: '06:00' }, true)
 
       expect(updated).toHaveLength(1)
       expect(updated[0].isRegistered).toBe(true)
@@ -246,7 +381,7 @@ describe('state', () => {
       const session = createSession()
       const state = [createState(session, { isRegistered: true })]
 
-      const updated = updateRegistrationStatus(state, '2026-02-20', '06:00', false)
+      const updated = updateRegistrationStatus(state, { date: '2026-02-20', time: '06:00' }, false)
 
       expect(updated).toHaveLength(1)
       expect(updated[0].isRegistered).toBe(false)
@@ -258,8 +393,7 @@ describe('state', () => {
 
       const updated = updateRegistrationStatus(
         state,
-        '2026-02-21', // different date
-        '06:00',
+        { date: '2026-02-21', time: '06:00' }, // different date
         true
       )
 
@@ -272,7 +406,7 @@ describe('state', () => {
       const session2 = createSession({ date: '2026-02-20', time: '18:30' })
       const state = [createState(session1), createState(session2)]
 
-      const updated = updateRegistrationStatus(state, '2026-02-20', '18:30', true)
+      const updated = updateRegistrationStatus(state, { date: '2026-02-20', time: '18:30' }, true)
 
       expect(updated[0].isRegistered).toBe(false)
       expect(updated[1].isRegistered).toBe(true)
@@ -317,6 +451,23 @@ describe('state', () => {
       expect(updated[0].lastPlayerCount).toBe(null)
     })
 
+    it("records the alert's projected sell-out and keeps it until the next alert", () => {
+      const session = createSession()
+      const alerted = updateSessionState(
+        [createState(session)],
+        session,
+        'SELLOUT_PREDICTED',
+        '2026-02-19T10:00:00Z',
+        '2026-02-19T18:00:00.000Z'
+      )
+
+      const polled = updateSessionState(alerted, session, null, null)
+      const realerted = updateSessionState(polled, session, 'FILLING_FAST', '2026-02-19T12:00:00Z')
+
+      expect(polled[0].lastProjectedSellout).toBe('2026-02-19T18:00:00.000Z')
+      expect(realerted[0].lastProjectedSellout).toBeNull()
+    })
+
     it('preserves registration status when updating', () => {
       const oldSession = createSession({ playersRegistered: 10 })
       const newSession = createSession({ playersRegistered: 14 })
@@ -349,6 +500,88 @@ describe('state', () => {
       expect(updated[1].lastAlertType).toBe(null) // unchanged
       expect(updated[1].lastPlayerCount).toBe(null)
     })
+
+    it('keeps sessions at the same time at different venues apart', () => {
+      const state = [createState(createSession({ venue: 'a', rink: 'MAIN RINK' }))]
+
+      const updated = updateSessionState(
+        state,
+        createSession({ venue: 'b', rink: 'MAIN RINK' }),
+        'OPPORTUNITY',
+        '2026-02-19T10:00:00Z'
+      )
+
+      expect(updated).toHaveLength(2)
+      expect(updated[0].lastAlertType).toBe(null)
+      expect(updated[1].session.venue).toBe('b')
+    })
+
+    it('follows a rescheduled session by its event ids', () => {
+      const ids = { playersEventId: '101', goaliesEventId: '102' }
+      const state = [createState(createSession({ ...ids }), { userResponse: 'registered' })]
+
+      const updated = updateSessionState(
+        state,
+        createSession({ ...ids, time: '06:30' }),
+        null,
+        null
+      )
+
+      expect(updated).toHaveLength(1)
+      expect(updated[0].session.time).toBe('06:30')
+      expect(updated[0].userResponse).toBe('registered')
+    })
+
+    it('adopts state saved before sessions had a venue', () => {
+      const state = [createState(createSession(), { isRegistered: true })]
+
+      const updated = updateSessionState(
+        state,
+        createSession({ venue: 'a', rink: 'MAIN RINK' }),
+        null,
+        null
+      )
+
+      expect(updated).toHaveLength(1)
+      expect(updated[0].session.venue).toBe('a')
+      expect(updated[0].isRegistered).toBe(true)
+    })
+  })
+
+  describe('isSupersededAlert', () => {
+    const escalated = createState(createSession(), {
+      lastAlertType: 'FILLING_FAST',
+      lastAlertAt: '2026-02-19T12:00:00.000Z',
+    })
+    const alert = (type: Alert['type'], detectedAt: string): Alert => ({
+      type,
+      session: createSession(),
+      message: '',
+      registrationUrl: '',
+      detectedAt,
+    })
+
+    it('flags a lower-ranked alert detected before the recorded one', () => {
+      expect(isSupersededAlert(escalated, alert('OPPORTUNITY', '2026-02-19T11:00:00.000Z'))).toBe(
+        true
+      )
+    })
+
+    it('allows a lower-ranked alert detected afterwards, such as a reopening', () => {
+      const soldOut = { ...escalated, lastAlertType: 'SOLD_OUT' as const }
+
+      expect(isSupersededAlert(soldOut, alert('NEWLY_AVAILABLE', '2026-02-19T13:00:00.000Z'))).toBe(
+        false
+      )
+    })
+
+    it('allows same or higher-ranked alerts and sessions never alerted', () => {
+      const early = '2026-02-19T11:00:00.000Z'
+
+      expect(isSupersededAlert(escalated, alert('FILLING_FAST', early))).toBe(false)
+      expect(isSupersededAlert(escalated, alert('SOLD_OUT', early))).toBe(false)
+      expect(isSupersededAlert(undefined, alert('OPPORTUNITY', early))).toBe(false)
+    })
   })
 
   describe('updateUserResponse', () => {
@@ -356,7 +589,12 @@ describe('state', () => {
       const session = createSession()
       const state = [createState(session)]
 
-      const updated = updateUserResponse(state, '2026-02-20', '06:00', 'registered', 2)
+      const updated = updateUserResponse(
+        state,
+        { date: '2026-02-20', time: '06:00' },
+        'registered',
+        2
+      )
 
       expect(updated).toHaveLength(1)
       expect(updated[0].isRegistered).toBe(true)
@@ -369,7 +607,12 @@ describe('state', () => {
       const session = createSession()
       const state = [createState(session)]
 
-      const updated = updateUserResponse(state, '2026-02-20', '06:00', 'not_interested', 2)
+      const updated = updateUserResponse(
+        state,
+        { date: '2026-02-20', time: '06:00' },
+        'not_interested',
+        2
+      )
 
       expect(updated[0].isRegistered).toBe(false)
       expect(updated[0].userResponse).toBe('not_interested')
@@ -382,7 +625,12 @@ describe('state', () => {
       const state = [createState(session)]
 
       const before = Date.now()
-      const updated = updateUserResponse(state, '2026-02-20', '06:00', 'remind_later', 2)
+      const updated = updateUserResponse(
+        state,
+        { date: '2026-02-20', time: '06:00' },
+        'remind_later',
+        2
+      )
       const after = Date.now()
 
       expect(updated[0].userResponse).toBe('remind_later')
@@ -398,7 +646,12 @@ describe('state', () => {
       const session = createSession({ date: '2026-02-20', time: '06:00' })
       const state = [createState(session)]
 
-      const updated = updateUserResponse(state, '2026-02-21', '06:00', 'registered', 2)
+      const updated = updateUserResponse(
+        state,
+        { date: '2026-02-21', time: '06:00' },
+        'registered',
+        2
+      )
 
       expect(updated).toEqual(state)
     })
@@ -408,7 +661,12 @@ describe('state', () => {
       const session2 = createSession({ date: '2026-02-20', time: '18:30' })
       const state = [createState(session1), createState(session2)]
 
-      const updated = updateUserResponse(state, '2026-02-20', '18:30', 'not_interested', 2)
+      const updated = updateUserResponse(
+        state,
+        { date: '2026-02-20', time: '18:30' },
+        'not_interested',
+        2
+      )
 
       expect(updated[0].userResponse).toBeNull()
       expect(updated[1].userResponse).toBe('not_interested')
@@ -424,7 +682,12 @@ describe('state', () => {
         }),
       ]
 
-      const updated = updateUserResponse(state, '2026-02-20', '06:00', 'registered', 2)
+      const updated = updateUserResponse(
+        state,
+        { date: '2026-02-20', time: '06:00' },
+        'registered',
+        2
+      )
 
       expect(updated[0].userResponse).toBe('registered')
       expect(updated[0].isRegistered).toBe(true)
@@ -432,94 +695,133 @@ describe('state', () => {
     })
   })
 
-  describe('mergeUserResponses', () => {
-    it('preserves user response from fresh state when poll state has none', () => {
-      const session = createSession()
-      const pollState = [createState(session)]
-      const freshState = [
-        createState(session, {
-          userResponse: 'not_interested',
-          userRespondedAt: '2026-02-20T12:00:00Z',
-        }),
-      ]
+  describe('per-subscriber state', () => {
+    it('records a response for the clicking user alongside the session-level fields', () => {
+      const state = [createState(createSession())]
 
-      const merged = mergeUserResponses(pollState, freshState)
+      const updated = updateUserResponse(
+        state,
+        { date: '2026-02-20', time: '06:00' },
+        'not_interested',
+        2,
+        'U1'
+      )
 
-      expect(merged[0].userResponse).toBe('not_interested')
-      expect(merged[0].userRespondedAt).toBe('2026-02-20T12:00:00Z')
+      expect(updated[0].userResponse).toBe('not_interested')
+      expect(updated[0].subscribers!.U1.userResponse).toBe('not_interested')
+      expect(updated[0].subscribers!.U1.lastAlertType).toBeNull()
     })
 
-    it('preserves more recent fresh response over stale poll response', () => {
-      const session = createSession()
-      const pollState = [
-        createState(session, {
-          userResponse: 'remind_later',
-          userRespondedAt: '2026-02-20T10:00:00Z',
-          remindAfter: '2026-02-20T12:00:00Z',
-        }),
-      ]
-      const freshState = [
-        createState(session, {
-          userResponse: 'registered',
-          userRespondedAt: '2026-02-20T11:00:00Z',
-          isRegistered: true,
-        }),
-      ]
+    it('keeps other subscribers responses when one user responds', () => {
+      const state = updateUserResponse(
+        [createState(createSession())],
+        { date: '2026-02-20', time: '06:00' },
+        'registered',
+        2,
+        'U1'
+      )
+
+      const updated = updateUserResponse(
+        state,
+        { date: '2026-02-20', time: '06:00' },
+        'remind_later',
+        2,
+        'U2'
+      )
+
+      expect(updated[0].subscribers!.U1.isRegistered).toBe(true)
+      expect(updated[0].subscribers!.U2.userResponse).toBe('remind_later')
+      expect(updated[0].subscribers!.U2.isRegistered).toBe(false)
+    })
+
+    it('records an alert for one subscriber', () => {
+      const session = createSession({ playersRegistered: 16 })
+      const state = [createState(session)]
 
-      const merged = mergeUserResponses(pollState, freshState)
+      const updated = updateSubscriberAlert(
+        state,
+        session,
+        'U1',
+        'FILLING_FAST',
+        '2026-02-19T10:00:00Z'
+      )
 
-      expect(merged[0].userResponse).toBe('registered')
-      expect(merged[0].isRegistered).toBe(true)
-      expect(merged[0].remindAfter).toBeNull()
+      expect(updated[0].lastAlertType).toBeNull()
+      expect(updated[0].subscribers!.U1).toMatchObject({
+        lastAlertType: 'FILLING_FAST',
+        lastAlertAt: '2026-02-19T10:00:00Z',
+        lastPlayerCount: 16,
+      })
     })
 
-    it('keeps poll state when fresh state has no user response', () => {
+    it('records Slack messages posted for a session and keeps them across polls', () => {
       const session = createSession()
-      const pollState = [
-        createState(session, {
-          userResponse: 'remind_later',
-          userRespondedAt: '2026-02-20T10:00:00Z',
-          remindAfter: '2026-02-20T12:00:00Z',
-        }),
-      ]
-      const freshState = [createState(session)]
+      const message = {
+        channel: 'C123',
+        ts: '1700000000.000100',
+        recipient: 'C123',
+        alertType: 'OPPORTUNITY' as const,
+        postedAt: '2026-02-19T10:00:00Z',
+      }
 
-      const merged = mergeUserResponses(pollState, freshState)
+      const recorded = recordSlackMessage([createState(session)], session, message)
+      const polled = updateSessionState(recorded, session, null, null)
 
-      expect(merged[0].userResponse).toBe('remind_later')
-      expect(merged[0].remindAfter).toBe('2026-02-20T12:00:00Z')
+      expect(recorded[0].slackMessages).toEqual([message])
+      expect(polled[0].slackMessages).toEqual([message])
     })
 
-    it('handles sessions not present in fresh state', () => {
+    it('preserves subscribers when the poll updates session state', () => {
       const session = createSession()
-      const pollState = [createState(session)]
-      const freshState: SessionState[] = []
+      const state = updateUserResponse(
+        [createState(session)],
+        { date: '2026-02-20', time: '06:00' },
+        'registered',
+        2,
+        'U1'
+      )
 
-      const merged = mergeUserResponses(pollState, freshState)
+      const updated = updateSessionState(
+        state,
+        createSession({ playersRegistered: 18 }),
+        null,
+        null
+      )
 
-      expect(merged[0].userResponse).toBeNull()
+      expect(updated[0].session.playersRegistered).toBe(18)
+      expect(updated[0].subscribers!.U1.isRegistered).toBe(true)
     })
 
-    it('merges isRegistered with OR logic', () => {
+    it('shows each subscriber their own tracking in place of the session-level fields', () => {
       const session = createSession()
-      const pollState = [createState(session, { isRegistered: true })]
-      const freshState = [
+      const state = [
         createState(session, {
+          lastAlertType: 'OPPORTUNITY',
           userResponse: 'not_interested',
-          userRespondedAt: '2026-02-20T12:00:00Z',
-          isRegistered: false,
+          subscribers: {
+            U1: {
+              lastAlertType: 'FILLING_FAST',
+              lastAlertAt: '2026-02-19T10:00:00Z',
+              lastPlayerCount: 20,
+              isRegistered: false,
+              userResponse: null,
+              userRespondedAt: null,
+              remindAfter: null,
+            },
+          },
         }),
       ]
 
-      const merged = mergeUserResponses(pollState, freshState)
+      const u1 = subscriberView(state, 'U1')
+      const u2 = subscriberView(state, 'U2')
 
-      expect(merged[0].isRegistered).toBe(true)
-      expect(merged[0].userResponse).toBe('not_interested')
+      expect(u1[0]).toEqual({ ...createState(session), ...state[0].subscribers!.U1 })
+      expect(u2[0]).toEqual(createState(session))
     })
   })
 
-  describe('backward compatibility', () => {
-    it('loads state without new fields and defaults them to null', () => {
+  describe('schema migrations', () => {
+    it('upgrades a version 0 file without user-response fields', () => {
       // Simulate old state format without userResponse fields
       const oldFormatState = [
         {
@@ -543,6 +845,64 @@ describe('state', () => {
       expect(state[0].lastAlertType).toBe('OPPORTUNITY')
       expect(state[0].isRegistered).toBe(false)
     })
+
+    it('backs up the pre-migration file and keeps the first backup', () => {
+      const original = JSON.stringify([createState(createSession())], null, 2)
+      fs.writeFileSync(testStatePath, original)
+
+      loadState(testStatePath)
+      fs.writeFileSync(testStatePath, JSON.stringify([]))
+      loadState(testStatePath)
+
+      const backupPath = `${testStatePath}.v0.bak`
+      expect(fs.readFileSync(backupPath, 'utf-8')).toBe(original)
+    })
+
+    it('does not rewrite the state file on load', () => {
+      const original = JSON.stringify([createState(createSession())])
+      fs.writeFileSync(testStatePath, original)
+
+      loadState(testStatePath)
+
+      expect(fs.readFileSync(testStatePath, 'utf-8')).toBe(original)
+    })
+
+    it('writes the current version on the next update', () => {
+      fs.writeFileSync(testStatePath, JSON.stringify([createState(createSession())]))
+
+      updateStateFile(testStatePath, (state) => [...state])
+
+      const saved = JSON.parse(fs.readFileSync(testStatePath, 'utf-8'))
+      expect(saved.version).toBe(CURRENT_STATE_VERSION)
+      expect(saved.sessions).toHaveLength(1)
+      expect(fs.existsSync(`${testStatePath}.v0.bak`)).toBe(true)
+    })
+
+    it('does not back up files already at the current version', () => {
+      saveState(testStatePath, [createState(createSession())])
+
+      loadState(testStatePath)
+
+      expect(fs.existsSync(`${testStatePath}.v${CURRENT_STATE_VERSION}.bak`)).toBe(false)
+      expect(fs.readdirSync(testDataDir).filter((f) => f.endsWith('.bak'))).toHaveLength(0)
+    })
+  })
+
+  describe('readStateFile', () => {
+    it('reports pending migrations without touching disk', () => {
+      fs.writeFileSync(testStatePath, JSON.stringify([createState(createSession())]))
+
+      const result = readStateFile(testStatePath)
+
+      expect(result?.fromVersion).toBe(0)
+      expect(result?.toVersion).toBe(CURRENT_STATE_VERSION)
+      expect(result?.applied).toHaveLength(CURRENT_STATE_VERSION)
+      expect(fs.existsSync(`${testStatePath}.v0.bak`)).toBe(false)
+    })
+
+    it('returns null when the state file does not exist', () => {
+      expect(readStateFile(testStatePath)).toBeNull()
+    })
   })
 
   describe('integration: full workflow', () => {
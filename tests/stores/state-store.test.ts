@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import { createStateStore } from '../../src/stores/factory'
+import Database from 'better-sqlite3'
+import { SqliteStateStore } from '../../src/stores/sqlite'
+import { CURRENT_STATE_VERSION } from '../../src/migrations'
+import type { StateBackend, StateStore } from '../../src/stores/interface'
+import type { SessionState } from '../../src/evaluator'
+import type { Session } from '../../src/parser'
+
+const testDataDir = path.join(__dirname, '../../data/test-stores')
+
+const createSession = (overrides: Partial<Session> = {}): Session => ({
+  date: '2026-02-20',
+  dayOfWeek: 'Friday',
+  time: '06:00',
+  timeLabel: '6:00am - 7:10am',
+  eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+  playersRegistered: 14,
+  playersMax: 24,
+  goaliesRegistered: 2,
+  goaliesMax: 3,
+  isFull: false,
+  price: 15,
+  ...overrides,
+})
+
+const createState = (
+  session: Session,
+  overrides: Partial<Omit<SessionState, 'session'>> = {}
+): SessionState => ({
+  session,
+  lastAlertType: null,
+  lastAlertAt: null,
+  lastPlayerCount: null,
+  isRegistered: false,
+  userResponse: null,
+  userRespondedAt: null,
+  remindAfter: null,
+  ...overrides,
+})
+
+const backends: Array<{ backend: StateBackend; file: string }> = [
+  { backend: 'json', file: 'state.json' },
+  { backend: 'sqlite', file: 'state.db' },
+]
+
+describe.each(backends)('StateStore ($backend)', ({ backend, file }) => {
+  const filePath = path.join(testDataDir, file)
+  let store: StateStore
+
+  beforeEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+    store = createStateStore(backend, filePath)
+  })
+
+  afterEach(() => {
+    store.close()
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+  })
+
+  it('has the backend name', () => {
+    expect(store.name).toBe(backend)
+  })
+
+  it('loads empty state before anything is saved', () => {
+    expect(store.load()).toEqual([])
+    expect(store.lastModified()).toBeNull()
+  })
+
+  it('round-trips saved state in order', () => {
+    const state = [
+      createState(createSession({ time: '18:30' })),
+      createState(createSession({ time: '06:00' }), { lastAlertType: 'OPPORTUNITY' }),
+    ]
+
+    store.save(state)
+
+    expect(store.load()).toEqual(state)
+    expect(store.lastModified()).not.toBeNull()
+  })
+
+  it('removes sessions dropped by a save', () => {
+    store.save([
+      createState(createSession({ date: '2026-02-18' })),
+      createState(createSession({ date: '2026-02-20' })),
+    ])
+
+    store.save([createState(createSession({ date: '2026-02-20' }))])
+
+    expect(store.load().map((s) => s.session.date)).toEqual(['2026-02-20'])
+  })
+
+  it('applies update to the current state and persists the result', () => {
+    store.save([createState(createSession())])
+
+    const result = store.update((state) =>
+      state.map((s) => ({ ...s, userResponse: 'not_interested' as const }))
+    )
+
+    expect(result[0].userResponse).toBe('not_interested')
+    expect(store.load()[0].userResponse).toBe('not_interested')
+  })
+
+  it('skips the write when update returns the input unchanged', () => {
+    store.update((state) => state)
+
+    expect(store.lastModified()).toBeNull()
+  })
+
+  it('persists across store instances', () => {
+    store.save([createState(createSession())])
+    store.close()
+
+    store = createStateStore(backend, filePath)
+
+    expect(store.load()).toHaveLength(1)
+  })
+})
+
+describe('SqliteStateStore', () => {
+  const filePath = path.join(testDataDir, 'state.db')
+
+  beforeEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+  })
+
+  it('sees updates made through another connection', () => {
+    const poller = new SqliteStateStore(filePath)
+    const handler = new SqliteStateStore(filePath)
+
+    poller.save([createState(createSession())])
+    handler.update((state) => state.map((s) => ({ ...s, isRegistered: true })))
+
+    // Poll cycle applies its own fields on top of the handler's write
+    poller.update((state) => state.map((s) => ({ ...s, lastAlertType: 'FILLING_FAST' as const })))
+
+    const [entry] = handler.load()
+    expect(entry.isRegistered).toBe(true)
+    expect(entry.lastAlertType).toBe('FILLING_FAST')
+
+    poller.close()
+    handler.close()
+  })
+
+  it('keeps the date and time columns current when a session is rescheduled', () => {
+    const store = new SqliteStateStore(filePath)
+    const ids = { venue: 'extremeice', playersEventId: '101', goaliesEventId: '102' }
+    store.save([createState(createSession(ids))])
+    store.save([createState(createSession({ ...ids, date: '2026-02-21', time: '07:00' }))])
+    store.close()
+
+    const db = new Database(filePath)
+    const rows = db.prepare('SELECT date, time FROM sessions').all()
+    expect(rows).toEqual([{ date: '2026-02-21', time: '07:00' }])
+    db.close()
+  })
+
+  it('rolls back when the mutation throws', () => {
+    const store = new SqliteStateStore(filePath)
+    store.save([createState(createSession())])
+
+    expect(() =>
+      store.update(() => {
+        throw new Error('boom')
+      })
+    ).toThrow('boom')
+    expect(store.load()).toHaveLength(1)
+
+    store.close()
+  })
+
+  it('migrates rows from a database created before schema versioning', () => {
+    const store = new SqliteStateStore(filePath)
+    store.save([createState(createSession())])
+    store.close()
+
+    // Simulate a pre-versioning database: no schema_version, legacy row shape
+    const db = new Database(filePath)
+    db.prepare("DELETE FROM meta WHERE key = 'schema_version'").run()
+    db.prepare('UPDATE sessions SET data = ?').run(
+      JSON.stringify({ session: createSession(), lastAlertType: null, isRegistered: true })
+    )
+    db.close()
+
+    const migrated = new SqliteStateStore(filePath)
+    const [entry] = migrated.load()
+    expect(entry.isRegistered).toBe(true)
+    expect(entry.userResponse).toBeNull()
+    expect(entry.remindAfter).toBeNull()
+    migrated.close()
+
+    expect(fs.existsSync(`${filePath}.v0.bak`)).toBe(true)
+    const check = new Database(filePath)
+    const row = check.prepare("SELECT value FROM meta WHERE key = 'schema_version'").get() as {
+      value: string
+    }
+    expect(Number(row.value)).toBe(CURRENT_STATE_VERSION)
+    check.close()
+  })
+})
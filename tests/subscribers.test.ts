@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  evaluateForSubscribers,
+  loadSubscribers,
+  subscriberConfig,
+  wantsSession,
+  type Subscriber,
+} from '../src/subscribers'
+import { updateUserResponse, updateSubscriberAlert } from '../src/state'
+import type { Config } from '../src/config'
+import type { SessionState } from '../src/evaluator'
+import type { Session } from '../src/parser'
+import { DEFAULT_VENUE } from '../src/venue'
+
+describe('subscribers', () => {
+  const testDataDir = path.join(__dirname, '../data/test-subscribers')
+  const subscribersPath = path.join(testDataDir, 'subscribers.json')
+
+  const config = {
+    minGoalies: 1,
+    minPlayersRegistered: 10,
+    playerSpotsUrgent: 4,
+    selloutLeadHours: 12,
+    venues: [DEFAULT_VENUE],
+  } as Config
+
+  const createSession = (overrides: Partial<Session> = {}): Session => ({
+    date: '2026-02-25',
+    dayOfWeek: 'Wednesday',
+    time: '06:00',
+    timeLabel: '6:00am - 7:10am',
+    eventName: '(PLAYERS) ADULT Pick Up MORNINGS',
+    playersRegistered: 12,
+    playersMax: 24,
+    goaliesRegistered: 2,
+    goaliesMax: 3,
+    isFull: false,
+    price: 15,
+    ...overrides,
+  })
+
+  const createState = (session: Session): SessionState => ({
+    session,
+    lastAlertType: null,
+    lastAlertAt: null,
+    lastPlayerCount: null,
+    isRegistered: false,
+    userResponse: null,
+    userRespondedAt: null,
+    remindAfter: null,
+  })
+
+  const writeSubscribers = (subscribers: unknown[]): void => {
+    fs.writeFileSync(subscribersPath, JSON.stringify({ subscribers }))
+  }
+
+  beforeEach(() => {
+    fs.mkdirSync(testDataDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+  })
+
+  describe('loadSubscribers', () => {
+    it('returns no subscribers when the file does not exist', () => {
+      expect(loadSubscribers(path.join(testDataDir, 'missing.json'))).toEqual([])
+    })
+
+    it('loads subscribers with their preferences', () => {
+      writeSubscribers([
+        { userId: 'U1', name: 'Sam', daysOfWeek: ['Tuesday'], timeRange: { from: '18:00' } },
+        { userId: 'U2', minGoalies: 2, playerSpotsUrgent: 6 },
+      ])
+
+      expect(loadSubscribers(subscribersPath)).toEqual([
+        { userId: 'U1', name: 'Sam', daysOfWeek: ['Tuesday'], timeRange: { from: '18:00' } },
+        { userId: 'U2', minGoalies: 2, playerSpotsUrgent: 6 },
+      ])
+    })
+
+    it('throws on a file without a subscribers list', () => {
+      fs.writeFileSync(subscribersPath, JSON.stringify([{ userId: 'U1' }]))
+
+      expect(() => loadSubscribers(subscribersPath)).toThrow('must contain { "subscribers"')
+    })
+
+    it('throws on unparseable JSON', () => {
+      fs.writeFileSync(subscribersPath, '{ not json')
+
+      expect(() => loadSubscribers(subscribersPath)).toThrow('Cannot read subscribers file')
+    })
+
+    it('throws on a missing userId', () => {
+      writeSubscribers([{ name: 'Sam' }])
+
+      expect(() => loadSubscribers(subscribersPath)).toThrow('index 0 must have a string "userId"')
+    })
+
+    it('throws on duplicate user ids', () => {
+      writeSubscribers([{ userId: 'U1' }, { userId: 'U1' }])
+
+      expect(() => loadSubscribers(subscribersPath)).toThrow('Duplicate subscriber "U1"')
+    })
+
+    it('rejects invalid preferences with the user id', () => {
+      writeSubscribers([{ userId: 'U1', daysOfWeek: ['Funday'] }])
+      expect(() => loadSubscribers(subscribersPath)).toThrow(
+        'Invalid subscriber "U1": "daysOfWeek"'
+      )
+
+      writeSubscribers([{ userId: 'U1', timeRange: { from: '6pm' } }])
+      expect(() => loadSubscribers(subscribersPath)).toThrow('"timeRange"')
+
+      writeSubscribers([{ userId: 'U1', minGoalies: -1 }])
+      expect(() => loadSubscribers(subscribersPath)).toThrow('"minGoalies" must be a whole number')
+    })
+  })
+
+  describe('subscriberConfig', () => {
+    it('overrides only the thresholds the subscriber set', () => {
+      const personal = subscriberConfig(config, { userId: 'U1', playerSpotsUrgent: 6 })
+
+      expect(personal.playerSpotsUrgent).toBe(6)
+      expect(personal.minGoalies).toBe(1)
+      expect(personal.minPlayersRegistered).toBe(10)
+    })
+  })
+
+  describe('wantsSession', () => {
+    it('accepts every session when no days or times are set', () => {
+      expect(wantsSession({ userId: 'U1' }, createSession())).toBe(true)
+    })
+
+    it('filters by day of week and time range', () => {
+      const subscriber: Subscriber = {
+        userId: 'U1',
+        daysOfWeek: ['wednesday'],
+        timeRange: { from: '05:00', to: '07:00' },
+      }
+
+      expect(wantsSession(subscriber, createSession())).toBe(true)
+      expect(wantsSession(subscriber, createSession({ time: '18:30' }))).toBe(false)
+      expect(wantsSession(subscriber, createSession({ dayOfWeek: 'Thursday' }))).toBe(false)
+    })
+  })
+
+  describe('evaluateForSubscribers', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2026-02-23T12:00:00Z'))
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('merges subscribers who get the same alert into one alert', () => {
+      const session = createSession()
+
+      const alerts = evaluateForSubscribers(
+        [session],
+        [createState(session)],
+        config,
+        [],
+        [{ userId: 'U1' }, { userId: 'U2' }]
+      )
+
+      expect(alerts).toHaveLength(1)
+      expect(alerts[0].type).toBe('OPPORTUNITY')
+      expect(alerts[0].subscribers).toEqual(['U1', 'U2'])
+    })
+
+    it('does not silence a session for others when one user dismisses it', () => {
+      const session = createSession()
+      const state = updateUserResponse(
+        [createState(session)],
+        { date: session.date, time: session.time },
+        'not_interested',
+        2,
+        'U1'
+      )
+
+      const alerts = evaluateForSubscribers(
+        [session],
+        state,
+        config,
+        [],
+        [{ userId: 'U1' }, { userId: 'U2' }]
+      )
+
+      expect(alerts).toHaveLength(1)
+      expect(alerts[0].subscribers).toEqual(['U2'])
+    })
+
+    it('suppresses repeat alerts per subscriber', () => {
+      const session = createSession()
+      const state = updateSubscriberAlert(
+        [createState(session)],
+        session,
+        'U1',
+        'OPPORTUNITY',
+        '2026-02-23T11:00:00Z'
+      )
+
+      const alerts = evaluateForSubscribers(
+        [session],
+        state,
+        config,
+        [],
+        [{ userId: 'U1' }, { userId: 'U2' }]
+      )
+
+      expect(alerts[0].subscribers).toEqual(['U2'])
+    })
+
+    it('applies personal thresholds and preferred days', () => {
+      const session = createSession({ playersRegistered: 19 }) // 5 spots left
+
+      const alerts = evaluateForSubscribers(
+        [session],
+        [createState(session)],
+        config,
+        [],
+        [
+          { userId: 'U1' },
+          { userId: 'U2', playerSpotsUrgent: 6 },
+          { userId: 'U3', daysOfWeek: ['Saturday'] },
+        ]
+      )
+
+      expect(alerts.map((a) => [a.type, a.subscribers])).toEqual([
+        ['FILLING_FAST', ['U2']],
+        ['OPPORTUNITY', ['U1']],
+      ])
+    })
+
+    it('sorts alerts chronologically', () => {
+      const later = createSession({ date: '2026-02-26', dayOfWeek: 'Thursday' })
+      const earlier = createSession()
+
+      const alerts = evaluateForSubscribers(
+        [later, earlier],
+        [createState(later), createState(earlier)],
+        config,
+        [],
+        [{ userId: 'U1' }]
+      )
+
+      expect(alerts.map((a) => a.session.date)).toEqual(['2026-02-25', '2026-02-26'])
+    })
+  })
+})
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as path from 'path'
+import {
+  buildRegistrationUrl,
+  DEFAULT_VENUE,
+  findVenue,
+  isVenueDay,
+  loadVenuesFile,
+} from '../src/venue'
+
+describe('venue', () => {
+  const testDataDir = path.join(__dirname, '../data/test-venues')
+  const venuesPath = path.join(testDataDir, 'venues.json')
+
+  const writeVenues = (venues: unknown[]): void => {
+    fs.writeFileSync(venuesPath, JSON.stringify({ venues }))
+  }
+
+  beforeEach(() => {
+    fs.mkdirSync(testDataDir, { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true })
+  })
+
+  describe('buildRegistrationUrl', () => {
+    it('links to the Extreme Ice registration page by default', () => {
+      expect(buildRegistrationUrl('2026-02-20')).toBe(
+        'https://apps.daysmartrecreation.com/dash/x/#/online/extremeice/event-registration?date=2026-02-20&facility_ids=1'
+      )
+    })
+
+    it("uses the venue's host, company and facilities", () => {
+      const venue = {
+        ...DEFAULT_VENUE,
+        baseUrl: 'https://dash.example.com',
+        company: 'otherrink',
+        facilityIds: ['2', '3'],
+      }
+
+      expect(buildRegistrationUrl('2026-02-20', venue)).toBe(
+        'https://dash.example.com/dash/x/#/online/otherrink/event-registration?date=2026-02-20&facility_ids=2,3'
+      )
+    })
+
+    it('omits facility_ids when every facility is monitored', () => {
+      expect(buildRegistrationUrl('2026-02-20', { ...DEFAULT_VENUE, facilityIds: [] })).toBe(
+        'https://apps.daysmartrecreation.com/dash/x/#/online/extremeice/event-registration?date=2026-02-20'
+      )
+    })
+  })
+
+  describe('findVenue', () => {
+    const other = { ...DEFAULT_VENUE, id: 'otherrink', company: 'otherrink' }
+
+    it("finds the session's venue by id", () => {
+      expect(findVenue([DEFAULT_VENUE, other], { venue: 'otherrink' })).toBe(other)
+    })
+
+    it('falls back to the first venue for sessions without a known venue', () => {
+      expect(findVenue([other, DEFAULT_VENUE], {})).toBe(other)
+      expect(findVenue([other], { venue: 'removed' })).toBe(other)
+    })
+  })
+
+  describe('isVenueDay', () => {
+    it('defaults to Monday, Wednesday and Friday', () => {
+      expect(isVenueDay('2026-02-16')).toBe(true) // Monday
+      expect(isVenueDay('2026-02-17')).toBe(false) // Tuesday
+      expect(isVenueDay('2026-02-20')).toBe(true) // Friday
+    })
+
+    it("follows the venue's days, in any case", () => {
+      const venue = { ...DEFAULT_VENUE, days: ['sunday', 'Tuesday'] }
+
+      expect(isVenueDay('2026-02-15', venue)).toBe(true) // Sunday
+      expect(isVenueDay('2026-02-17', venue)).toBe(true) // Tuesday
+      expect(isVenueDay('2026-02-16', venue)).toBe(false) // Monday
+    })
+
+    it('treats an empty list as every day', () => {
+      expect(isVenueDay('2026-02-14', { ...DEFAULT_VENUE, days: [] })).toBe(true)
+    })
+  })
+
+  describe('loadVenuesFile', () => {
+    it('fills in defaults for omitted fields', () => {
+      writeVenues([
+        { company: 'extremeice' },
+        {
+          id: 'other-training',
+          name: 'Other Rink (training)',
+          baseUrl: 'https://dash.example.com/',
+          company: 'otherrink',
+          facilityIds: [2],
+          timezone: 'America/Chicago',
+          days: ['Tuesday', 'Thursday'],
+        },
+      ])
+
+      expect(loadVenuesFile(venuesPath)).toEqual([
+        { ...DEFAULT_VENUE, name: 'extremeice' },
+        {
+          id: 'other-training',
+          name: 'Other Rink (training)',
+          baseUrl: 'https://dash.example.com',
+          company: 'otherrink',
+          facilityIds: ['2'],
+          timezone: 'America/Chicago',
+          days: ['Tuesday', 'Thursday'],
+        },
+      ])
+    })
+
+    it('throws when the file is missing', () => {
+      expect(() => loadVenuesFile(path.join(testDataDir, 'missing.json'))).toThrow(
+        'Cannot read venues file'
+      )
+    })
+
+    it('throws without a venues array', () => {
+      writeVenues([])
+
+      expect(() => loadVenuesFile(venuesPath)).toThrow('must contain { "venues": [...] }')
+    })
+
+    it('requires a company', () => {
+      writeVenues([{ name: 'Nowhere' }])
+
+      expect(() => loadVenuesFile(venuesPath)).toThrow(
+        'Venue at index 0 must have a string "company"'
+      )
+    })
+
+    it('rejects malformed facility lists', () => {
+      writeVenues([{ company: 'otherrink', facilityIds: '2' }])
+
+      expect(() => loadVenuesFile(venuesPath)).toThrow(
+        'Invalid venue "otherrink": "facilityIds" must be a list of facility ids'
+      )
+    })
+
+    it('rejects days that are not weekday names', () => {
+      writeVenues([{ company: 'otherrink', days: ['Monday', 'Funday'] }])
+
+      expect(() => loadVenuesFile(venuesPath)).toThrow(
+        'Invalid venue "otherrink": "days" must be a list of weekday names'
+      )
+    })
+  })
+})